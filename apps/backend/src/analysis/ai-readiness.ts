@@ -0,0 +1,267 @@
+import type { CheerioAPI } from "cheerio";
+import { parseHTML } from "linkedom";
+import { collectJsonLdByType, extractStructuredDataPayloads } from "../detectors/utils";
+import { AI_CRAWLERS } from "./constants";
+import { evaluateRobots, parseRobotsTxt } from "./robots";
+import type { AiCrawlerAgent, HighlightEntry, LlmsFileResult, ModuleComputer } from "./types";
+import { clampScore, createIssueTracker, formatRatio, incrementIssue, roundScore, toHighlight } from "./utils";
+
+const ANSWER_SCHEMA_TYPES = ["faqpage", "howto", "qapage"];
+const QUESTION_HEADING_PATTERN = /\?\s*$|^(what|how|why|when|where|who|which|can|do|does|is|are|should)\b/i;
+const DEFINITION_PATTERN = /\b(is|are|refers to|means|describes)\b/i;
+const INTRO_MAX_WORDS = 60;
+const INTRO_MIN_WORDS = 8;
+const INTRO_PARAGRAPH_LIMIT = 3;
+const LLMS_LINK_PATTERN = /^\s*[-*]\s*\[([^\]]+)\]\(([^)\s]+)\)(?::\s*(.*))?$/;
+const HTML_BODY_PATTERN = /^\s*(<!doctype html|<html|<head|<body)/i;
+
+export interface AiCrawlerAccess extends AiCrawlerAgent {
+  allowed: boolean;
+  /** True when the verdict comes from a group naming this agent rather than `*`. */
+  explicit: boolean;
+  matchedRule: string | null;
+}
+
+export interface LlmsTxtValidation {
+  url: string;
+  found: boolean;
+  bytes: number;
+  title: string | null;
+  summary: string | null;
+  sections: string[];
+  links: number;
+  errors: string[];
+  warnings: string[];
+}
+
+const evaluateAiCrawlers = (robotsTxt: string | null, url: URL): AiCrawlerAccess[] => {
+  const parsed = parseRobotsTxt(robotsTxt);
+  return AI_CRAWLERS.map((crawler) => {
+    const verdict = evaluateRobots(parsed, url, crawler.agent);
+    return {
+      ...crawler,
+      allowed: verdict.allowed,
+      explicit: Boolean(verdict.matchedGroup?.some((agent) => agent !== "*")),
+      matchedRule: verdict.matchedRule ? `${verdict.matchedRule.type}: ${verdict.matchedRule.path}` : null,
+    };
+  });
+};
+
+/**
+ * Validates the llms.txt format from llmstxt.org: an H1 with the site name,
+ * an optional blockquote summary, then H2 sections listing Markdown links.
+ */
+export const validateLlmsTxt = (file: LlmsFileResult | null | undefined, requireLinks = true): LlmsTxtValidation => {
+  const validation: LlmsTxtValidation = {
+    url: file?.url ?? "",
+    found: Boolean(file?.found),
+    bytes: file?.bytes ?? 0,
+    title: null,
+    summary: null,
+    sections: [],
+    links: 0,
+    errors: [],
+    warnings: [],
+  };
+  if (!file?.found || file.text === null) return validation;
+
+  const text = file.text.replace(/^\uFEFF/, "");
+  if (HTML_BODY_PATTERN.test(text) || file.contentType?.toLowerCase().includes("text/html")) {
+    validation.errors.push("Served as HTML instead of plain-text Markdown (likely a catch-all page)");
+    return validation;
+  }
+
+  const lines = text.split(/\r?\n/);
+  const firstContent = lines.findIndex((line) => line.trim().length > 0);
+  const h1Lines = lines.filter((line) => /^#\s+\S/.test(line));
+  if (firstContent === -1 || !/^#\s+\S/.test(lines[firstContent])) {
+    validation.errors.push("File must start with an H1 (`# Site name`)");
+  } else {
+    validation.title = lines[firstContent].replace(/^#\s+/, "").trim();
+  }
+  if (h1Lines.length > 1) {
+    validation.warnings.push(`Found ${h1Lines.length} H1 headings; only the first line should be an H1`);
+  }
+
+  const summaryLine = lines.slice(firstContent + 1).find((line) => line.trim().length > 0);
+  if (summaryLine?.startsWith(">")) {
+    validation.summary = summaryLine.replace(/^>\s*/, "").trim();
+  } else {
+    validation.warnings.push("Add a `>` blockquote summary right after the H1");
+  }
+
+  let invalidLinks = 0;
+  lines.forEach((line) => {
+    if (/^##\s+\S/.test(line)) {
+      validation.sections.push(line.replace(/^##\s+/, "").trim());
+      return;
+    }
+    const match = line.match(LLMS_LINK_PATTERN);
+    if (!match) return;
+    validation.links += 1;
+    try {
+      new URL(match[2], file.url);
+    } catch {
+      invalidLinks += 1;
+    }
+  });
+
+  if (invalidLinks) {
+    validation.errors.push(`${invalidLinks} link(s) do not resolve to a valid URL`);
+  }
+  if (requireLinks && !validation.sections.length) {
+    validation.warnings.push("No `##` sections found; group key pages under H2 headings");
+  }
+  if (requireLinks && !validation.links) {
+    validation.warnings.push("No `- [title](url)` link entries found");
+  }
+  if (file.truncated) {
+    validation.warnings.push("File is larger than the validation limit; only the beginning was checked");
+  }
+
+  return validation;
+};
+
+const findAnswerSchemas = (html: string) => {
+  const { document } = parseHTML(html);
+  const payloads = extractStructuredDataPayloads(document).map((entry) => entry.payload);
+  const matches = collectJsonLdByType(payloads, (types) =>
+    types.some((type) => ANSWER_SCHEMA_TYPES.includes(type)),
+  );
+  return Array.from(new Set(matches.map((entry) => String(entry["@type"])))).sort();
+};
+
+const findIntroParagraph = (dom: CheerioAPI) => {
+  const scope = dom("main").length ? dom("main").first() : dom("article").length ? dom("article").first() : dom("body");
+  const paragraphs = scope
+    .find("p")
+    .toArray()
+    .map((node) => dom(node).text().replace(/\s+/g, " ").trim())
+    .filter((text) => text.split(" ").length >= INTRO_MIN_WORDS)
+    .slice(0, INTRO_PARAGRAPH_LIMIT);
+  return paragraphs[0] ?? null;
+};
+
+export const computeAiReadiness: ModuleComputer = (ctx) => {
+  const issues = createIssueTracker();
+  const recommendations: string[] = [];
+
+  const crawlers = evaluateAiCrawlers(ctx.robotsTxt, ctx.url);
+  const searchAgents = crawlers.filter((crawler) => crawler.purpose === "search");
+  const trainingAgents = crawlers.filter((crawler) => crawler.purpose === "training");
+  const blockedSearch = searchAgents.filter((crawler) => !crawler.allowed);
+  const blockedTraining = trainingAgents.filter((crawler) => !crawler.allowed);
+  const searchRatio = searchAgents.length ? (searchAgents.length - blockedSearch.length) / searchAgents.length : 1;
+  const trainingRatio = trainingAgents.length
+    ? (trainingAgents.length - blockedTraining.length) / trainingAgents.length
+    : 1;
+
+  if (blockedSearch.length) {
+    incrementIssue(issues, blockedSearch.length === searchAgents.length ? "critical" : "warning");
+    recommendations.push(
+      `robots.txt blocks AI answer engines (${blockedSearch.map((crawler) => crawler.agent).join(", ")}); allow them so assistants can cite this page.`,
+    );
+  }
+  if (blockedTraining.length) {
+    incrementIssue(issues, "info");
+    recommendations.push(
+      `Training crawlers are blocked (${blockedTraining.map((crawler) => crawler.agent).join(", ")}); confirm this opt-out is intentional.`,
+    );
+  }
+
+  const llms = validateLlmsTxt(ctx.llmsTxt?.llms);
+  const llmsFull = validateLlmsTxt(ctx.llmsTxt?.llmsFull, false);
+  if (!llms.found) {
+    incrementIssue(issues, "info");
+    recommendations.push("Publish /llms.txt with an H1, a short summary, and links to the pages assistants should read.");
+  } else if (llms.errors.length) {
+    incrementIssue(issues, "warning");
+    recommendations.push(`Fix /llms.txt: ${llms.errors.join("; ")}.`);
+  } else if (llms.warnings.length) {
+    recommendations.push(`Improve /llms.txt: ${llms.warnings.join("; ")}.`);
+  }
+  if (llmsFull.found && llmsFull.errors.length) {
+    incrementIssue(issues, "warning");
+    recommendations.push(`Fix /llms-full.txt: ${llmsFull.errors.join("; ")}.`);
+  }
+
+  const answerSchemas = findAnswerSchemas(ctx.html);
+  const h1Count = ctx.dom("h1").length;
+  const subheadings = ctx.dom("h2, h3")
+    .toArray()
+    .map((node) => ctx.dom(node).text().replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+  const questionHeadings = subheadings.filter((heading) => QUESTION_HEADING_PATTERN.test(heading));
+  const intro = findIntroParagraph(ctx.dom);
+  const introWords = intro ? intro.split(" ").length : 0;
+  const conciseIntro = Boolean(intro) && introWords <= INTRO_MAX_WORDS;
+  const definitionIntro = conciseIntro && DEFINITION_PATTERN.test(intro ?? "");
+
+  if (!answerSchemas.length) {
+    recommendations.push("Mark up question-and-answer or step-by-step content with FAQPage or HowTo JSON-LD.");
+  }
+  if (h1Count !== 1 || subheadings.length < 2) {
+    incrementIssue(issues, "info");
+    recommendations.push("Structure the page with a single H1 and descriptive H2/H3 sections that answer one topic each.");
+  }
+  if (!conciseIntro) {
+    recommendations.push(
+      `Open with a concise answer or definition (under ${INTRO_MAX_WORDS} words) so AI summaries can quote it directly.`,
+    );
+  }
+
+  let score = 3 * searchRatio + trainingRatio;
+  if (llms.found) score += llms.errors.length ? 0.5 : 1.5;
+  if (llms.found && !llms.errors.length && !llms.warnings.length) score += 0.5;
+  if (llmsFull.found && !llmsFull.errors.length) score += 1;
+  if (answerSchemas.length) score += 1;
+  if (h1Count === 1 && subheadings.length >= 2) score += questionHeadings.length ? 1 : 0.75;
+  if (conciseIntro) score += definitionIntro ? 1 : 0.5;
+  score = clampScore(roundScore(score));
+
+  const highlights: HighlightEntry[] = [
+    toHighlight(
+      "AI answer engines allowed",
+      `${searchAgents.length - blockedSearch.length}/${searchAgents.length}`,
+      blockedSearch.length ? "poor" : "good",
+    ),
+    toHighlight("Training crawlers allowed", formatRatio(trainingRatio), blockedTraining.length ? "warn" : "good"),
+    toHighlight(
+      "llms.txt",
+      llms.found ? (llms.errors.length ? "Invalid" : "Valid") : "Missing",
+      llms.found && !llms.errors.length ? "good" : "warn",
+    ),
+    toHighlight(
+      "llms-full.txt",
+      llmsFull.found ? (llmsFull.errors.length ? "Invalid" : "Valid") : "Missing",
+      llmsFull.found ? (llmsFull.errors.length ? "warn" : "good") : undefined,
+    ),
+    toHighlight("Answer schema", answerSchemas.length ? answerSchemas.join(", ") : "None", answerSchemas.length ? "good" : "warn"),
+    toHighlight("Question headings", questionHeadings.length),
+    toHighlight("Intro length", intro ? `${introWords} words` : "Not found", conciseIntro ? "good" : "warn"),
+  ].filter(Boolean) as HighlightEntry[];
+
+  return {
+    score,
+    summary: blockedSearch.length
+      ? `${blockedSearch.length} of ${searchAgents.length} AI answer engines are blocked by robots.txt.`
+      : llms.found
+        ? "AI crawlers can reach the page and llms.txt is published."
+        : "AI crawlers can reach the page; no llms.txt found.",
+    recommendations,
+    issues,
+    details: {
+      crawlers,
+      llmsTxt: llms,
+      llmsFullTxt: llmsFull,
+      answerSchemas,
+      headings: {
+        h1: h1Count,
+        subheadings: subheadings.length,
+        questions: questionHeadings.slice(0, 10),
+      },
+      intro: intro ? { words: introWords, concise: conciseIntro, definition: definitionIntro } : null,
+      highlights,
+    },
+  };
+};
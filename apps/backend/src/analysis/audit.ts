@@ -0,0 +1,145 @@
+import { normalizeAuditUrl } from "../storage/lighthouse-store";
+import { fetchPsiResult } from "./http";
+import type {
+  AnalyzeStrategy,
+  AuditCategory,
+  AuditFieldMetric,
+  AuditMetric,
+  AuditOpportunity,
+  AuditResponse,
+  PsiLoadingExperience,
+  PsiResponse,
+} from "./types";
+
+interface LighthouseAuditOptions {
+  url: string;
+  strategy?: AnalyzeStrategy;
+  locale?: string;
+  skipCache?: boolean;
+  signal?: AbortSignal;
+}
+
+const CATEGORY_ORDER = ["performance", "accessibility", "best-practices", "seo"];
+
+const LAB_METRICS: Array<{ key: string; audit: string; label: string }> = [
+  { key: "fcp", audit: "first-contentful-paint", label: "First Contentful Paint" },
+  { key: "lcp", audit: "largest-contentful-paint", label: "Largest Contentful Paint" },
+  { key: "tbt", audit: "total-blocking-time", label: "Total Blocking Time" },
+  { key: "cls", audit: "cumulative-layout-shift", label: "Cumulative Layout Shift" },
+  { key: "si", audit: "speed-index", label: "Speed Index" },
+  { key: "inp", audit: "interaction-to-next-paint", label: "Interaction to Next Paint" },
+  { key: "tti", audit: "interactive", label: "Time to Interactive" },
+];
+
+// CrUX reports CLS percentiles multiplied by 100.
+const FIELD_METRICS: Array<{ key: string; crux: string; divisor?: number }> = [
+  { key: "lcp", crux: "LARGEST_CONTENTFUL_PAINT_MS" },
+  { key: "cls", crux: "CUMULATIVE_LAYOUT_SHIFT_SCORE", divisor: 100 },
+  { key: "inp", crux: "INTERACTION_TO_NEXT_PAINT" },
+  { key: "fcp", crux: "FIRST_CONTENTFUL_PAINT_MS" },
+  { key: "ttfb", crux: "EXPERIMENTAL_TIME_TO_FIRST_BYTE" },
+  { key: "fid", crux: "FIRST_INPUT_DELAY_MS" },
+];
+
+const OPPORTUNITY_LIMIT = 10;
+
+const toPercent = (score: number | null | undefined) => (typeof score === "number" ? Math.round(score * 100) : null);
+
+const toNumber = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : null);
+
+const buildCategories = (psi: PsiResponse): AuditCategory[] => {
+  const categories = psi.lighthouseResult?.categories ?? {};
+  return CATEGORY_ORDER.filter((id) => categories[id]).map((id) => ({
+    id,
+    title: categories[id]?.title ?? id,
+    score: toPercent(categories[id]?.score),
+  }));
+};
+
+const buildMetrics = (psi: PsiResponse): AuditMetric[] => {
+  const audits = psi.lighthouseResult?.audits ?? {};
+  return LAB_METRICS.filter((metric) => audits[metric.audit]).map((metric) => {
+    const audit = audits[metric.audit]!;
+    return {
+      key: metric.key,
+      label: audit.title ?? metric.label,
+      displayValue: audit.displayValue ?? null,
+      numericValue: toNumber(audit.numericValue),
+      unit: audit.numericUnit === "millisecond" ? "ms" : audit.numericUnit ?? "unitless",
+      score: toPercent(audit.score),
+    };
+  });
+};
+
+const buildOpportunities = (psi: PsiResponse): AuditOpportunity[] => {
+  const audits = psi.lighthouseResult?.audits ?? {};
+  return Object.entries(audits)
+    .map(([id, audit]): AuditOpportunity | null => {
+      const details = (audit?.details ?? {}) as Record<string, unknown>;
+      if (!audit || details.type !== "opportunity" || audit.score === 1) return null;
+      const savingsMs = toNumber(details.overallSavingsMs);
+      const savingsBytes = toNumber(details.overallSavingsBytes);
+      if (!savingsMs && !savingsBytes) return null;
+      return {
+        id: audit.id ?? id,
+        title: audit.title ?? id,
+        description: audit.description,
+        score: toPercent(audit.score),
+        savingsMs: savingsMs != null ? Math.round(savingsMs) : null,
+        savingsBytes: savingsBytes != null ? Math.round(savingsBytes) : null,
+      };
+    })
+    .filter((entry): entry is AuditOpportunity => Boolean(entry))
+    .sort((a, b) => (b.savingsMs ?? 0) - (a.savingsMs ?? 0) || (b.savingsBytes ?? 0) - (a.savingsBytes ?? 0))
+    .slice(0, OPPORTUNITY_LIMIT);
+};
+
+const buildFieldMetrics = (experience?: PsiLoadingExperience): Record<string, AuditFieldMetric> => {
+  const metrics = experience?.metrics ?? {};
+  const fieldData: Record<string, AuditFieldMetric> = {};
+  FIELD_METRICS.forEach(({ key, crux, divisor }) => {
+    const metric = metrics[crux];
+    if (!metric) return;
+    const percentile = toNumber(metric.percentile);
+    fieldData[key] = {
+      percentile: percentile != null && divisor ? percentile / divisor : percentile,
+      category: typeof metric.category === "string" ? metric.category : null,
+    };
+  });
+  return fieldData;
+};
+
+export const runLighthouseAudit = async (options: LighthouseAuditOptions): Promise<AuditResponse> => {
+  if (!options.url || typeof options.url !== "string") {
+    throw new Error("url is required.");
+  }
+
+  const normalizedUrl = normalizeAuditUrl(options.url);
+  const strategy = options.strategy === "desktop" ? "desktop" : "mobile";
+  const locale = options.locale?.trim() || "en_US";
+  const { response: psi, cached, fetchedAt } = await fetchPsiResult(normalizedUrl, strategy, locale, {
+    skipCache: Boolean(options.skipCache),
+    signal: options.signal,
+  });
+  const lighthouse = psi.lighthouseResult ?? {};
+
+  return {
+    url: normalizedUrl,
+    requestedUrl: lighthouse.requestedUrl ?? normalizedUrl,
+    finalUrl: lighthouse.finalDisplayedUrl ?? lighthouse.finalUrl ?? normalizedUrl,
+    strategy,
+    fetchedAt: lighthouse.fetchTime ?? psi.analysisUTCTimestamp ?? fetchedAt,
+    cached,
+    categories: buildCategories(psi),
+    metrics: buildMetrics(psi),
+    opportunities: buildOpportunities(psi),
+    fieldData: {
+      page: buildFieldMetrics(psi.loadingExperience),
+      origin: buildFieldMetrics(psi.originLoadingExperience),
+    },
+    psiMeta: {
+      lighthouseVersion: lighthouse.lighthouseVersion,
+      formFactor: lighthouse.configSettings?.formFactor,
+    },
+  };
+};
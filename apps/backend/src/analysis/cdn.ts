@@ -0,0 +1,290 @@
+import type { AnalysisContext, CdnDetection, GeoLookupResult, GeoSignalScore, HighlightEntry } from "./types";
+import { createIssueTracker, toHighlight } from "./utils";
+
+/** IATA codes CDNs commonly use to name their POPs, mapped to city and ISO 3166-1 country. */
+const POP_LOCATIONS: Record<string, { city: string; country: string }> = {
+  AMS: { city: "Amsterdam", country: "NL" },
+  ARN: { city: "Stockholm", country: "SE" },
+  ATL: { city: "Atlanta", country: "US" },
+  BCN: { city: "Barcelona", country: "ES" },
+  BER: { city: "Berlin", country: "DE" },
+  BKK: { city: "Bangkok", country: "TH" },
+  BNE: { city: "Brisbane", country: "AU" },
+  BOG: { city: "Bogotá", country: "CO" },
+  BOM: { city: "Mumbai", country: "IN" },
+  BOS: { city: "Boston", country: "US" },
+  BRU: { city: "Brussels", country: "BE" },
+  BUD: { city: "Budapest", country: "HU" },
+  CAI: { city: "Cairo", country: "EG" },
+  CDG: { city: "Paris", country: "FR" },
+  CGK: { city: "Jakarta", country: "ID" },
+  CPH: { city: "Copenhagen", country: "DK" },
+  CPT: { city: "Cape Town", country: "ZA" },
+  DEL: { city: "New Delhi", country: "IN" },
+  DEN: { city: "Denver", country: "US" },
+  DFW: { city: "Dallas", country: "US" },
+  DUB: { city: "Dublin", country: "IE" },
+  DUS: { city: "Düsseldorf", country: "DE" },
+  DXB: { city: "Dubai", country: "AE" },
+  EWR: { city: "Newark", country: "US" },
+  EZE: { city: "Buenos Aires", country: "AR" },
+  FRA: { city: "Frankfurt", country: "DE" },
+  GIG: { city: "Rio de Janeiro", country: "BR" },
+  GRU: { city: "São Paulo", country: "BR" },
+  HAM: { city: "Hamburg", country: "DE" },
+  HEL: { city: "Helsinki", country: "FI" },
+  HKG: { city: "Hong Kong", country: "HK" },
+  HND: { city: "Tokyo", country: "JP" },
+  IAD: { city: "Ashburn", country: "US" },
+  ICN: { city: "Seoul", country: "KR" },
+  IST: { city: "Istanbul", country: "TR" },
+  JFK: { city: "New York", country: "US" },
+  JNB: { city: "Johannesburg", country: "ZA" },
+  KIX: { city: "Osaka", country: "JP" },
+  KUL: { city: "Kuala Lumpur", country: "MY" },
+  LAX: { city: "Los Angeles", country: "US" },
+  LHR: { city: "London", country: "GB" },
+  LIS: { city: "Lisbon", country: "PT" },
+  LON: { city: "London", country: "GB" },
+  MAD: { city: "Madrid", country: "ES" },
+  MAN: { city: "Manchester", country: "GB" },
+  MEL: { city: "Melbourne", country: "AU" },
+  MEX: { city: "Mexico City", country: "MX" },
+  MIA: { city: "Miami", country: "US" },
+  MRS: { city: "Marseille", country: "FR" },
+  MUC: { city: "Munich", country: "DE" },
+  MXP: { city: "Milan", country: "IT" },
+  NRT: { city: "Tokyo", country: "JP" },
+  ORD: { city: "Chicago", country: "US" },
+  OSL: { city: "Oslo", country: "NO" },
+  PDX: { city: "Portland", country: "US" },
+  PHX: { city: "Phoenix", country: "US" },
+  PRG: { city: "Prague", country: "CZ" },
+  SCL: { city: "Santiago", country: "CL" },
+  SEA: { city: "Seattle", country: "US" },
+  SFO: { city: "San Francisco", country: "US" },
+  SIN: { city: "Singapore", country: "SG" },
+  SJC: { city: "San Jose", country: "US" },
+  SOF: { city: "Sofia", country: "BG" },
+  SYD: { city: "Sydney", country: "AU" },
+  TLV: { city: "Tel Aviv", country: "IL" },
+  TPE: { city: "Taipei", country: "TW" },
+  TXL: { city: "Berlin", country: "DE" },
+  VIE: { city: "Vienna", country: "AT" },
+  WAW: { city: "Warsaw", country: "PL" },
+  YUL: { city: "Montréal", country: "CA" },
+  YVR: { city: "Vancouver", country: "CA" },
+  YYZ: { city: "Toronto", country: "CA" },
+  ZRH: { city: "Zurich", country: "CH" },
+};
+
+interface CdnSignature {
+  provider: string;
+  /** Returns evidence strings when the headers match this CDN. */
+  match: (headers: Record<string, string>) => string[];
+  /** Extracts the IATA code of the serving POP, when the CDN exposes one. */
+  pop?: (headers: Record<string, string>) => string | null;
+  /** Anycast networks answer every visitor from the nearest POP on one IP. */
+  anycast?: boolean;
+}
+
+const headerIncludes = (headers: Record<string, string>, name: string, pattern: RegExp) =>
+  pattern.test(headers[name] ?? "") ? [`${name}: ${headers[name]}`] : [];
+
+const headerPresent = (headers: Record<string, string>, name: string) =>
+  headers[name] !== undefined ? [`${name}: ${headers[name]}`] : [];
+
+const CDN_SIGNATURES: CdnSignature[] = [
+  {
+    provider: "Cloudflare",
+    anycast: true,
+    match: (headers) => [...headerPresent(headers, "cf-ray"), ...headerIncludes(headers, "server", /cloudflare/i)],
+    // cf-ray: 8a1b2c3d4e5f6a7b-FRA
+    pop: (headers) => headers["cf-ray"]?.match(/-([A-Z]{3})$/i)?.[1] ?? null,
+  },
+  {
+    provider: "Amazon CloudFront",
+    match: (headers) => [
+      ...headerPresent(headers, "x-amz-cf-pop"),
+      ...headerPresent(headers, "x-amz-cf-id"),
+      ...headerIncludes(headers, "via", /cloudfront/i),
+    ],
+    // x-amz-cf-pop: FRA56-P1
+    pop: (headers) => headers["x-amz-cf-pop"]?.match(/^([A-Z]{3})/i)?.[1] ?? null,
+  },
+  {
+    provider: "Fastly",
+    anycast: true,
+    match: (headers) => [
+      ...headerIncludes(headers, "x-served-by", /cache-[a-z]{3}/i),
+      ...headerPresent(headers, "x-fastly-request-id"),
+    ],
+    // x-served-by: cache-fra-eddf8230061-FRA (the last entry is the edge closest to the client)
+    pop: (headers) => {
+      const entries = headers["x-served-by"]?.split(",").map((entry) => entry.trim()) ?? [];
+      const edge = entries[entries.length - 1];
+      return edge?.match(/-([A-Z]{3})$/)?.[1] ?? edge?.match(/^cache-([a-z]{3})/i)?.[1] ?? null;
+    },
+  },
+  {
+    provider: "Akamai",
+    match: (headers) => [
+      ...headerIncludes(headers, "server", /akamai/i),
+      ...Object.keys(headers)
+        .filter((name) => name.startsWith("x-akamai") || name === "akamai-grn")
+        .map((name) => `${name}: ${headers[name]}`),
+    ],
+  },
+  {
+    provider: "Vercel",
+    anycast: true,
+    match: (headers) => [...headerPresent(headers, "x-vercel-id"), ...headerIncludes(headers, "server", /^vercel$/i)],
+    // x-vercel-id: fra1::iad1::abcde-1700000000000-0123456789ab
+    pop: (headers) => headers["x-vercel-id"]?.match(/^([a-z]{3})\d/i)?.[1] ?? null,
+  },
+  {
+    provider: "Netlify",
+    match: (headers) => [...headerPresent(headers, "x-nf-request-id"), ...headerIncludes(headers, "server", /netlify/i)],
+  },
+  {
+    provider: "Bunny CDN",
+    match: (headers) => headerIncludes(headers, "server", /bunnycdn/i),
+  },
+  {
+    provider: "Azure Front Door",
+    anycast: true,
+    match: (headers) => [...headerPresent(headers, "x-azure-ref"), ...headerPresent(headers, "x-msedge-ref")],
+  },
+  {
+    provider: "Google Cloud CDN",
+    anycast: true,
+    match: (headers) => headerIncludes(headers, "via", /\bgoogle\b/i),
+  },
+];
+
+const ASN_PROVIDERS: Array<{ provider: string; pattern: RegExp }> = [
+  { provider: "Cloudflare", pattern: /cloudflare/i },
+  { provider: "Amazon CloudFront", pattern: /amazon|cloudfront/i },
+  { provider: "Fastly", pattern: /fastly/i },
+  { provider: "Akamai", pattern: /akamai/i },
+  { provider: "Vercel", pattern: /vercel/i },
+  { provider: "Bunny CDN", pattern: /bunny|datacamp/i },
+  { provider: "Azure Front Door", pattern: /microsoft/i },
+  { provider: "Google Cloud CDN", pattern: /google/i },
+];
+
+/**
+ * Identifies the CDN in front of the site from response headers (and the
+ * network operator of the resolved IPs as supporting evidence). The POP is
+ * the edge that served *our* request, so it reflects the analyzer's location.
+ */
+export const detectCdn = (headers: Record<string, string>, geo?: GeoLookupResult | null): CdnDetection | null => {
+  const matched = CDN_SIGNATURES.map((signature) => ({ signature, evidence: signature.match(headers) })).find(
+    (entry) => entry.evidence.length > 0,
+  );
+  if (!matched) return null;
+
+  const { signature, evidence } = matched;
+  const operator = (geo?.addresses ?? []).map((address) => address.isp).find(Boolean);
+  const asnMatches = ASN_PROVIDERS.some(
+    (entry) => entry.provider === signature.provider && operator && entry.pattern.test(operator),
+  );
+  const pop = signature.pop?.(headers)?.toUpperCase() ?? null;
+  const location = pop ? POP_LOCATIONS[pop] : undefined;
+
+  return {
+    provider: signature.provider,
+    pop,
+    popCity: location?.city ?? null,
+    popCountry: location?.country ?? null,
+    anycast: Boolean(signature.anycast),
+    evidence: asnMatches ? [...evidence, `network operator: ${operator}`] : evidence,
+  };
+};
+
+/**
+ * Known POPs of the anycast providers, by IATA code. Not exhaustive: a
+ * provider only gets credit for a country where we know it has an edge.
+ */
+const PROVIDER_POPS: Record<string, string[]> = {
+  Cloudflare: Object.keys(POP_LOCATIONS),
+  Fastly: [
+    "AMS", "ATL", "BNE", "BOG", "BOM", "BOS", "CDG", "CPH", "CPT", "DEL", "DEN", "DFW", "DUB", "EWR", "FRA", "GRU",
+    "HEL", "HKG", "IAD", "ICN", "JNB", "LAX", "LHR", "LIS", "MAD", "MAN", "MEL", "MIA", "NRT", "ORD", "OSL", "SCL",
+    "SEA", "SIN", "SJC", "SYD", "VIE", "WAW", "YUL", "YVR", "YYZ",
+  ],
+  Vercel: [
+    "ARN", "BOM", "CDG", "CPT", "DUB", "FRA", "GRU", "HKG", "HND", "IAD", "ICN", "KIX", "LHR", "PDX", "SFO", "SIN",
+    "SYD",
+  ],
+  "Azure Front Door": [
+    "AMS", "ATL", "BOM", "CDG", "CPT", "DFW", "DUB", "DXB", "FRA", "GRU", "HKG", "IAD", "ICN", "JNB", "LAX", "LHR",
+    "MAD", "MEL", "MIA", "MXP", "NRT", "ORD", "SEA", "SIN", "SJC", "ARN", "SYD", "VIE", "WAW", "YYZ", "ZRH",
+  ],
+  "Google Cloud CDN": [
+    "AMS", "ATL", "BOM", "CDG", "DEL", "DFW", "FRA", "GRU", "HKG", "IAD", "ICN", "JNB", "LAX", "LHR", "MAD", "MEL",
+    "MXP", "NRT", "ORD", "SCL", "SEA", "SIN", "SYD", "TLV", "WAW", "YUL", "YYZ", "ZRH",
+  ],
+};
+
+const POP_COUNTRIES = new Map(
+  Object.entries(PROVIDER_POPS).map(([provider, pops]) => [
+    provider,
+    new Set(pops.map((pop) => POP_LOCATIONS[pop]?.country).filter((country): country is string => Boolean(country))),
+  ]),
+);
+
+/** Whether `provider` has one of the POPs we know of in `country`. */
+export const hasKnownPopIn = (provider: string, country: string) =>
+  POP_COUNTRIES.get(provider)?.has(country.toUpperCase()) ?? false;
+
+/**
+ * Scores where the site is served from. Behind a CDN the origin IP says
+ * little: the edge counts when the anycast network has a known POP in the
+ * target market for local visitors. The POP that served our own request only
+ * reflects where the analyzer runs, so it is shown but not scored.
+ */
+export const scoreHosting = (
+  ctx: Pick<AnalysisContext, "geo" | "targetCountry">,
+  cdn: CdnDetection | null,
+): GeoSignalScore => {
+  const recommendations: string[] = [];
+  const serverCountries = Array.from(
+    new Set(
+      (ctx.geo?.addresses ?? [])
+        .map((address) => address.countryCode?.toUpperCase())
+        .filter((code): code is string => Boolean(code)),
+    ),
+  );
+  if (!serverCountries.length && ctx.geo?.countryCode) serverCountries.push(ctx.geo.countryCode.toUpperCase());
+  const serverMatches = ctx.targetCountry ? serverCountries.includes(ctx.targetCountry) : false;
+  const anycastEdgeInTarget = Boolean(
+    cdn?.anycast && ctx.targetCountry && hasKnownPopIn(cdn.provider, ctx.targetCountry),
+  );
+  const servedNearTarget = serverMatches || anycastEdgeInTarget;
+
+  if (ctx.targetCountry && !servedNearTarget) {
+    recommendations.push("Consider regional hosting/CDN POPs near target market.");
+  }
+
+  return {
+    scoreDelta: servedNearTarget ? 2 : 0,
+    issues: createIssueTracker(),
+    recommendations,
+    highlights: [
+      cdn ? toHighlight("CDN", cdn.pop ? `${cdn.provider} (${cdn.pop})` : cdn.provider, "good") : null,
+      cdn?.popCity ? toHighlight("Edge POP", `${cdn.popCity}, ${cdn.popCountry}`) : null,
+      toHighlight(
+        "Server region",
+        serverCountries.length ? serverCountries.join(", ") : "Unknown",
+        serverMatches ? "good" : cdn ? undefined : "warn",
+      ),
+      ctx.geo && ctx.geo.addresses.length > 1 ? toHighlight("Server IPs", ctx.geo.addresses.length) : null,
+    ].filter(Boolean) as HighlightEntry[],
+    summary: cdn
+      ? `served through ${cdn.provider} edge locations`
+      : serverMatches
+        ? "server geo aligns with target market"
+        : "server geo differs from target market",
+  };
+};
@@ -1,7 +1,9 @@
-import type { ModuleDefinition } from "./types";
+import type { AiCrawlerAgent, ModuleDefinition, ModuleKey } from "./types";
 
 const DEFAULT_ANALYSIS_TIMEOUT_MS = 90_000;
 const parsedTimeout = Number(process.env.ANALYSIS_TIMEOUT_MS);
+const DEFAULT_SITEMAP_FETCH_LIMIT = 25;
+const parsedSitemapFetchLimit = Number(process.env.SITEMAP_FETCH_LIMIT);
 
 export const MODULE_DEFINITIONS: ModuleDefinition[] = [
   {
@@ -9,55 +11,204 @@ export const MODULE_DEFINITIONS: ModuleDefinition[] = [
     label: "Performance & Core Web Vitals",
     weight: 15,
     description: "Lab data from PageSpeed Insights for LCP, CLS, INP, and blocking time.",
+    inputs: ["psi", "detectors"],
   },
   {
     key: "schema",
     label: "Schema & Structured Data",
     weight: 15,
     description: "Structured data coverage across JSON-LD, microdata, and RDFa.",
+    inputs: ["html", "detectors"],
   },
   {
     key: "geo",
     label: "GEO Localization & Hreflang",
     weight: 15,
-    description: "Hreflang hygiene, ccTLD alignment, sitemap alternates, and server geolocation.",
+    description:
+      "Hreflang cluster validation, URL targeting, locale redirects, content language, localization fit, and server geolocation.",
+    inputs: ["html", "robots", "sitemap", "geo", "hreflang", "localeProbes", "detectors"],
   },
   {
     key: "seo_basics",
     label: "SEO Basics",
     weight: 20,
-    description: "Title, meta description, canonical tags, robots directives, and sitemap reachability.",
+    description: "Title, meta description, canonical tags, robots directives, and sitemap protocol validation.",
+    inputs: ["html", "robots", "sitemap", "detectors"],
   },
   {
     key: "social",
     label: "Social Preview",
     weight: 10,
     description: "Open Graph, Twitter cards, and preview asset health.",
+    inputs: ["html"],
   },
   {
     key: "security",
     label: "Security & Headers",
     weight: 10,
-    description: "HTTPS enforcement, HSTS, anti-sniff, framing protections, and mixed content checks.",
+    description: "HTTPS, HSTS and CSP grading, cookie flags, referrer and permissions policies, cross-origin isolation, and active vs passive mixed content.",
+    inputs: ["html"],
   },
   {
     key: "accessibility",
     label: "Accessibility Lite",
     weight: 10,
     description: "Alt text coverage and landmark elements for basic assistive compliance.",
+    inputs: ["html"],
   },
   {
     key: "links",
     label: "Links & Indexability",
     weight: 5,
-    description: "Broken link sampling, rel attributes, and index blocking directives.",
+    description: "Broken link sampling, rel attributes, robots.txt-blocked links, and index blocking directives.",
+    inputs: ["html", "robots", "linkSample", "detectors"],
+  },
+  {
+    key: "ai_readiness",
+    label: "AI Crawlers & Generative Search",
+    weight: 10,
+    description: "robots.txt access for AI crawlers, llms.txt validation, and answer-friendly page structure.",
+    inputs: ["html", "robots", "llms"],
+  },
+  {
+    key: "content",
+    label: "Content Quality",
+    weight: 10,
+    description: "Main content word count, readability, thin-content flags, and boilerplate ratio.",
+    inputs: ["html"],
+  },
+  {
+    key: "keywords",
+    label: "Target Keywords",
+    weight: 10,
+    description: "Placement of the requested keywords in title, H1, meta description, URL, body copy, alts and anchors.",
+    inputs: ["html", "keywords"],
+  },
+  {
+    key: "headings",
+    label: "Heading Structure",
+    weight: 5,
+    description: "H1-H6 document outline, skipped levels, empty or hidden headings, and H1/title alignment.",
+    inputs: ["html"],
+  },
+  {
+    key: "images",
+    label: "Image Optimization",
+    weight: 10,
+    description: "Image dimensions, lazy loading, responsive srcset, modern formats, and byte weight.",
+    inputs: ["html", "images"],
+  },
+  {
+    key: "local",
+    label: "Local Business NAP",
+    weight: 5,
+    description: "Business name, address, and phone on the page versus structured data, E.164 phones, and opening hours.",
+    inputs: ["html"],
   },
 ];
 
 export const MODULE_DEFINITION_MAP = new Map(MODULE_DEFINITIONS.map((definition) => [definition.key, definition]));
 
+/** Which analysis module absorbs the findings of each technical detector group. */
+export const DETECTOR_MODULE_MAP: Record<string, ModuleKey> = {
+  metadata: "seo_basics",
+  sitemap_indexing: "seo_basics",
+  duplicate_content: "seo_basics",
+  amp_mobile: "performance",
+  performance: "performance",
+  links_navigation: "links",
+  geo_localization: "geo",
+  schema_structured: "schema",
+};
+
 export const CACHE_TTL_MS = 60_000;
 export const ANALYSIS_TIMEOUT_MS =
   Number.isFinite(parsedTimeout) && parsedTimeout > 0 ? parsedTimeout : DEFAULT_ANALYSIS_TIMEOUT_MS;
 export const LINK_SAMPLE_LIMIT = 50;
+/** Main content below this many words is flagged as thin. */
+export const CONTENT_MIN_WORDS = 300;
+export const CONTENT_TARGET_WORDS = 600;
+/** Maximum number of target keywords evaluated per analysis. */
+export const KEYWORD_LIMIT = 10;
+/** Keyword density range (percent of main-content words) treated as natural usage. */
+export const KEYWORD_DENSITY_MIN = 0.5;
+export const KEYWORD_DENSITY_MAX = 3;
+/** Maximum number of A/AAAA records geolocated per hostname. */
+export const GEO_ADDRESS_LIMIT = 8;
+/** Maximum number of hreflang alternates fetched to verify return links. */
+export const HREFLANG_FETCH_LIMIT = 20;
+/** Accept-Language values sent to the analyzed URL when testing locale negotiation. */
+export const LOCALE_PROBE_LANGUAGE_LIMIT = 5;
+/** Fallback languages probed when the page declares fewer hreflang languages than the limit. */
+export const LOCALE_PROBE_DEFAULT_LANGUAGES = ["en-US", "de-DE", "fr-FR", "es-ES", "ja-JP"];
+/** Maximum number of distinct image URLs probed for byte size and intrinsic dimensions. */
+export const IMAGE_SAMPLE_LIMIT = 40;
+/** Bytes requested per image; enough to reach the dimension headers of every supported format. */
+export const IMAGE_PROBE_BYTES = 64 * 1024;
+/** Transfer size above which an image is reported as heavy. */
+export const IMAGE_HEAVY_BYTES = 250 * 1024;
+/** How many leading content images are treated as above the fold (no layout engine is available). */
+export const IMAGE_ABOVE_FOLD_COUNT = 3;
 export const USER_AGENT = "DreamSEO Analyzer/1.0 (+https://dreamseo.dev)";
+/** Product token our own crawler matches against robots.txt user-agent groups. */
+export const CRAWLER_AGENT_TOKEN = "DreamSEO";
+/** Search crawler whose robots.txt rules decide whether sampled internal links are crawlable. */
+export const LINK_ROBOTS_AGENT = "Googlebot";
+
+/**
+ * AI crawlers checked against robots.txt. `search` agents fetch pages to answer
+ * user queries and cite sources; `training` agents collect model training data,
+ * which sites may reasonably opt out of.
+ */
+export const AI_CRAWLERS: AiCrawlerAgent[] = [
+  { agent: "GPTBot", vendor: "OpenAI", purpose: "training" },
+  { agent: "OAI-SearchBot", vendor: "OpenAI", purpose: "search" },
+  { agent: "ChatGPT-User", vendor: "OpenAI", purpose: "search" },
+  { agent: "ClaudeBot", vendor: "Anthropic", purpose: "training" },
+  { agent: "Claude-SearchBot", vendor: "Anthropic", purpose: "search" },
+  { agent: "Claude-User", vendor: "Anthropic", purpose: "search" },
+  { agent: "PerplexityBot", vendor: "Perplexity", purpose: "search" },
+  { agent: "Perplexity-User", vendor: "Perplexity", purpose: "search" },
+  { agent: "Google-Extended", vendor: "Google", purpose: "training" },
+  { agent: "Applebot-Extended", vendor: "Apple", purpose: "training" },
+  { agent: "Amazonbot", vendor: "Amazon", purpose: "search" },
+  { agent: "meta-externalagent", vendor: "Meta", purpose: "training" },
+  { agent: "Bytespider", vendor: "ByteDance", purpose: "training" },
+  { agent: "CCBot", vendor: "Common Crawl", purpose: "training" },
+];
+/** Upper bound on the llms.txt / llms-full.txt body kept for validation. */
+export const LLMS_TXT_MAX_BYTES = 1024 * 1024;
+
+/** Maximum number of sitemap files (roots plus index children) downloaded per site. */
+export const SITEMAP_FETCH_LIMIT =
+  Number.isFinite(parsedSitemapFetchLimit) && parsedSitemapFetchLimit > 0
+    ? Math.floor(parsedSitemapFetchLimit)
+    : DEFAULT_SITEMAP_FETCH_LIMIT;
+export const SITEMAP_MAX_URLS = 50_000;
+export const SITEMAP_MAX_BYTES = 50 * 1024 * 1024;
+export const SITEMAP_ENTRY_SAMPLE_LIMIT = 1000;
+/** Sitemap downloads in flight at once while following indexes. */
+export const SITEMAP_CONCURRENCY = 4;
+/** Overall deadline for reading every sitemap of one site. */
+export const SITEMAP_TIMEOUT_MS = 45_000;
+
+/** Modules that only need the page HTML (plus shared robots/sitemap) and can run on every crawled page. */
+export const CRAWL_MODULE_KEYS: ModuleKey[] = [
+  "schema",
+  "seo_basics",
+  "social",
+  "security",
+  "accessibility",
+  "content",
+  "headings",
+  "local",
+];
+export const CRAWL_DEFAULT_MAX_PAGES = 25;
+export const CRAWL_MAX_PAGES_LIMIT = 200;
+export const CRAWL_DEFAULT_MAX_DEPTH = 2;
+export const CRAWL_MAX_DEPTH_LIMIT = 5;
+export const CRAWL_CONCURRENCY = 3;
+/** Overall deadline for one crawl, whatever its page budget. */
+export const CRAWL_TIMEOUT_MS = 10 * 60_000;
+/** Longest robots.txt Crawl-delay the crawler waits out between requests. */
+export const CRAWL_MAX_DELAY_SECONDS = 10;
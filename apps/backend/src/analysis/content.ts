@@ -0,0 +1,219 @@
+import { load, type CheerioAPI } from "cheerio";
+import { tokenize } from "../detectors/utils";
+import { CONTENT_MIN_WORDS, CONTENT_TARGET_WORDS } from "./constants";
+import type { HighlightEntry, ModuleComputer } from "./types";
+import { clampScore, createIssueTracker, formatRatio, incrementIssue, roundScore, toHighlight } from "./utils";
+
+const BOILERPLATE_SELECTORS = [
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "iframe",
+  "form",
+  "nav",
+  "header",
+  "footer",
+  "aside",
+  "[role=navigation]",
+  "[role=banner]",
+  "[role=contentinfo]",
+  "[role=complementary]",
+  "[aria-hidden=true]",
+  "[hidden]",
+  '[class*="cookie" i]',
+  '[id*="cookie" i]',
+  '[class*="breadcrumb" i]',
+  '[class*="sidebar" i]',
+  '[id*="sidebar" i]',
+  '[class*="menu" i]',
+];
+const MAIN_SELECTORS = ["main", "[role=main]", "article"];
+const WORD_PATTERN = /[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu;
+const IDEOGRAPH_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+const SENTENCE_PATTERN = /[^.!?。！？]+[.!?。！？]*/g;
+const PARAGRAPH_MIN_WORDS = 20;
+
+export interface MainContent {
+  text: string;
+  paragraphs: string[];
+  /** Which selector the content was taken from (`body` when no landmark exists). */
+  source: string;
+}
+
+export interface ReadabilityScores {
+  sentences: number;
+  averageSentenceLength: number;
+  averageSyllablesPerWord: number;
+  fleschReadingEase: number;
+  fleschKincaidGrade: number;
+}
+
+const collapse = (text: string) => text.replace(/\s+/g, " ").trim();
+
+/** Counts words; Han and Kana are written without spaces, so each character counts as one. */
+export const countWords = (text: string) => {
+  const ideographs = text.match(IDEOGRAPH_PATTERN)?.length ?? 0;
+  return ideographs + (text.replace(IDEOGRAPH_PATTERN, " ").match(WORD_PATTERN)?.length ?? 0);
+};
+
+export const bodyText = (dom: CheerioAPI) => {
+  const copy = load(dom.html());
+  copy("script, style, noscript, template, svg").remove();
+  return collapse(copy("body").text());
+};
+
+/**
+ * Extracts the main copy of the page without touching the shared DOM: drops
+ * navigation, header, footer and other boilerplate, then prefers the first
+ * `<main>`/`<article>` landmark over the whole body.
+ */
+export const extractMainContent = (dom: CheerioAPI): MainContent => {
+  const copy = load(dom.html());
+  // Class-based selectors can match wrappers such as <body class="menu-open">; never drop those.
+  copy(BOILERPLATE_SELECTORS.join(", ")).not("html, body, main, article").remove();
+
+  const source = MAIN_SELECTORS.find((selector) => countWords(copy(selector).first().text()) > 0) ?? "body";
+  const root = copy(source).first();
+  const paragraphs = root
+    .find("p, li, blockquote, dd, td")
+    .toArray()
+    .map((node) => collapse(copy(node).text()))
+    .filter((text) => countWords(text) >= PARAGRAPH_MIN_WORDS);
+
+  return { text: collapse(root.text()), paragraphs, source };
+};
+
+// Vowel-group heuristic; accurate enough for English readability formulas.
+const countSyllables = (word: string) => {
+  const normalized = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (!normalized) return 0;
+  if (normalized.length <= 3) return 1;
+  const trimmed = normalized.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "").replace(/^y/, "");
+  return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length ?? 1);
+};
+
+export const computeReadability = (text: string): ReadabilityScores | null => {
+  const words = text.match(WORD_PATTERN) ?? [];
+  const wordCount = countWords(text);
+  if (!wordCount) return null;
+  const sentences = Math.max(
+    1,
+    (text.match(SENTENCE_PATTERN) ?? []).filter((sentence) => countWords(sentence) > 0).length,
+  );
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const averageSentenceLength = wordCount / sentences;
+  const averageSyllablesPerWord = words.length ? syllables / words.length : 0;
+
+  return {
+    sentences,
+    averageSentenceLength: Number(averageSentenceLength.toFixed(1)),
+    averageSyllablesPerWord: Number(averageSyllablesPerWord.toFixed(2)),
+    fleschReadingEase: Number((206.835 - 1.015 * averageSentenceLength - 84.6 * averageSyllablesPerWord).toFixed(1)),
+    fleschKincaidGrade: Number((0.39 * averageSentenceLength + 11.8 * averageSyllablesPerWord - 15.59).toFixed(1)),
+  };
+};
+
+export const computeContent: ModuleComputer = (ctx) => {
+  const issues = createIssueTracker();
+  const recommendations: string[] = [];
+
+  const main = extractMainContent(ctx.dom);
+  const wordCount = countWords(main.text);
+  const pageWords = Math.max(wordCount, countWords(bodyText(ctx.dom)));
+  const boilerplateRatio = pageWords ? 1 - wordCount / pageWords : 0;
+  const tokens = tokenize(main.text);
+  const uniqueTerms = new Set(tokens).size;
+  const lexicalDiversity = tokens.length ? uniqueTerms / tokens.length : 0;
+  const textToHtmlRatio = ctx.html.length ? Buffer.byteLength(main.text) / Buffer.byteLength(ctx.html) : 0;
+  const readability = computeReadability(main.text);
+  const isEnglish = ctx.locale.toLowerCase().startsWith("en");
+  const thin = wordCount < CONTENT_MIN_WORDS;
+
+  let score = 0;
+  if (wordCount >= CONTENT_TARGET_WORDS) score += 4;
+  else if (wordCount >= CONTENT_MIN_WORDS) score += 3;
+  else if (wordCount >= CONTENT_MIN_WORDS / 2) score += 1.5;
+
+  if (readability) {
+    // Flesch formulas are calibrated for English; elsewhere fall back to sentence length.
+    if (isEnglish) {
+      score += readability.fleschReadingEase >= 60 ? 2 : readability.fleschReadingEase >= 40 ? 1 : 0.5;
+    } else {
+      score += readability.averageSentenceLength <= 25 ? 2 : 1;
+    }
+  }
+  if (boilerplateRatio <= 0.5) score += 2;
+  else if (boilerplateRatio <= 0.7) score += 1;
+  if (main.paragraphs.length >= 3) score += 1;
+  if (textToHtmlRatio >= 0.1) score += 1;
+  score = clampScore(roundScore(score));
+
+  if (thin) {
+    incrementIssue(issues, wordCount < CONTENT_MIN_WORDS / 2 ? "critical" : "warning");
+    recommendations.push(
+      `Main content has only ${wordCount} words; expand it beyond ${CONTENT_MIN_WORDS} words with information that answers the page's intent.`,
+    );
+  }
+  if (readability && isEnglish && readability.fleschReadingEase < 40) {
+    incrementIssue(issues, "info");
+    recommendations.push(
+      `Copy is hard to read (Flesch ${readability.fleschReadingEase}, grade ${readability.fleschKincaidGrade}); shorten sentences and prefer plain words.`,
+    );
+  } else if (readability && readability.averageSentenceLength > 25) {
+    incrementIssue(issues, "info");
+    recommendations.push(
+      `Sentences average ${readability.averageSentenceLength} words; break long sentences up for easier scanning.`,
+    );
+  }
+  if (boilerplateRatio > 0.7) {
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `${formatRatio(boilerplateRatio)} of the page text is navigation, header or footer boilerplate; add more unique body copy.`,
+    );
+  }
+  if (main.source === "body") {
+    recommendations.push("Wrap the primary copy in <main> or <article> so crawlers can separate it from boilerplate.");
+  }
+  if (main.paragraphs.length < 3 && !thin) {
+    recommendations.push("Break the copy into several focused paragraphs or list items.");
+  }
+
+  const highlights: HighlightEntry[] = [
+    toHighlight("Main content words", wordCount, thin ? "poor" : wordCount >= CONTENT_TARGET_WORDS ? "good" : "warn"),
+    readability
+      ? isEnglish
+        ? toHighlight(
+            "Flesch reading ease",
+            readability.fleschReadingEase,
+            readability.fleschReadingEase >= 60 ? "good" : readability.fleschReadingEase >= 40 ? "warn" : "poor",
+          )
+        : toHighlight("Avg. sentence length", readability.averageSentenceLength, readability.averageSentenceLength <= 25 ? "good" : "warn")
+      : null,
+    toHighlight("Boilerplate ratio", formatRatio(boilerplateRatio), boilerplateRatio <= 0.5 ? "good" : "warn"),
+    toHighlight("Text-to-HTML ratio", formatRatio(textToHtmlRatio), textToHtmlRatio >= 0.1 ? "good" : "warn"),
+  ].filter(Boolean) as HighlightEntry[];
+
+  return {
+    score,
+    summary: thin
+      ? `Thin content: ${wordCount} words of main copy.`
+      : `${wordCount} words of main copy; ${formatRatio(boilerplateRatio)} boilerplate.`,
+    recommendations,
+    issues,
+    details: {
+      wordCount,
+      pageWordCount: pageWords,
+      contentSource: main.source,
+      paragraphs: main.paragraphs.length,
+      thinContent: thin,
+      boilerplateRatio: Number(boilerplateRatio.toFixed(3)),
+      uniqueTerms,
+      lexicalDiversity: Number(lexicalDiversity.toFixed(3)),
+      textToHtmlRatio: Number(textToHtmlRatio.toFixed(3)),
+      readability,
+      highlights,
+    },
+  };
+};
@@ -0,0 +1,311 @@
+import { setTimeout as delay } from "node:timers/promises";
+import { nanoid } from "nanoid";
+import { normalizeAuditUrl } from "../storage/lighthouse-store";
+import { saveCrawlRun } from "../storage/crawl-store";
+import {
+  CRAWL_CONCURRENCY,
+  CRAWL_DEFAULT_MAX_DEPTH,
+  CRAWL_DEFAULT_MAX_PAGES,
+  CRAWL_MAX_DELAY_SECONDS,
+  CRAWL_MAX_DEPTH_LIMIT,
+  CRAWL_MAX_PAGES_LIMIT,
+  CRAWL_MODULE_KEYS,
+  CRAWL_TIMEOUT_MS,
+  CRAWLER_AGENT_TOKEN,
+  MODULE_DEFINITION_MAP,
+} from "./constants";
+import { fetchHtmlDocument, fetchRobotsTxt, fetchSitemaps } from "./http";
+import { collectInternalLinks, computeModuleResult } from "./modules";
+import { extractPageNap, type PageNap, summarizeNapVariations } from "./nap";
+import { evaluateRobots, isAllowedByRobots, parseRobotsTxt } from "./robots";
+import type {
+  AnalysisContext,
+  CrawlModuleSummary,
+  CrawlOptions,
+  CrawlPageResult,
+  CrawlRecord,
+  CrawlReport,
+  CrawlSkippedUrl,
+  HtmlFetchResult,
+  ModuleDefinition,
+  SitemapSummary,
+} from "./types";
+import { calculateWeightedScore, createIssueTracker, deriveCountryFromLocale, roundScore } from "./utils";
+
+const SKIPPED_SAMPLE_LIMIT = 100;
+const WORST_PAGES_LIMIT = 5;
+const ASSET_EXTENSION_PATTERN =
+  /\.(?:pdf|jpe?g|png|gif|webp|avif|svg|ico|css|js|mjs|json|xml|gz|txt|zip|rar|mp3|mp4|webm|mov|woff2?|ttf|eot)$/i;
+
+interface CrawlQueueEntry {
+  url: string;
+  depth: number;
+  source: CrawlPageResult["source"];
+}
+
+interface ResolvedCrawlOptions {
+  url: string;
+  maxPages: number;
+  maxDepth: number;
+  locale: string;
+  skipCache: boolean;
+  signal?: AbortSignal;
+}
+
+const resolveBudget = (value: unknown, fallback: number, min: number, max: number) => {
+  const parsed = Number(value);
+  if (value == null || !Number.isFinite(parsed)) return fallback;
+  return Math.max(min, Math.min(max, Math.floor(parsed)));
+};
+
+const resolveCrawlOptions = (options: CrawlOptions): ResolvedCrawlOptions => ({
+  url: normalizeAuditUrl(options.url),
+  maxPages: resolveBudget(options.maxPages, CRAWL_DEFAULT_MAX_PAGES, 1, CRAWL_MAX_PAGES_LIMIT),
+  maxDepth: resolveBudget(options.maxDepth, CRAWL_DEFAULT_MAX_DEPTH, 0, CRAWL_MAX_DEPTH_LIMIT),
+  locale: options.locale?.trim() || "en_US",
+  skipCache: Boolean(options.skipCache),
+  signal: options.signal,
+});
+
+const collectSitemapUrls = (sitemap: SitemapSummary | null) =>
+  (sitemap?.fetched ?? []).flatMap((entry) => entry.entries?.map((item) => item.loc) ?? []);
+
+const runWithConcurrency = async <T>(items: T[], limit: number, task: (item: T) => Promise<void>) => {
+  const queue = [...items];
+  const workers = Array.from({ length: Math.min(limit, queue.length || 1) }, async () => {
+    while (queue.length) {
+      const next = queue.shift();
+      if (next === undefined) break;
+      await task(next);
+    }
+  });
+  await Promise.all(workers);
+};
+
+const errorStatusCode = (error: unknown) => {
+  const statusCode = (error as { response?: { statusCode?: number } })?.response?.statusCode;
+  return typeof statusCode === "number" ? statusCode : null;
+};
+
+const summarizeModules = (definitions: ModuleDefinition[], pages: CrawlPageResult[]): CrawlModuleSummary[] =>
+  definitions.map((definition) => {
+    const scored = pages
+      .map((page) => ({ url: page.url, module: page.modules.find((entry) => entry.key === definition.key) }))
+      .filter((entry): entry is { url: string; module: CrawlPageResult["modules"][number] } => Boolean(entry.module));
+    const issues = createIssueTracker();
+    scored.forEach(({ module }) => {
+      issues.critical += module.issues.critical;
+      issues.warning += module.issues.warning;
+      issues.info += module.issues.info;
+    });
+    const averageScore = scored.length
+      ? roundScore(scored.reduce((sum, { module }) => sum + module.score, 0) / scored.length)
+      : 0;
+
+    return {
+      key: definition.key,
+      label: definition.label,
+      averageScore,
+      issues,
+      worstPages: scored
+        .map(({ url, module }) => ({ url, score: module.score }))
+        .sort((a, b) => a.score - b.score)
+        .slice(0, WORST_PAGES_LIMIT),
+    };
+  });
+
+export const crawlSite = async (options: CrawlOptions): Promise<CrawlReport> => {
+  const { url, maxPages, maxDepth, locale, skipCache, signal } = resolveCrawlOptions(options);
+  const fetchOptions = { skipCache, signal };
+  const definitions = CRAWL_MODULE_KEYS.map((key) => MODULE_DEFINITION_MAP.get(key)).filter(
+    (definition): definition is ModuleDefinition => Boolean(definition),
+  );
+
+  const start = await fetchHtmlDocument(url, fetchOptions);
+  const origin = new URL(start.finalUrl ?? url);
+  const robots = await fetchRobotsTxt(origin, fetchOptions);
+  const robotsRules = parseRobotsTxt(robots.text);
+  const crawlDelay = evaluateRobots(robotsRules, origin, CRAWLER_AGENT_TOKEN).crawlDelay;
+  // Waiting out a longer delay would outlast the crawl deadline, so only the start page is analyzed.
+  const delayTooLong = crawlDelay !== null && crawlDelay > CRAWL_MAX_DELAY_SECONDS;
+  const sitemap = delayTooLong ? null : await fetchSitemaps(origin, robots.text, fetchOptions);
+  const targetCountry = deriveCountryFromLocale(locale);
+
+  const seen = new Set<string>();
+  const skipped: CrawlSkippedUrl[] = [];
+  const pages: CrawlPageResult[] = [];
+  const napPages: Array<{ url: string; nap: PageNap }> = [];
+  let scheduled = 0;
+  let lastRequestAt = Date.now();
+
+  /** With a Crawl-delay, pages are fetched one at a time and spaced by that many seconds. */
+  const waitForTurn = async () => {
+    if (!crawlDelay) return;
+    const wait = lastRequestAt + crawlDelay * 1000 - Date.now();
+    if (wait > 0) await delay(wait, undefined, { signal }).catch(() => undefined);
+    lastRequestAt = Date.now();
+  };
+
+  const skip = (entry: CrawlSkippedUrl) => {
+    if (skipped.length < SKIPPED_SAMPLE_LIMIT) skipped.push(entry);
+  };
+
+  const enqueue = (rawUrl: string, depth: number, source: CrawlQueueEntry["source"], target: CrawlQueueEntry[]) => {
+    let candidate: URL;
+    try {
+      candidate = new URL(rawUrl, origin);
+    } catch {
+      return;
+    }
+    candidate.hash = "";
+    if (candidate.origin !== origin.origin || ASSET_EXTENSION_PATTERN.test(candidate.pathname)) return;
+    const key = normalizeAuditUrl(candidate.toString());
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    if (depth > maxDepth) return skip({ url: candidate.toString(), reason: "depth" });
+    if (!isAllowedByRobots(robotsRules, candidate, CRAWLER_AGENT_TOKEN)) return skip({ url: candidate.toString(), reason: "robots" });
+    if (scheduled >= maxPages) return skip({ url: candidate.toString(), reason: "budget" });
+    scheduled += 1;
+    target.push({ url: candidate.toString(), depth, source });
+  };
+
+  const analyzePage = async (entry: CrawlQueueEntry, document: HtmlFetchResult) => {
+    const pageUrl = new URL(document.finalUrl ?? entry.url);
+    const context: AnalysisContext = {
+      url: pageUrl,
+      normalizedUrl: normalizeAuditUrl(entry.url),
+      locale,
+      targetCountry,
+      strategy: "mobile",
+      psi: null,
+      html: document.html,
+      dom: document.dom,
+      headers: document.headers,
+      robotsTxt: robots.text,
+      sitemap,
+      geo: null,
+      linkSample: { total: 0, checked: [], broken: [], disallowed: [], nofollow: 0 },
+      detectors: [],
+      llmsTxt: null,
+      hreflang: null,
+      images: null,
+      localeNegotiation: null,
+      keywords: [],
+    };
+
+    const timestamp = new Date().toISOString();
+    const modules = [];
+    for (const definition of definitions) {
+      modules.push(await computeModuleResult(definition, context, timestamp));
+    }
+
+    napPages.push({ url: entry.url, nap: extractPageNap(context) });
+    pages.push({
+      url: entry.url,
+      depth: entry.depth,
+      source: entry.source,
+      statusCode: document.statusCode,
+      ok: true,
+      overall: calculateWeightedScore(modules),
+      modules: modules.map((module) => ({ key: module.key, score: module.score, issues: module.issues })),
+    });
+
+    return collectInternalLinks(document.dom, pageUrl).map((link) => link.url);
+  };
+
+  seen.add(url);
+  seen.add(normalizeAuditUrl(origin.toString()));
+  scheduled = 1;
+  let frontier: CrawlQueueEntry[] = [];
+  const startLinks = await analyzePage({ url: origin.toString(), depth: 0, source: "start" }, start);
+  if (!delayTooLong) {
+    startLinks.forEach((link) => enqueue(link, 1, "link", frontier));
+    collectSitemapUrls(sitemap).forEach((loc) => enqueue(loc, 1, "sitemap", frontier));
+  }
+
+  while (frontier.length && !signal?.aborted) {
+    const next: CrawlQueueEntry[] = [];
+    await runWithConcurrency(frontier, crawlDelay ? 1 : CRAWL_CONCURRENCY, async (entry) => {
+      await waitForTurn();
+      if (signal?.aborted) return;
+      try {
+        const document = await fetchHtmlDocument(entry.url, fetchOptions);
+        const links = await analyzePage(entry, document);
+        links.forEach((link) => enqueue(link, entry.depth + 1, "link", next));
+      } catch (error) {
+        pages.push({
+          url: entry.url,
+          depth: entry.depth,
+          source: entry.source,
+          statusCode: errorStatusCode(error),
+          ok: false,
+          error: (error as Error).message,
+          overall: null,
+          modules: [],
+        });
+      }
+    });
+    frontier = next;
+  }
+
+  const crawled = pages.filter((page) => page.ok);
+  const modules = summarizeModules(definitions, crawled);
+  const issues = createIssueTracker();
+  modules.forEach((module) => {
+    issues.critical += module.issues.critical;
+    issues.warning += module.issues.warning;
+    issues.info += module.issues.info;
+  });
+
+  return {
+    url: origin.toString(),
+    pagesCrawled: crawled.length,
+    pagesFailed: pages.length - crawled.length,
+    overall: crawled.length
+      ? roundScore(crawled.reduce((sum, page) => sum + (page.overall ?? 0), 0) / crawled.length)
+      : 0,
+    issues,
+    modules,
+    pages,
+    skipped,
+    nap: summarizeNapVariations(napPages),
+    crawlDelay,
+    stopReason: delayTooLong ? "crawl-delay" : signal?.aborted ? "timeout" : null,
+  };
+};
+
+/**
+ * Stores a running crawl record and finishes the crawl in the background. The
+ * record is updated in place once the crawl completes or fails.
+ */
+export const startCrawl = async (
+  options: CrawlOptions,
+  onFinished?: (record: CrawlRecord) => void,
+): Promise<CrawlRecord> => {
+  const resolved = resolveCrawlOptions(options);
+  const record: CrawlRecord = {
+    id: nanoid(12),
+    url: resolved.url,
+    status: "running",
+    maxPages: resolved.maxPages,
+    maxDepth: resolved.maxDepth,
+    locale: resolved.locale,
+    createdAt: new Date().toISOString(),
+  };
+  await saveCrawlRun(record);
+
+  crawlSite({ ...resolved, signal: AbortSignal.timeout(CRAWL_TIMEOUT_MS) })
+    .then((report) => ({ ...record, status: "completed" as const, report }))
+    .catch((error) => ({ ...record, status: "failed" as const, error: (error as Error).message }))
+    .then(async (finished) => {
+      const completed: CrawlRecord = { ...finished, finishedAt: new Date().toISOString() };
+      await saveCrawlRun(completed);
+      onFinished?.(completed);
+    })
+    .catch((error) => {
+      console.error("Unable to store crawl result", error);
+    });
+
+  return record;
+};
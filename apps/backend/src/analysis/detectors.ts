@@ -0,0 +1,52 @@
+import { parseHTML } from "linkedom";
+import { runDetectors } from "../detectors";
+import type { DetectorIssue, IssueSeverity } from "../detectors/types";
+import { DETECTOR_MODULE_MAP } from "./constants";
+import type { ModuleIssues, ModuleKey, TechnicalDetectorResult } from "./types";
+import { createIssueTracker } from "./utils";
+
+const SEVERITY_MAP: Record<IssueSeverity, keyof ModuleIssues> = {
+  critical: "critical",
+  warnings: "warning",
+  improvements: "info",
+};
+
+export interface DetectorFindings {
+  issues: ModuleIssues;
+  recommendations: string[];
+  results: TechnicalDetectorResult[];
+}
+
+export const runPageDetectors = async (
+  url: URL,
+  html: string,
+  robotsTxt: string | null,
+  signal?: AbortSignal,
+): Promise<TechnicalDetectorResult[]> => {
+  const { document } = parseHTML(html);
+  return runDetectors({ url, html, document, robotsTxt, signal });
+};
+
+const describeIssue = (issue: DetectorIssue) => {
+  const recommendation = issue.details?.recommendation;
+  return typeof recommendation === "string" && recommendation.length
+    ? `${issue.summary}. ${recommendation}`
+    : `${issue.summary}.`;
+};
+
+export const collectDetectorFindings = (results: TechnicalDetectorResult[], key: ModuleKey): DetectorFindings => {
+  const issues = createIssueTracker();
+  const recommendations: string[] = [];
+  const matched = results.filter((result) => DETECTOR_MODULE_MAP[result.module] === key);
+
+  matched.forEach((result) => {
+    (Object.keys(SEVERITY_MAP) as IssueSeverity[]).forEach((severity) => {
+      result.issues[severity].forEach((issue) => {
+        issues[SEVERITY_MAP[severity]] += 1;
+        recommendations.push(describeIssue(issue));
+      });
+    });
+  });
+
+  return { issues, recommendations, results: matched };
+};
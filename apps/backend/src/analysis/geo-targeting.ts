@@ -0,0 +1,372 @@
+import { parse } from "tldts-icann";
+import { parseHreflangCode } from "./hreflang";
+import { ISO_3166_1_CODES, ISO_639_1_CODES, REGION_CODE_CORRECTIONS } from "./iso-codes";
+import type { AnalysisContext, GeoSignalScore, HighlightEntry, HreflangAnnotation, SitemapSummary } from "./types";
+import { createIssueTracker, incrementIssue, toHighlight } from "./utils";
+
+// Sites target countries or languages in one of three URL structures: a
+// country-code TLD (example.de), a locale subdomain (de.example.com), or a
+// locale subfolder (example.com/de/). Query parameters (?lang=de) also occur
+// but are the weakest signal.
+
+export type GeoTargetingStrategy = "cctld" | "subdomain" | "subfolder" | "parameter" | "none";
+
+export interface HostnameParts {
+  hostname: string;
+  publicSuffix: string;
+  registrableDomain: string;
+  subdomain: string | null;
+  tld: string;
+  /** ISO 3166-1 country targeted by the TLD; null for generic TLDs and generic-use ccTLDs. */
+  countryCode: string | null;
+  /** Two-letter TLD that Google treats as generic (.io, .co, .tv, ...). */
+  genericCcTld: boolean;
+}
+
+export interface LocaleUrlSignal {
+  url: string;
+  strategy: GeoTargetingStrategy;
+  /** The locale token as written in the URL (`de`, `en-gb`, `uk`). */
+  token: string | null;
+  language: string | null;
+  region: string | null;
+}
+
+export interface GeoTargetingAlternate extends LocaleUrlSignal {
+  hreflang: string;
+  /** False when the URL's locale contradicts the hreflang value; null when the URL carries no locale. */
+  matchesHreflang: boolean | null;
+}
+
+export interface GeoTargetingReport {
+  strategy: GeoTargetingStrategy | "mixed";
+  host: HostnameParts;
+  page: LocaleUrlSignal;
+  alternates: GeoTargetingAlternate[];
+  sitemap: { sampled: number; strategies: Partial<Record<GeoTargetingStrategy, number>> };
+  consistent: boolean;
+  issues: string[];
+}
+
+/** ccTLDs Google treats as generic because they are widely used outside their country. */
+export const GENERIC_CCTLDS = new Set([
+  "ad",
+  "ai",
+  "as",
+  "bz",
+  "cc",
+  "cd",
+  "co",
+  "dj",
+  "fm",
+  "io",
+  "la",
+  "me",
+  "ms",
+  "nu",
+  "sc",
+  "sr",
+  "su",
+  "tk",
+  "tv",
+  "ws",
+]);
+
+/** TLDs whose code differs from the ISO 3166-1 country they target. */
+const TLD_COUNTRY_OVERRIDES: Record<string, string> = { uk: "GB" };
+
+/** Two-letter subdomains that are almost never locale markers. */
+const NON_LOCALE_SUBDOMAINS = new Set(["ai", "cs", "go", "hr", "id", "io", "me", "my", "pr", "qa", "tv", "ww"]);
+/** Two-letter path segments that are usually words or IDs (/my/account, /id/123); only hreflang makes them locales. */
+const NON_LOCALE_SEGMENTS = new Set([
+  ...NON_LOCALE_SUBDOMAINS,
+  ...["am", "at", "by", "do", "in", "is", "ok", "on", "pm", "so", "to", "up"],
+]);
+/** Distinct bare two-letter segments needed before they read as a locale folder scheme. */
+const MIN_LOCALE_SEGMENTS = 2;
+
+const LOCALE_TOKEN_PATTERN = /^([a-z]{2})(?:[-_]([a-z]{2}))?$/i;
+const LOCALE_QUERY_PARAMS = ["lang", "language", "locale", "hl", "lng", "country", "region"];
+const SITEMAP_SAMPLE_LIMIT = 500;
+const ISSUE_SAMPLE_LIMIT = 3;
+
+/** Splits a hostname at its public suffix using the ICANN section of the Public Suffix List. */
+export const parseHostname = (hostname: string): HostnameParts => {
+  const normalized = hostname.toLowerCase().replace(/\.$/, "");
+  const parsed = parse(normalized);
+  const publicSuffix = parsed.isIp ? "" : (parsed.publicSuffix ?? normalized.split(".").pop() ?? "");
+  const tld = publicSuffix.split(".").pop() ?? "";
+  const isCountryTld = tld.length === 2;
+  const genericCcTld = isCountryTld && GENERIC_CCTLDS.has(tld) && publicSuffix === tld;
+  const mapped = TLD_COUNTRY_OVERRIDES[tld] ?? tld.toUpperCase();
+  return {
+    hostname,
+    publicSuffix,
+    registrableDomain: parsed.domain ?? normalized,
+    subdomain: parsed.subdomain || null,
+    tld,
+    countryCode: isCountryTld && !genericCcTld && ISO_3166_1_CODES.has(mapped) ? mapped : null,
+    genericCcTld,
+  };
+};
+
+/** Reads `de`, `en-gb`, `en_GB` or `uk` as a language and/or region. */
+const parseLocaleToken = (token: string): Pick<LocaleUrlSignal, "language" | "region"> | null => {
+  const match = token.match(LOCALE_TOKEN_PATTERN);
+  if (!match) return null;
+  const first = match[1].toLowerCase();
+  const second = match[2]?.toUpperCase();
+  if (second) {
+    const region = REGION_CODE_CORRECTIONS[second] ?? second;
+    return ISO_639_1_CODES.has(first) && ISO_3166_1_CODES.has(region) ? { language: first, region } : null;
+  }
+  const asRegion = REGION_CODE_CORRECTIONS[first.toUpperCase()] ?? first.toUpperCase();
+  const language = ISO_639_1_CODES.has(first) ? first : null;
+  const region = ISO_3166_1_CODES.has(asRegion) ? asRegion : null;
+  return language || region ? { language, region } : null;
+};
+
+const firstPathSegment = (url: URL) => url.pathname.split("/").filter(Boolean)[0]?.toLowerCase() ?? null;
+
+/**
+ * Classifies the locale a URL carries. `localeSegments` lists the first path
+ * segments known to be locale folders on this site; without it, any locale-
+ * shaped segment outside NON_LOCALE_SEGMENTS counts.
+ */
+export const classifyLocaleUrl = (rawUrl: string, localeSegments?: Set<string>): LocaleUrlSignal => {
+  const empty: LocaleUrlSignal = { url: rawUrl, strategy: "none", token: null, language: null, region: null };
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return empty;
+  }
+
+  const host = parseHostname(url.hostname);
+  if (host.countryCode) {
+    return { url: rawUrl, strategy: "cctld", token: host.tld, language: null, region: host.countryCode };
+  }
+
+  const firstLabel = host.subdomain?.split(".")[0];
+  if (firstLabel && !NON_LOCALE_SUBDOMAINS.has(firstLabel)) {
+    const locale = parseLocaleToken(firstLabel);
+    if (locale) return { url: rawUrl, strategy: "subdomain", token: firstLabel, ...locale };
+  }
+
+  const firstSegment = firstPathSegment(url);
+  if (firstSegment && (localeSegments ? localeSegments.has(firstSegment) : !NON_LOCALE_SEGMENTS.has(firstSegment))) {
+    const locale = parseLocaleToken(firstSegment);
+    if (locale) return { url: rawUrl, strategy: "subfolder", token: firstSegment, ...locale };
+  }
+
+  for (const name of LOCALE_QUERY_PARAMS) {
+    const value = url.searchParams.get(name);
+    const locale = value ? parseLocaleToken(value) : null;
+    if (value && locale) return { url: rawUrl, strategy: "parameter", token: value, ...locale };
+  }
+  return empty;
+};
+
+/** A two-letter token may mean a language (/de/) or a country (/ch/), so either side may match. */
+const matchesHreflang = (signal: LocaleUrlSignal, hreflang: string): boolean | null => {
+  if (signal.strategy === "none" || hreflang.toLowerCase() === "x-default") return null;
+  const code = parseHreflangCode(hreflang);
+  const region = code.region ? (REGION_CODE_CORRECTIONS[code.region] ?? code.region) : null;
+  if (signal.strategy === "cctld") return region ? region === signal.region : null;
+  const languageMatch = Boolean(signal.language && signal.language === code.language);
+  const regionMatch = Boolean(signal.region && region && signal.region === region);
+  if (signal.language && signal.region && signal.token && /[-_]/.test(signal.token)) {
+    return languageMatch && (!region || regionMatch);
+  }
+  return languageMatch || regionMatch;
+};
+
+const sampleSitemapUrls = (sitemap: SitemapSummary | null) =>
+  (sitemap?.fetched ?? [])
+    .flatMap((file) => file.entries ?? [])
+    .flatMap((entry) => [entry.loc, ...(entry.alternates ?? []).map((alternate) => alternate.href)])
+    .slice(0, SITEMAP_SAMPLE_LIMIT);
+
+/**
+ * Decides which first path segments are locale folders on this site. A segment
+ * an hreflang annotation confirms always counts. Region-qualified segments
+ * (`en-gb`) count on their own; bare two-letter ones only when several distinct
+ * ones appear, since /my/, /in/ or /id/ are more often words than locales.
+ */
+const collectLocaleSegments = (annotations: HreflangAnnotation[], urls: string[]) => {
+  const segments = new Set<string>();
+  annotations.forEach((annotation) => {
+    const segment = safeFirstSegment(annotation.href);
+    const locale = segment ? parseLocaleToken(segment) : null;
+    if (!segment || !locale) return;
+    const signal: LocaleUrlSignal = { url: annotation.href, strategy: "subfolder", token: segment, ...locale };
+    if (matchesHreflang(signal, annotation.hreflang)) segments.add(segment);
+  });
+
+  const bare = new Set<string>();
+  urls.forEach((href) => {
+    const segment = safeFirstSegment(href);
+    if (!segment || !parseLocaleToken(segment)) return;
+    if (/[-_]/.test(segment)) segments.add(segment);
+    else if (!NON_LOCALE_SEGMENTS.has(segment)) bare.add(segment);
+  });
+  if (bare.size >= MIN_LOCALE_SEGMENTS) bare.forEach((segment) => segments.add(segment));
+  return segments;
+};
+
+const safeFirstSegment = (href: string) => {
+  try {
+    return firstPathSegment(new URL(href));
+  } catch {
+    return null;
+  }
+};
+
+const registrableDomainOf = (href: string) => {
+  try {
+    return parseHostname(new URL(href).hostname).registrableDomain;
+  } catch {
+    return href;
+  }
+};
+
+/** Unlocalized URLs (often the default language at the root) are compatible with any strategy. */
+const localizedStrategies = (strategies: GeoTargetingStrategy[]) =>
+  Array.from(new Set(strategies.filter((strategy) => strategy !== "none")));
+
+const STRATEGY_LABELS: Record<GeoTargetingStrategy, string> = {
+  cctld: "country-code domains",
+  subdomain: "locale subdomains",
+  subfolder: "locale subfolders",
+  parameter: "locale query parameters",
+  none: "no locale in the URL",
+};
+
+export const describeStrategy = (strategy: GeoTargetingReport["strategy"]) =>
+  strategy === "mixed" ? "a mix of URL structures" : STRATEGY_LABELS[strategy];
+
+export const detectGeoTargeting = (
+  url: URL,
+  annotations: HreflangAnnotation[],
+  sitemap: SitemapSummary | null,
+): GeoTargetingReport => {
+  const sitemapUrls = sampleSitemapUrls(sitemap);
+  const localeSegments = collectLocaleSegments(annotations, [
+    url.toString(),
+    ...annotations.map((annotation) => annotation.href),
+    ...sitemapUrls,
+  ]);
+  const page = classifyLocaleUrl(url.toString(), localeSegments);
+  const alternates: GeoTargetingAlternate[] = annotations.map((annotation) => {
+    const signal = classifyLocaleUrl(annotation.href, localeSegments);
+    return { ...signal, hreflang: annotation.hreflang, matchesHreflang: matchesHreflang(signal, annotation.hreflang) };
+  });
+  const localizedAlternates = alternates.filter((entry) => entry.hreflang.toLowerCase() !== "x-default");
+
+  // Only ccTLD targeting should spread alternates over several registrable domains.
+  const domains = new Set(localizedAlternates.map((entry) => registrableDomainOf(entry.url)));
+
+  const sitemapSignals = sitemapUrls.map((href) => classifyLocaleUrl(href, localeSegments));
+  const sitemapStrategies = sitemapSignals.reduce<Partial<Record<GeoTargetingStrategy, number>>>((acc, signal) => {
+    acc[signal.strategy] = (acc[signal.strategy] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  const alternateStrategies = localizedStrategies(localizedAlternates.map((entry) => entry.strategy));
+  const sitemapLocalized = localizedStrategies(sitemapSignals.map((signal) => signal.strategy));
+  const observed = localizedStrategies([page.strategy, ...alternateStrategies, ...sitemapLocalized]);
+  const strategy: GeoTargetingReport["strategy"] = observed.length > 1 ? "mixed" : observed[0] ?? "none";
+
+  const issues: string[] = [];
+  if (alternateStrategies.length > 1) {
+    issues.push(
+      `hreflang alternates mix ${alternateStrategies.map((entry) => STRATEGY_LABELS[entry]).join(" and ")}`,
+    );
+  }
+  if (sitemapLocalized.length > 1) {
+    issues.push(`Sitemap URLs mix ${sitemapLocalized.map((entry) => STRATEGY_LABELS[entry]).join(" and ")}`);
+  } else if (
+    sitemapLocalized.length === 1 &&
+    alternateStrategies.length === 1 &&
+    sitemapLocalized[0] !== alternateStrategies[0]
+  ) {
+    issues.push(
+      `Sitemap URLs use ${STRATEGY_LABELS[sitemapLocalized[0]]} while hreflang alternates use ${STRATEGY_LABELS[alternateStrategies[0]]}`,
+    );
+  }
+  const crossDomain = alternateStrategies.length === 1 && alternateStrategies[0] !== "cctld" && domains.size > 1;
+  if (crossDomain) {
+    issues.push(`hreflang alternates span ${domains.size} registrable domains`);
+  }
+  const contradicting = alternates.filter((entry) => entry.matchesHreflang === false);
+  if (contradicting.length) {
+    issues.push(
+      `URL locale contradicts hreflang for ${contradicting
+        .slice(0, ISSUE_SAMPLE_LIMIT)
+        .map((entry) => `${entry.hreflang} → ${entry.token}`)
+        .join(", ")}`,
+    );
+  }
+  if (alternateStrategies.includes("parameter")) {
+    issues.push("Locale query parameters are a weak targeting signal; prefer subfolders, subdomains, or ccTLDs");
+  }
+
+  return {
+    strategy,
+    host: parseHostname(url.hostname),
+    page,
+    alternates,
+    sitemap: { sampled: sitemapSignals.length, strategies: sitemapStrategies },
+    consistent: observed.length <= 1 && !crossDomain && !contradicting.length,
+    issues,
+  };
+};
+
+/**
+ * Scores how the URL targets the market: a matching ccTLD, or a /en-gb/
+ * folder or gb. subdomain, earns 2 points; mixing URL structures costs one.
+ */
+export const scoreGeoTargeting = (
+  ctx: Pick<AnalysisContext, "targetCountry">,
+  targeting: GeoTargetingReport,
+): GeoSignalScore => {
+  const issues = createIssueTracker();
+  const recommendations: string[] = [];
+  const ccTld = targeting.host.countryCode;
+  const ccTldMatches = ccTld && ctx.targetCountry ? ccTld === ctx.targetCountry : false;
+  const urlTargetsCountry = ccTldMatches || Boolean(ctx.targetCountry && targeting.page.region === ctx.targetCountry);
+
+  let scoreDelta = 0;
+  if (urlTargetsCountry) scoreDelta += 2;
+  if (!targeting.consistent) scoreDelta -= 1;
+
+  if (!targeting.consistent) {
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `Use one geo-targeting URL structure across hreflang alternates and sitemap URLs: ${targeting.issues.join("; ")}.`,
+    );
+  } else if (targeting.issues.length) {
+    incrementIssue(issues, "info");
+    recommendations.push(`${targeting.issues.join("; ")}.`);
+  }
+  if (targeting.host.genericCcTld && ctx.targetCountry) {
+    incrementIssue(issues, "info");
+    recommendations.push(
+      `.${targeting.host.tld} is treated as a generic TLD by Google; it does not geo-target ${ctx.targetCountry} on its own.`,
+    );
+  }
+
+  return {
+    scoreDelta,
+    issues,
+    recommendations,
+    highlights: [
+      toHighlight("ccTLD match", ccTldMatches ? "Yes" : "No", ccTldMatches ? "good" : "warn"),
+      toHighlight(
+        "Targeting",
+        describeStrategy(targeting.strategy),
+        targeting.consistent ? (targeting.strategy === "none" ? undefined : "good") : "warn",
+      ),
+    ].filter(Boolean) as HighlightEntry[],
+  };
+};
@@ -1,39 +1,191 @@
+import { promises as dns } from "node:dns";
+import { existsSync } from "node:fs";
+import { isIP } from "node:net";
 import got from "got";
-import { USER_AGENT } from "./constants";
+import { GEO_ADDRESS_LIMIT, USER_AGENT } from "./constants";
 import { geoCache } from "./http";
-import type { GeoLookupResult } from "./types";
+import { MmdbReader } from "./mmdb";
+import type { GeoAddressResult, GeoLocation, GeoLookupResult } from "./types";
 
 interface GeoOptions {
   skipCache?: boolean;
   signal?: AbortSignal;
 }
 
+export interface GeoProvider {
+  name: string;
+  locate(ip: string, options?: GeoOptions): Promise<GeoLocation>;
+}
+
 const GEO_BASE = process.env.GEO_API_BASE?.trim() || "https://ip-api.com/json";
 
-export async function lookupGeo(hostname: string, { skipCache, signal }: GeoOptions = {}): Promise<GeoLookupResult | null> {
+const parseAsn = (value: unknown) => {
+  const match = typeof value === "string" ? value.match(/^AS(\d+)/i) : null;
+  return match ? Number(match[1]) : undefined;
+};
+
+/** Online lookups against an ip-api.com compatible JSON endpoint (`GEO_API_BASE`). */
+export const createHttpGeoProvider = (base = GEO_BASE): GeoProvider => ({
+  name: "ipapi",
+  async locate(ip, { signal } = {}) {
+    try {
+      const response = await got
+        .get(`${base.replace(/\/$/, "")}/${encodeURIComponent(ip)}`, {
+          searchParams: { fields: "status,message,country,countryCode,regionName,city,isp,as" },
+          responseType: "json",
+          timeout: { request: 8000 },
+          headers: { "User-Agent": USER_AGENT },
+          signal,
+        })
+        .json<GeoLocation & { as?: string }>();
+      const { as, ...location } = response;
+      return { ...location, status: response.status === "success" ? "success" : "fail", asn: parseAsn(as) };
+    } catch (error) {
+      return { status: "fail", message: (error as Error).message };
+    }
+  },
+});
+
+type MmdbName = { names?: Record<string, string> };
+
+interface MmdbCityRecord {
+  country?: MmdbName & { iso_code?: string };
+  registered_country?: MmdbName & { iso_code?: string };
+  subdivisions?: MmdbName[];
+  city?: MmdbName;
+}
+
+interface MmdbAsnRecord {
+  autonomous_system_number?: number;
+  autonomous_system_organization?: string;
+}
+
+/**
+ * Offline lookups from MaxMind GeoLite2/GeoIP2 or DB-IP Lite `.mmdb` files.
+ * `GEO_MMDB_PATH` points at a Country or City database; `GEO_MMDB_ASN_PATH`
+ * optionally adds the network operator from an ASN database.
+ */
+export const createMmdbGeoProvider = (
+  databasePath = process.env.GEO_MMDB_PATH?.trim(),
+  asnPath = process.env.GEO_MMDB_ASN_PATH?.trim(),
+): GeoProvider => {
+  let readers: { location: MmdbReader; asn: MmdbReader | null } | null = null;
+  const open = () => {
+    if (readers) return readers;
+    if (!databasePath || !existsSync(databasePath)) {
+      throw new Error(`MMDB database not found at "${databasePath ?? ""}"; set GEO_MMDB_PATH`);
+    }
+    readers = {
+      location: MmdbReader.open(databasePath),
+      asn: asnPath && existsSync(asnPath) ? MmdbReader.open(asnPath) : null,
+    };
+    return readers;
+  };
+
+  return {
+    name: "mmdb",
+    async locate(ip) {
+      try {
+        const { location, asn } = open();
+        const record = location.get<MmdbCityRecord>(ip);
+        const network = asn?.get<MmdbAsnRecord>(ip) ?? null;
+        const country = record?.country ?? record?.registered_country;
+        if (!country?.iso_code) {
+          return { status: "fail", message: "Address not found in the MMDB database" };
+        }
+        return {
+          status: "success",
+          country: country.names?.en ?? country.iso_code,
+          countryCode: country.iso_code,
+          regionName: record?.subdivisions?.[0]?.names?.en,
+          city: record?.city?.names?.en,
+          isp: network?.autonomous_system_organization,
+          asn: network?.autonomous_system_number,
+        };
+      } catch (error) {
+        return { status: "fail", message: (error as Error).message };
+      }
+    },
+  };
+};
+
+const GEO_PROVIDERS: Record<string, () => GeoProvider> = {
+  ipapi: () => createHttpGeoProvider(),
+  http: () => createHttpGeoProvider(),
+  mmdb: () => createMmdbGeoProvider(),
+  maxmind: () => createMmdbGeoProvider(),
+  dbip: () => createMmdbGeoProvider(),
+};
+
+let activeProvider: GeoProvider | null = null;
+
+/** Provider selected by `GEO_PROVIDER` (defaults to the HTTP provider). */
+export const getGeoProvider = () => {
+  if (activeProvider) return activeProvider;
+  const name = process.env.GEO_PROVIDER?.trim().toLowerCase() || "ipapi";
+  const factory = GEO_PROVIDERS[name];
+  if (!factory) {
+    console.warn(`Unknown GEO_PROVIDER "${name}", falling back to ipapi`);
+  }
+  activeProvider = (factory ?? GEO_PROVIDERS.ipapi)();
+  return activeProvider;
+};
+
+/** Resolves every A and AAAA record for `hostname`, falling back to the system resolver. */
+export const resolveAddresses = async (hostname: string): Promise<Array<{ ip: string; family: 4 | 6 }>> => {
+  const literal = hostname.replace(/^\[|\]$/g, "");
+  const literalFamily = isIP(literal);
+  if (literalFamily) return [{ ip: literal, family: literalFamily as 4 | 6 }];
+
+  const [v4, v6] = await Promise.allSettled([dns.resolve4(hostname), dns.resolve6(hostname)]);
+  const addresses = [
+    ...(v4.status === "fulfilled" ? v4.value.map((ip) => ({ ip, family: 4 as const })) : []),
+    ...(v6.status === "fulfilled" ? v6.value.map((ip) => ({ ip, family: 6 as const })) : []),
+  ];
+  if (addresses.length) return addresses;
+
+  try {
+    const resolved = await dns.lookup(hostname, { all: true });
+    return resolved.map((entry) => ({ ip: entry.address, family: entry.family === 6 ? 6 : 4 }));
+  } catch {
+    return [];
+  }
+};
+
+export async function lookupGeo(
+  hostname: string,
+  { skipCache, signal }: GeoOptions = {},
+  provider: GeoProvider = getGeoProvider(),
+): Promise<GeoLookupResult | null> {
   if (!hostname) return null;
-  const cacheKey = `geo:${hostname}`;
+  const cacheKey = `geo:${provider.name}:${hostname}`;
   if (!skipCache) {
     const cached = geoCache.get(cacheKey);
     if (cached) return cached;
   }
 
-  try {
-    const response = await got
-      .get(`${GEO_BASE.replace(/\/$/, "")}/${encodeURIComponent(hostname)}`, {
-        searchParams: { fields: "status,message,country,countryCode,regionName,isp,query" },
-        responseType: "json",
-        timeout: { request: 8000 },
-        headers: { "User-Agent": USER_AGENT },
-        signal,
-      })
-      .json<GeoLookupResult>();
-
-    if (!skipCache && response) {
-      geoCache.set(cacheKey, response);
-    }
-    return response;
-  } catch {
-    return null;
+  const resolved = (await resolveAddresses(hostname)).slice(0, GEO_ADDRESS_LIMIT);
+  if (!resolved.length) return null;
+
+  const addresses: GeoAddressResult[] = await Promise.all(
+    resolved.map(async (address) => ({ ...address, ...(await provider.locate(address.ip, { signal })) })),
+  );
+  const primary = addresses.find((address) => address.status === "success");
+  const result: GeoLookupResult = {
+    status: primary ? "success" : "fail",
+    country: primary?.country,
+    countryCode: primary?.countryCode,
+    regionName: primary?.regionName,
+    isp: primary?.isp,
+    query: primary?.ip ?? addresses[0].ip,
+    message: primary ? undefined : addresses[0].message,
+    provider: provider.name,
+    hostname,
+    addresses,
+  };
+
+  if (!skipCache) {
+    geoCache.set(cacheKey, result);
   }
+  return result;
 }
@@ -0,0 +1,200 @@
+import type { CheerioAPI } from "cheerio";
+import { tokenize } from "../detectors/utils";
+import type { HighlightEntry, ModuleComputer } from "./types";
+import { clampScore, createIssueTracker, incrementIssue, roundScore, toHighlight } from "./utils";
+
+const HEADING_TEXT_LIMIT = 200;
+const OUTLINE_NODE_LIMIT = 300;
+const SAMPLE_LIMIT = 5;
+const TITLE_OVERLAP_MIN = 0.3;
+const HIDDEN_STYLE_PATTERN =
+  /(?:^|;)\s*(?:display\s*:\s*none|visibility\s*:\s*hidden|opacity\s*:\s*0(?:\.0+)?\s*(?:;|$|!)|font-size\s*:\s*0(?:px|em|rem|%)?\s*(?:;|$|!)|text-indent\s*:\s*-\d{3,})/i;
+
+export interface HeadingNode {
+  level: number;
+  text: string;
+  empty: boolean;
+  hidden: boolean;
+  /** Level jumps more than one step below the previous heading (e.g. H2 -> H4). */
+  skipped: boolean;
+  children: HeadingNode[];
+}
+
+export interface FlatHeading extends Omit<HeadingNode, "children"> {
+  previousLevel: number | null;
+}
+
+const collapse = (value: string) => value.replace(/\s+/g, " ").trim();
+
+type Selection = ReturnType<CheerioAPI>;
+
+/** Inline-style hiding on the heading itself or any ancestor; stylesheet rules are out of reach without rendering. */
+const isHiddenInline = (element: Selection) =>
+  element.is("[hidden]") ||
+  HIDDEN_STYLE_PATTERN.test(element.attr("style") ?? "") ||
+  element.parents("[hidden], [style]").filter((_, parent) => {
+    const attribs = (parent as { attribs?: Record<string, string> }).attribs ?? {};
+    return "hidden" in attribs || HIDDEN_STYLE_PATTERN.test(attribs.style ?? "");
+  }).length > 0;
+
+const headingText = (element: Selection) => {
+  const text = collapse(element.text());
+  if (text) return text;
+  // Logo headings often carry their text only in an image alt.
+  return collapse(
+    element
+      .find("img[alt]")
+      .map((_, image) => (image as { attribs?: Record<string, string> }).attribs?.alt ?? "")
+      .get()
+      .join(" "),
+  );
+};
+
+export const collectHeadings = (dom: CheerioAPI): FlatHeading[] => {
+  let previousLevel: number | null = null;
+  return dom("h1, h2, h3, h4, h5, h6")
+    .toArray()
+    .map((node) => {
+      const level = Number((node as { tagName?: string }).tagName?.slice(1) ?? 0);
+      const element = dom(node);
+      const text = headingText(element);
+      const heading: FlatHeading = {
+        level,
+        text: text.slice(0, HEADING_TEXT_LIMIT),
+        empty: text.length === 0,
+        hidden: isHiddenInline(element),
+        skipped: previousLevel !== null && level > previousLevel + 1,
+        previousLevel,
+      };
+      previousLevel = level;
+      return heading;
+    });
+};
+
+/** Nests headings under the closest preceding heading of a higher rank. */
+export const buildOutline = (headings: FlatHeading[]): HeadingNode[] => {
+  const roots: HeadingNode[] = [];
+  const stack: HeadingNode[] = [];
+  headings.slice(0, OUTLINE_NODE_LIMIT).forEach(({ previousLevel: _previous, ...heading }) => {
+    const node: HeadingNode = { ...heading, children: [] };
+    while (stack.length && stack[stack.length - 1].level >= node.level) stack.pop();
+    const parent = stack[stack.length - 1];
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+    stack.push(node);
+  });
+  return roots;
+};
+
+const titleOverlap = (h1: string, title: string) => {
+  const h1Tokens = new Set(tokenize(h1));
+  if (!h1Tokens.size) return 0;
+  const titleTokens = new Set(tokenize(title));
+  return Array.from(h1Tokens).filter((token) => titleTokens.has(token)).length / h1Tokens.size;
+};
+
+export const computeHeadings: ModuleComputer = (ctx) => {
+  const issues = createIssueTracker();
+  const recommendations: string[] = [];
+
+  const headings = collectHeadings(ctx.dom);
+  const outline = buildOutline(headings);
+  const h1s = headings.filter((heading) => heading.level === 1);
+  const visibleH1s = h1s.filter((heading) => !heading.hidden && !heading.empty);
+  const skipped = headings.filter((heading) => heading.skipped);
+  const empty = headings.filter((heading) => heading.empty);
+  const hidden = headings.filter((heading) => heading.hidden);
+  const counts = [1, 2, 3, 4, 5, 6].reduce<Record<string, number>>((acc, level) => {
+    acc[`h${level}`] = headings.filter((heading) => heading.level === level).length;
+    return acc;
+  }, {});
+  const title = collapse(ctx.dom("title").first().text());
+  const primaryH1 = visibleH1s[0]?.text ?? h1s[0]?.text ?? null;
+  const overlap = primaryH1 && title ? titleOverlap(primaryH1, title) : null;
+  const titleMismatch = overlap !== null && overlap < TITLE_OVERLAP_MIN;
+
+  let score = 10;
+  if (!h1s.length) {
+    score -= 3;
+    incrementIssue(issues, "critical");
+    recommendations.push("Add a single H1 that states the page topic.");
+  } else if (!visibleH1s.length) {
+    score -= 2.5;
+    incrementIssue(issues, "warning");
+    recommendations.push("The only H1 is empty or hidden; make the main heading visible and descriptive.");
+  } else if (h1s.length > 1) {
+    score -= 1.5;
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `Found ${h1s.length} H1 headings (${h1s
+        .slice(0, 3)
+        .map((heading) => `"${heading.text || "empty"}"`)
+        .join(", ")}); keep one H1 and demote the rest to H2.`,
+    );
+  }
+
+  if (skipped.length) {
+    score -= Math.min(2, skipped.length * 0.5);
+    incrementIssue(issues, "warning");
+    const examples = skipped
+      .slice(0, 3)
+      .map((heading) => `H${heading.previousLevel} → H${heading.level}`)
+      .join(", ");
+    recommendations.push(`${skipped.length} heading(s) skip levels (${examples}); nest headings one level at a time.`);
+  }
+  if (empty.length) {
+    score -= Math.min(2, empty.length);
+    incrementIssue(issues, "warning");
+    recommendations.push(`${empty.length} heading(s) are empty; remove them or add descriptive text.`);
+  }
+  if (hidden.length) {
+    score -= Math.min(2, hidden.length);
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `${hidden.length} heading(s) are hidden with inline styles or the hidden attribute; hidden headings can look like cloaking.`,
+    );
+  }
+  if (titleMismatch) {
+    score -= 1.5;
+    incrementIssue(issues, "info");
+    recommendations.push(`The H1 "${primaryH1}" shares few words with the title "${title}"; align them on the same topic.`);
+  }
+  if (h1s.length && !counts.h2) {
+    score -= 1;
+    recommendations.push("Break the content into sections with H2 subheadings.");
+  }
+  score = clampScore(roundScore(score));
+
+  const highlights: HighlightEntry[] = [
+    toHighlight("H1 count", h1s.length, h1s.length === 1 && visibleH1s.length ? "good" : h1s.length ? "warn" : "poor"),
+    toHighlight("Headings", headings.length),
+    toHighlight("Skipped levels", skipped.length, skipped.length ? "warn" : "good"),
+    toHighlight("Empty / hidden", `${empty.length}/${hidden.length}`, empty.length || hidden.length ? "warn" : "good"),
+    overlap !== null
+      ? toHighlight("H1/title overlap", `${Math.round(overlap * 100)}%`, titleMismatch ? "warn" : "good")
+      : null,
+  ].filter(Boolean) as HighlightEntry[];
+
+  return {
+    score,
+    summary: !h1s.length
+      ? `No H1 found among ${headings.length} headings.`
+      : `${headings.length} headings; ${skipped.length + empty.length + hidden.length} structural issues.`,
+    recommendations,
+    issues,
+    details: {
+      counts,
+      outline,
+      truncated: headings.length > OUTLINE_NODE_LIMIT,
+      h1: h1s.map((heading) => heading.text),
+      title,
+      titleOverlap: overlap !== null ? Number(overlap.toFixed(2)) : null,
+      skippedSample: skipped
+        .slice(0, SAMPLE_LIMIT)
+        .map((heading) => ({ from: heading.previousLevel, to: heading.level, text: heading.text })),
+      emptyCount: empty.length,
+      hiddenSample: hidden.slice(0, SAMPLE_LIMIT).map((heading) => ({ level: heading.level, text: heading.text })),
+      highlights,
+    },
+  };
+};
@@ -0,0 +1,370 @@
+import { load, type CheerioAPI } from "cheerio";
+import { HREFLANG_FETCH_LIMIT } from "./constants";
+import { httpClient } from "./http";
+import { ISO_3166_1_CODES, ISO_639_1_CODES, REGION_CODE_CORRECTIONS } from "./iso-codes";
+import type {
+  AnalysisContext,
+  GeoSignalScore,
+  HighlightEntry,
+  HreflangAlternateCheck,
+  HreflangAnnotation,
+  HreflangClusterResult,
+} from "./types";
+import { createIssueTracker, incrementIssue, toHighlight } from "./utils";
+
+const HREFLANG_CONCURRENCY = 4;
+const HREFLANG_TIMEOUT_MS = 8000;
+
+export interface ParsedHreflang {
+  language: string | null;
+  script: string | null;
+  region: string | null;
+}
+
+/** Compares URLs ignoring fragments, host case and a trailing slash on the path. */
+export const isSameUrl = (a: string, b: string) => {
+  try {
+    const left = new URL(a);
+    const right = new URL(b);
+    const normalize = (url: URL) =>
+      `${url.protocol}//${url.host.toLowerCase()}${url.pathname.replace(/\/+$/, "") || "/"}${url.search}`;
+    return normalize(left) === normalize(right);
+  } catch {
+    return false;
+  }
+};
+
+export const parseHreflangCode = (code: string): ParsedHreflang => {
+  const [language, ...rest] = code.split("-");
+  const script = rest.find((part) => /^[a-z]{4}$/i.test(part)) ?? null;
+  const region = rest.find((part) => part !== script) ?? null;
+  return {
+    language: language ? language.toLowerCase() : null,
+    script,
+    region: region ? region.toUpperCase() : null,
+  };
+};
+
+/**
+ * Returns why an hreflang value is invalid, or null when it is a valid
+ * `language[-Script][-REGION]` combination of ISO 639-1, ISO 15924 and
+ * ISO 3166-1 alpha-2 codes (or `x-default`).
+ */
+export const validateHreflangCode = (code: string): string | null => {
+  const value = code.trim();
+  if (value.toLowerCase() === "x-default") return null;
+  if (value.includes("_")) return `"${value}" uses an underscore; separate subtags with a hyphen`;
+
+  const parts = value.split("-");
+  if (parts.length > 3) return `"${value}" has too many subtags`;
+  const { language, script, region } = parseHreflangCode(value);
+  if (!language || !ISO_639_1_CODES.has(language)) {
+    if (language && ISO_3166_1_CODES.has(language.toUpperCase())) {
+      return `"${value}" starts with a country code; hreflang must start with an ISO 639-1 language code`;
+    }
+    return `"${value}" is not an ISO 639-1 language code`;
+  }
+  if (parts.length === 3 && !script) return `"${value}" has an unexpected subtag; use language-Script-REGION`;
+  if (!region) return null;
+  if (REGION_CODE_CORRECTIONS[region]) {
+    return `"${value}" uses ${region}, which is not ISO 3166-1; use ${language}-${REGION_CODE_CORRECTIONS[region]}`;
+  }
+  if (!ISO_3166_1_CODES.has(region)) return `"${value}" is not an ISO 3166-1 alpha-2 region`;
+  return null;
+};
+
+export const collectHreflangAnnotations = (dom: CheerioAPI, base: URL): HreflangAnnotation[] => {
+  const annotations: HreflangAnnotation[] = [];
+  dom('link[rel~="alternate" i][hreflang]').each((_, element) => {
+    const hreflang = dom(element).attr("hreflang")?.trim();
+    const href = dom(element).attr("href")?.trim();
+    if (!hreflang || !href) return;
+    try {
+      annotations.push({ hreflang, href: new URL(href, base).toString() });
+    } catch {
+      annotations.push({ hreflang, href });
+    }
+  });
+  return annotations;
+};
+
+const hasNoindex = (dom: CheerioAPI, headers: Record<string, unknown>) => {
+  const meta = dom('meta[name="robots" i], meta[name="googlebot" i]')
+    .toArray()
+    .some((node) => dom(node).attr("content")?.toLowerCase().includes("noindex"));
+  return meta || String(headers["x-robots-tag"] ?? "").toLowerCase().includes("noindex");
+};
+
+const resolveCanonical = (dom: CheerioAPI, base: string) => {
+  const href = dom('link[rel="canonical" i]').attr("href")?.trim();
+  if (!href) return null;
+  try {
+    return new URL(href, base).toString();
+  } catch {
+    return href;
+  }
+};
+
+const checkAlternate = async (
+  annotation: HreflangAnnotation,
+  pageUrls: string[],
+  signal?: AbortSignal,
+): Promise<Partial<HreflangAlternateCheck>> => {
+  try {
+    const response = await httpClient.get(annotation.href, {
+      followRedirect: false,
+      throwHttpErrors: false,
+      responseType: "text",
+      timeout: { request: HREFLANG_TIMEOUT_MS },
+      signal,
+    });
+
+    if (response.statusCode >= 300 && response.statusCode < 400) {
+      const location = response.headers.location;
+      return {
+        statusCode: response.statusCode,
+        redirectsTo: location ? new URL(location, annotation.href).toString() : null,
+      };
+    }
+    if (response.statusCode !== 200) {
+      return { statusCode: response.statusCode };
+    }
+
+    const dom = load(response.body);
+    const canonical = resolveCanonical(dom, annotation.href);
+    const returnLink = collectHreflangAnnotations(dom, new URL(annotation.href)).some((entry) =>
+      pageUrls.some((pageUrl) => isSameUrl(entry.href, pageUrl)),
+    );
+    return {
+      statusCode: response.statusCode,
+      noindex: hasNoindex(dom, response.headers),
+      canonical,
+      canonicalMismatch: Boolean(canonical && !isSameUrl(canonical, annotation.href)),
+      returnLink,
+    };
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+};
+
+/**
+ * Validates the hreflang cluster declared on the page: checks every code,
+ * then fetches each alternate (without following redirects) to confirm it
+ * returns 200, is indexable, is self-canonical and links back to this page.
+ */
+export const evaluateHreflangCluster = async (
+  dom: CheerioAPI,
+  pageUrl: URL,
+  headers: Record<string, string>,
+  requestedUrl?: string,
+  signal?: AbortSignal,
+): Promise<HreflangClusterResult> => {
+  const annotations = collectHreflangAnnotations(dom, pageUrl);
+  const pageUrls = [pageUrl.toString(), requestedUrl].filter((value): value is string => Boolean(value));
+  const isSelf = (href: string) => pageUrls.some((candidate) => isSameUrl(href, candidate));
+
+  const codeTargets = new Map<string, Set<string>>();
+  annotations.forEach((annotation) => {
+    const key = annotation.hreflang.toLowerCase();
+    codeTargets.set(key, (codeTargets.get(key) ?? new Set()).add(annotation.href));
+  });
+
+  const uniqueAnnotations = annotations.filter(
+    (annotation, index) =>
+      annotations.findIndex(
+        (other) => other.hreflang.toLowerCase() === annotation.hreflang.toLowerCase() && other.href === annotation.href,
+      ) === index,
+  );
+
+  const selfCanonical = resolveCanonical(dom, pageUrl.toString());
+  const alternates: HreflangAlternateCheck[] = uniqueAnnotations.map((annotation) => {
+    const codeIssue = validateHreflangCode(annotation.hreflang);
+    const self = isSelf(annotation.href);
+    return {
+      hreflang: annotation.hreflang,
+      href: annotation.href,
+      self,
+      validCode: codeIssue === null,
+      codeIssue,
+      statusCode: null,
+      redirectsTo: null,
+      noindex: self ? hasNoindex(dom, headers) : false,
+      canonical: self ? selfCanonical : null,
+      canonicalMismatch: self ? Boolean(selfCanonical && !isSameUrl(selfCanonical, annotation.href)) : false,
+      returnLink: null,
+    };
+  });
+
+  const fetchTargets = Array.from(new Set(alternates.filter((entry) => !entry.self).map((entry) => entry.href)));
+  const queue = fetchTargets.slice(0, HREFLANG_FETCH_LIMIT);
+  const checks = new Map<string, Partial<HreflangAlternateCheck>>();
+  const workers = Array.from({ length: Math.min(HREFLANG_CONCURRENCY, queue.length || 1) }, async () => {
+    while (queue.length) {
+      const next = queue.shift();
+      if (!next) break;
+      checks.set(next, await checkAlternate({ hreflang: "", href: next }, pageUrls, signal));
+    }
+  });
+  await Promise.all(workers);
+
+  return {
+    url: pageUrl.toString(),
+    annotations,
+    hasXDefault: annotations.some((annotation) => annotation.hreflang.toLowerCase() === "x-default"),
+    hasSelfReference: alternates.some((entry) => entry.self),
+    conflictingCodes: Array.from(codeTargets.entries())
+      .filter(([, targets]) => targets.size > 1)
+      .map(([code]) => code),
+    alternates: alternates.map((entry) => ({ ...entry, ...(checks.get(entry.href) ?? {}) })),
+    truncated: fetchTargets.length > HREFLANG_FETCH_LIMIT,
+  };
+};
+
+/** An alternate is healthy when its code is valid and, if fetched, it is a 200, indexable, self-canonical page linking back. */
+export const isHealthyAlternate = (entry: HreflangAlternateCheck) =>
+  entry.validCode &&
+  !entry.noindex &&
+  !entry.canonicalMismatch &&
+  !entry.error &&
+  (entry.self || (entry.statusCode === 200 && entry.returnLink === true));
+
+const listSample = (entries: HreflangAlternateCheck[]) =>
+  entries
+    .slice(0, 3)
+    .map((entry) => entry.hreflang)
+    .join(", ");
+
+/**
+ * Scores the page's hreflang cluster and the sitemap's xhtml:link alternates
+ * for the geo module. Without a fetched cluster only the annotations count.
+ */
+export const scoreHreflang = (
+  ctx: Pick<AnalysisContext, "hreflang" | "sitemap" | "targetCountry">,
+  annotations: HreflangAnnotation[],
+): GeoSignalScore => {
+  const issues = createIssueTracker();
+  const recommendations: string[] = [];
+  const cluster = ctx.hreflang;
+  const hasHreflang = annotations.length > 0;
+  const hreflangForTarget = ctx.targetCountry
+    ? annotations.some((annotation) => parseHreflangCode(annotation.hreflang).region === ctx.targetCountry)
+    : false;
+  const alternates = cluster?.alternates ?? [];
+  const checkedAlternates = alternates.filter((entry) => entry.self || entry.statusCode !== null || entry.error);
+  const healthyAlternates = checkedAlternates.filter(isHealthyAlternate);
+  const clusterHealth = checkedAlternates.length ? healthyAlternates.length / checkedAlternates.length : 0;
+  const invalidCodes = alternates.filter((entry) => !entry.validCode);
+  const missingReturn = alternates.filter((entry) => entry.returnLink === false);
+  const nonOk = alternates.filter((entry) => !entry.self && !entry.redirectsTo && entry.statusCode !== null && entry.statusCode !== 200);
+  const unreachable = alternates.filter((entry) => entry.error);
+  const redirected = alternates.filter((entry) => entry.redirectsTo);
+  const noindexed = alternates.filter((entry) => entry.noindex);
+  const canonicalized = alternates.filter((entry) => entry.canonicalMismatch);
+  const sitemapHasHreflang = Boolean(ctx.sitemap?.hasHreflang);
+  const sitemapUrlCount = ctx.sitemap?.totalUrls ?? 0;
+  const sitemapAlternateEntries = ctx.sitemap?.entriesWithAlternates ?? 0;
+  const sitemapAlternateCoverage = sitemapUrlCount ? sitemapAlternateEntries / sitemapUrlCount : 0;
+
+  let scoreDelta = 0;
+  if (hasHreflang) {
+    scoreDelta += 1;
+    if (cluster?.hasSelfReference) scoreDelta += 0.5;
+    if (cluster?.hasXDefault) scoreDelta += 0.5;
+    scoreDelta += 2 * clusterHealth;
+  }
+  if (hreflangForTarget) scoreDelta += 1;
+  if (sitemapHasHreflang) scoreDelta += 2;
+
+  if (!hasHreflang) {
+    incrementIssue(issues, "warning");
+    recommendations.push("Add hreflang annotations to signal language/region variants.");
+  }
+  if (invalidCodes.length) {
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `Fix ${invalidCodes.length} invalid hreflang code(s): ${invalidCodes
+        .slice(0, 3)
+        .map((entry) => entry.codeIssue)
+        .join("; ")}.`,
+    );
+  }
+  if (hasHreflang && cluster && !cluster.hasSelfReference) {
+    incrementIssue(issues, "warning");
+    recommendations.push("Include a self-referencing hreflang annotation for this page in its own cluster.");
+  }
+  if (hasHreflang && cluster && !cluster.hasXDefault) {
+    incrementIssue(issues, "info");
+    recommendations.push("Add an x-default hreflang alternate for users outside the targeted languages/regions.");
+  }
+  if (cluster?.conflictingCodes.length) {
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `hreflang values ${cluster.conflictingCodes.join(", ")} point to more than one URL; keep a single URL per code.`,
+    );
+  }
+  if (missingReturn.length) {
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `${missingReturn.length} alternate(s) do not link back with return hreflang tags (${listSample(missingReturn)}); search engines ignore one-way annotations.`,
+    );
+  }
+  if (nonOk.length || unreachable.length) {
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `${nonOk.length + unreachable.length} alternate(s) do not return HTTP 200 (${listSample([...nonOk, ...unreachable])}); point hreflang at live pages.`,
+    );
+  }
+  if (redirected.length) {
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `${redirected.length} alternate(s) redirect (${listSample(redirected)}); reference the final URLs directly.`,
+    );
+  }
+  if (noindexed.length) {
+    incrementIssue(issues, "warning");
+    recommendations.push(`${noindexed.length} alternate(s) are noindexed (${listSample(noindexed)}); only annotate indexable pages.`);
+  }
+  if (canonicalized.length) {
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `${canonicalized.length} alternate(s) canonicalize to a different URL (${listSample(canonicalized)}); hreflang targets must be self-canonical.`,
+    );
+  }
+  if (cluster?.truncated) {
+    recommendations.push(`Only the first ${HREFLANG_FETCH_LIMIT} alternates were fetched; re-run after trimming the cluster.`);
+  }
+  if (!sitemapHasHreflang) {
+    recommendations.push("Include xhtml:link alternates inside sitemap.xml for crawl efficiency.");
+  } else if (sitemapAlternateCoverage < 0.5) {
+    recommendations.push(
+      `Only ${sitemapAlternateEntries} of ${sitemapUrlCount} sitemap URLs declare xhtml:link alternates; annotate every localized URL.`,
+    );
+  }
+
+  const highlights = [
+    toHighlight("Hreflang tags", annotations.length, hasHreflang ? "good" : "warn"),
+    hasHreflang && checkedAlternates.length
+      ? toHighlight(
+          "Healthy alternates",
+          `${healthyAlternates.length}/${checkedAlternates.length}`,
+          clusterHealth === 1 ? "good" : clusterHealth >= 0.5 ? "warn" : "poor",
+        )
+      : null,
+    hasHreflang ? toHighlight("x-default", cluster?.hasXDefault ? "Yes" : "No", cluster?.hasXDefault ? "good" : "warn") : null,
+    toHighlight(
+      "Sitemap alternates",
+      sitemapHasHreflang ? `${sitemapAlternateEntries}/${sitemapUrlCount}` : "No",
+      sitemapHasHreflang && sitemapAlternateCoverage >= 0.5 ? "good" : "warn",
+    ),
+  ].filter(Boolean) as HighlightEntry[];
+
+  return {
+    scoreDelta,
+    issues,
+    recommendations,
+    highlights,
+    summary: `${annotations.length} hreflang entries detected${
+      checkedAlternates.length ? ` (${healthyAlternates.length}/${checkedAlternates.length} healthy)` : ""
+    }`,
+  };
+};
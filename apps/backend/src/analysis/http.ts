@@ -1,24 +1,39 @@
 import "../env";
+import { setMaxListeners } from "node:events";
 import { load } from "cheerio";
-import { XMLParser } from "fast-xml-parser";
 import got from "got";
-import { CACHE_TTL_MS, USER_AGENT } from "./constants";
+import {
+  CACHE_TTL_MS,
+  LLMS_TXT_MAX_BYTES,
+  SITEMAP_CONCURRENCY,
+  SITEMAP_ENTRY_SAMPLE_LIMIT,
+  SITEMAP_FETCH_LIMIT,
+  SITEMAP_MAX_BYTES,
+  SITEMAP_TIMEOUT_MS,
+  USER_AGENT,
+} from "./constants";
 import { TtlCache } from "./cache";
+import { parseRobotsTxt } from "./robots";
+import { createSitemapIssue, decodeSitemapBody, parseSitemapDocument, validateSitemapEntries } from "./sitemap";
 import type {
   AnalyzeStrategy,
   GeoLookupResult,
   HtmlFetchResult,
+  LlmsFileResult,
+  LlmsTxtResult,
+  PsiFetchResult,
   PsiResponse,
   RobotsResult,
-  SitemapEntrySummary,
   SitemapSummary,
+  SitemapValidationIssue,
 } from "./types";
 import { normalizeHeaders } from "./utils";
 
-const psiCache = new TtlCache<PsiResponse>(CACHE_TTL_MS);
+const psiCache = new TtlCache<PsiFetchResult>(CACHE_TTL_MS);
 const htmlCache = new TtlCache<HtmlFetchResult>(CACHE_TTL_MS);
 const robotsCache = new TtlCache<RobotsResult>(CACHE_TTL_MS);
 const sitemapCache = new TtlCache<SitemapSummary | null>(CACHE_TTL_MS);
+const llmsCache = new TtlCache<LlmsTxtResult>(CACHE_TTL_MS);
 
 const baseClient = got.extend({
   headers: {
@@ -35,14 +50,6 @@ const baseClient = got.extend({
 
 export const httpClient = baseClient;
 
-const xmlParser = new XMLParser({
-  ignoreAttributes: false,
-  attributeNamePrefix: "",
-  allowBooleanAttributes: true,
-  parseTagValue: true,
-  trimValues: true,
-});
-
 interface FetchOptions {
   skipCache?: boolean;
   signal?: AbortSignal;
@@ -52,12 +59,23 @@ export async function fetchPsi(
   url: string,
   strategy: AnalyzeStrategy,
   locale: string,
-  { skipCache, signal }: FetchOptions = {},
+  options: FetchOptions = {},
 ): Promise<PsiResponse> {
+  const { response } = await fetchPsiResult(url, strategy, locale, options);
+  return response;
+}
+
+/** Same as `fetchPsi`, but also reports whether the response came from the in-memory cache. */
+export async function fetchPsiResult(
+  url: string,
+  strategy: AnalyzeStrategy,
+  locale: string,
+  { skipCache, signal }: FetchOptions = {},
+): Promise<PsiFetchResult> {
   const cacheKey = `${strategy}:${locale}:${url}`;
   if (!skipCache) {
     const cached = psiCache.get(cacheKey);
-    if (cached) return cached;
+    if (cached) return { ...cached, cached: true };
   }
 
   const searchParams = new URLSearchParams({
@@ -88,10 +106,11 @@ export async function fetchPsi(
     throw new Error("PageSpeed Insights response did not include a Lighthouse result.");
   }
 
+  const result: PsiFetchResult = { response, cached: false, fetchedAt: new Date().toISOString() };
   if (!skipCache) {
-    psiCache.set(cacheKey, response);
+    psiCache.set(cacheKey, result);
   }
-  return response;
+  return result;
 }
 
 export async function fetchHtmlDocument(url: string, { skipCache, signal }: FetchOptions = {}): Promise<HtmlFetchResult> {
@@ -168,11 +187,55 @@ export async function fetchRobotsTxt(originUrl: URL, { skipCache, signal }: Fetc
     };
     if (!skipCache) robotsCache.set(robotsUrl, result);
     return result;
+  } catch (error) {
+    // Not cached: a timeout says nothing about the file, so the next request tries again.
+    return { text: null, fetchedFrom: robotsUrl, error: (error as Error).message };
+  }
+}
+
+const fetchLlmsFile = async (url: string, signal?: AbortSignal): Promise<LlmsFileResult> => {
+  const missing = { url, found: false, statusCode: null, contentType: null, bytes: 0, truncated: false, text: null };
+  try {
+    const response = await robotsClient.get(url, {
+      responseType: "buffer",
+      throwHttpErrors: false,
+      signal,
+      timeout: { request: 8000 },
+    });
+    const contentType = response.headers["content-type"] ? String(response.headers["content-type"]) : null;
+    if (response.statusCode >= 400 || !response.body?.length) {
+      return { ...missing, statusCode: response.statusCode, contentType };
+    }
+    const truncated = response.body.length > LLMS_TXT_MAX_BYTES;
+    return {
+      url,
+      found: true,
+      statusCode: response.statusCode,
+      contentType,
+      bytes: response.body.length,
+      truncated,
+      text: response.body.subarray(0, LLMS_TXT_MAX_BYTES).toString("utf8"),
+    };
   } catch {
-    const fallback = { text: null, fetchedFrom: robotsUrl };
-    if (!skipCache) robotsCache.set(robotsUrl, fallback);
-    return fallback;
+    return missing;
+  }
+};
+
+/** Downloads `/llms.txt` and `/llms-full.txt` from the site root. Missing files are reported, not thrown. */
+export async function fetchLlmsTxt(origin: URL, { skipCache, signal }: FetchOptions = {}): Promise<LlmsTxtResult> {
+  const cacheKey = `llms:${origin.origin}`;
+  if (!skipCache) {
+    const cached = llmsCache.get(cacheKey);
+    if (cached) return cached;
   }
+
+  const [llms, llmsFull] = await Promise.all([
+    fetchLlmsFile(new URL("/llms.txt", origin.origin).toString(), signal),
+    fetchLlmsFile(new URL("/llms-full.txt", origin.origin).toString(), signal),
+  ]);
+  const result = { llms, llmsFull };
+  if (!skipCache) llmsCache.set(cacheKey, result);
+  return result;
 }
 
 const sitemapClient = baseClient.extend({
@@ -182,77 +245,87 @@ const sitemapClient = baseClient.extend({
   },
 });
 
-const collectSitemapCandidates = (robotsTxt: string | null, origin: URL) => {
-  const candidates = new Set<string>();
-  if (robotsTxt) {
-    robotsTxt
-      .split(/\r?\n/)
-      .map((line) => line.trim())
-      .forEach((line) => {
-        if (/^sitemap:/i.test(line)) {
-          const sitemapUrl = line.split(":")[1]?.trim();
-          if (sitemapUrl) {
-            try {
-              const absolute = new URL(sitemapUrl, origin.origin).toString();
-              candidates.add(absolute);
-            } catch {
-              // ignore
-            }
-          }
-        }
-      });
-  }
+/**
+ * Streams a sitemap and stops reading once it passes SITEMAP_MAX_BYTES, so an
+ * oversized or endless response is never buffered in full.
+ */
+interface SitemapDownload {
+  statusCode: number;
+  body: Buffer;
+  bytes: number;
+  exceeded: boolean;
+}
 
-  if (!candidates.size) {
-    candidates.add(new URL("/sitemap.xml", origin.origin).toString());
-  }
+const downloadSitemap = (url: string, signal?: AbortSignal) =>
+  new Promise<SitemapDownload>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let received = 0;
+    let statusCode = 0;
+    let settled = false;
+    const stream = sitemapClient.stream(url, { throwHttpErrors: false, timeout: { request: 12000 }, signal });
+    const finish = (exceeded: boolean) => {
+      if (settled) return;
+      settled = true;
+      if (exceeded) stream.destroy();
+      resolve({ statusCode, body: Buffer.concat(chunks), bytes: received, exceeded });
+    };
+    stream.on("response", (response: { statusCode: number }) => {
+      statusCode = response.statusCode;
+    });
+    stream.on("data", (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > SITEMAP_MAX_BYTES) finish(true);
+      else chunks.push(chunk);
+    });
+    stream.on("end", () => finish(false));
+    stream.on("error", (error: Error) => {
+      if (settled) return;
+      settled = true;
+      reject(error);
+    });
+  });
 
-  return Array.from(candidates).slice(0, 3);
+/** Downloads `urls` with at most SITEMAP_CONCURRENCY requests in flight, keeping results in input order. */
+const downloadSitemaps = async (urls: string[], signal: AbortSignal) => {
+  const results: Array<PromiseSettledResult<SitemapDownload>> = new Array(urls.length);
+  let cursor = 0;
+  const workers = Array.from({ length: Math.min(SITEMAP_CONCURRENCY, urls.length || 1) }, async () => {
+    while (cursor < urls.length) {
+      const index = cursor++;
+      try {
+        results[index] = { status: "fulfilled", value: await downloadSitemap(urls[index], signal) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  });
+  await Promise.all(workers);
+  return results;
 };
 
-const parseSitemapEntries = (payload: unknown): SitemapEntrySummary[] => {
-  const entries: SitemapEntrySummary[] = [];
-  if (!payload || typeof payload !== "object") return entries;
-  const doc = payload as Record<string, unknown>;
-  const urlset = doc.urlset ?? doc.urlSet;
-  const sitemapIndex = doc.sitemapindex ?? doc.sitemapIndex;
-
-  const normalizeEntries = (raw: unknown) => {
-    const list = Array.isArray(raw) ? raw : raw ? [raw] : [];
-    return list
-      .map((entry) => entry as Record<string, unknown>)
-      .filter((entry) => typeof entry?.loc === "string")
-      .map((entry) => {
-        const alternates: Array<{ hreflang: string; href: string }> = [];
-        const linkNodes = entry["xhtml:link"] ?? entry.link ?? [];
-        const nodes = Array.isArray(linkNodes) ? linkNodes : linkNodes ? [linkNodes] : [];
-        nodes.forEach((node) => {
-          const candidate = node as Record<string, unknown>;
-          const rel = String(candidate.rel ?? "").toLowerCase();
-          const hreflang = candidate.hreflang ?? candidate["hreflang"];
-          const href = candidate.href ?? candidate["href"];
-          if (rel === "alternate" && typeof hreflang === "string" && typeof href === "string") {
-            alternates.push({ hreflang: hreflang.toLowerCase(), href });
-          }
-        });
-
-        return {
-          loc: String(entry.loc),
-          lastmod: entry.lastmod ? String(entry.lastmod) : undefined,
-          alternates: alternates.length ? alternates : undefined,
-        };
-      });
-  };
+const collectSitemapCandidates = (robotsTxt: string | null, origin: URL) => {
+  const candidates = new Set<string>();
+  parseRobotsTxt(robotsTxt).sitemaps.forEach((sitemapUrl) => {
+    try {
+      candidates.add(new URL(sitemapUrl, origin.origin).toString());
+    } catch {
+      // ignore
+    }
+  });
 
-  if (urlset) {
-    entries.push(...normalizeEntries((urlset as Record<string, unknown>).url));
-  } else if (sitemapIndex) {
-    entries.push(...normalizeEntries((sitemapIndex as Record<string, unknown>).sitemap));
+  if (!candidates.size) {
+    candidates.add(new URL("/sitemap.xml", origin.origin).toString());
   }
 
-  return entries;
+  return Array.from(candidates);
 };
 
+/**
+ * Downloads every sitemap referenced by robots.txt (or /sitemap.xml), following
+ * sitemap indexes breadth-first until SITEMAP_FETCH_LIMIT files have been read
+ * or SITEMAP_TIMEOUT_MS has passed. Files of one level download concurrently;
+ * each `<urlset>` is validated against the sitemap protocol in document order.
+ */
 export async function fetchSitemaps(
   origin: URL,
   robotsTxt: string | null,
@@ -264,55 +337,138 @@ export async function fetchSitemaps(
     if (cached) return cached;
   }
 
+  const deadline = AbortSignal.timeout(SITEMAP_TIMEOUT_MS);
+  const downloadSignal = signal ? AbortSignal.any([signal, deadline]) : deadline;
+  // got leaves one abort listener per request on the signal; every file gets one request.
+  setMaxListeners(SITEMAP_FETCH_LIMIT + 1, downloadSignal);
   const candidates = collectSitemapCandidates(robotsTxt, origin);
+  let level = candidates.map((url) => ({ url, depth: 0 }));
+  const visited = new Set<string>();
+  const seenLocs = new Set<string>();
   const fetched: SitemapSummary["fetched"] = [];
+  const issues: SitemapValidationIssue[] = [];
   let hasHreflang = false;
+  let totalUrls = 0;
+  let entriesWithAlternates = 0;
+  let truncated = false;
+
+  while (level.length && !truncated) {
+    const batch: typeof level = [];
+    for (const entry of level) {
+      if (visited.has(entry.url)) continue;
+      if (visited.size >= SITEMAP_FETCH_LIMIT || downloadSignal.aborted) {
+        truncated = true;
+        break;
+      }
+      visited.add(entry.url);
+      batch.push(entry);
+    }
 
-  for (const sitemapUrl of candidates) {
-    try {
-      const response = await sitemapClient.get(sitemapUrl, {
-        throwHttpErrors: false,
-        timeout: { request: 12000 },
-        signal,
-      });
-      if (response.statusCode >= 400 || !response.body) {
-        fetched.push({ url: sitemapUrl, ok: false, statusCode: response.statusCode });
+    const downloads = await downloadSitemaps(batch.map((entry) => entry.url), downloadSignal);
+    const nextLevel: typeof level = [];
+
+    for (const [index, next] of batch.entries()) {
+      const download = downloads[index];
+      if (download.status === "rejected") {
+        if (downloadSignal.aborted) {
+          truncated = true;
+          continue;
+        }
+        fetched.push({ url: next.url, ok: false, statusCode: undefined, depth: next.depth });
+        issues.push(createSitemapIssue("unreachable", next.url, [(download.reason as Error).message]));
         continue;
       }
 
-      const parsed = xmlParser.parse(response.body);
-      const entries = parseSitemapEntries(parsed);
-      if (entries.some((entry) => entry.alternates && entry.alternates.length > 0)) {
-        hasHreflang = true;
+      const response = download.value;
+      if (response.statusCode >= 400 || !response.bytes) {
+        fetched.push({ url: next.url, ok: false, statusCode: response.statusCode, depth: next.depth });
+        issues.push(createSitemapIssue("unreachable", next.url, [`HTTP ${response.statusCode}`]));
+        continue;
+      }
+      if (response.exceeded) {
+        fetched.push({ url: next.url, ok: true, statusCode: response.statusCode, depth: next.depth, bytes: response.bytes });
+        issues.push(createSitemapIssue("size-limit", next.url));
+        continue;
       }
 
-      fetched.push({
-        url: sitemapUrl,
-        ok: true,
-        statusCode: response.statusCode,
-        entries: entries.slice(0, 100),
-      });
-
-      // Prefer first successful fetch to keep payload small
-      break;
-    } catch (error) {
-      fetched.push({
-        url: sitemapUrl,
-        ok: false,
-        statusCode: undefined,
-      });
+      try {
+        const decoded = decodeSitemapBody(response.body);
+        const file = {
+          url: next.url,
+          ok: true,
+          statusCode: response.statusCode,
+          depth: next.depth,
+          gzipped: decoded.gzipped,
+          bytes: decoded.bytes,
+        };
+        if (decoded.text === null) {
+          fetched.push(file);
+          issues.push(createSitemapIssue("size-limit", next.url));
+          continue;
+        }
+
+        const parsed = parseSitemapDocument(decoded.text);
+        if (parsed.kind === "sitemapindex") {
+          const children = parsed.children
+            .map((child) => {
+              try {
+                return new URL(child, next.url).toString();
+              } catch {
+                return null;
+              }
+            })
+            .filter((child): child is string => Boolean(child));
+          if (next.depth > 0) {
+            issues.push(createSitemapIssue("nested-index", next.url));
+          }
+          children.forEach((child) => nextLevel.push({ url: child, depth: next.depth + 1 }));
+          fetched.push({ ...file, kind: "sitemapindex", children });
+          continue;
+        }
+
+        if (parsed.kind !== "urlset") {
+          fetched.push({ ...file, ok: false });
+          issues.push(createSitemapIssue("parse-error", next.url));
+          continue;
+        }
+
+        const withAlternates = parsed.entries.filter((entry) => entry.alternates && entry.alternates.length > 0).length;
+        hasHreflang = hasHreflang || withAlternates > 0;
+        entriesWithAlternates += withAlternates;
+        totalUrls += parsed.entries.length;
+        issues.push(...validateSitemapEntries(next.url, parsed.entries, seenLocs));
+
+        fetched.push({
+          ...file,
+          kind: "urlset",
+          urlCount: parsed.entries.length,
+          entries: parsed.entries.slice(0, SITEMAP_ENTRY_SAMPLE_LIMIT),
+        });
+      } catch (error) {
+        // The file downloaded fine, so a corrupt .gz or unparseable body is a content problem.
+        fetched.push({ url: next.url, ok: false, statusCode: response.statusCode, depth: next.depth });
+        issues.push(createSitemapIssue("parse-error", next.url, [(error as Error).message]));
+      }
     }
+    level = nextLevel;
   }
+  // AbortSignal.any only holds its sources weakly; keep the deadline alive until every download settled.
+  void deadline;
 
   const summary: SitemapSummary | null = fetched.length
     ? {
         urls: candidates,
         fetched,
         hasHreflang,
+        totalUrls,
+        uniqueUrls: seenLocs.size,
+        entriesWithAlternates,
+        truncated,
+        issues,
       }
     : null;
 
-  if (!skipCache) {
+  if (!skipCache && !signal?.aborted) {
     sitemapCache.set(cacheKey, summary);
   }
 
@@ -0,0 +1,110 @@
+// Reads format and intrinsic dimensions from the first bytes of an image, so
+// images can be measured without downloading them completely.
+
+export interface ImageProbeInfo {
+  format: string | null;
+  width: number | null;
+  height: number | null;
+}
+
+const UNKNOWN: ImageProbeInfo = { format: null, width: null, height: null };
+
+const ascii = (buffer: Buffer, start: number, end: number) => buffer.toString("latin1", start, end);
+
+// SOF markers carrying frame dimensions (excludes DHT 0xC4, JPG 0xC8 and DAC 0xCC).
+const JPEG_SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+const readJpeg = (buffer: Buffer): ImageProbeInfo => {
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      offset += 1;
+      continue;
+    }
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      return { format: "jpeg", height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return { ...UNKNOWN, format: "jpeg" };
+};
+
+const readWebp = (buffer: Buffer): ImageProbeInfo => {
+  const chunk = ascii(buffer, 12, 16);
+  if (chunk === "VP8 " && buffer.length >= 30) {
+    return { format: "webp", width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === "VP8L" && buffer.length >= 25) {
+    const bits = buffer.readUInt32LE(21);
+    return { format: "webp", width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === "VP8X" && buffer.length >= 30) {
+    return { format: "webp", width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+  }
+  return { ...UNKNOWN, format: "webp" };
+};
+
+const readIsoBmff = (buffer: Buffer): ImageProbeInfo => {
+  const brand = ascii(buffer, 8, 12);
+  const format = brand.startsWith("avi") ? "avif" : brand.startsWith("hei") || brand.startsWith("mif") ? "heic" : null;
+  if (!format) return UNKNOWN;
+  // The `ispe` property box holds the primary image size: size, type, version/flags, width, height.
+  const ispe = buffer.indexOf("ispe", 0, "latin1");
+  if (ispe === -1 || ispe + 16 > buffer.length) return { ...UNKNOWN, format };
+  return { format, width: buffer.readUInt32BE(ispe + 8), height: buffer.readUInt32BE(ispe + 12) };
+};
+
+const svgLength = (value: string | undefined) => {
+  if (!value || /%$/.test(value.trim())) return null;
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed) : null;
+};
+
+const readSvg = (text: string): ImageProbeInfo => {
+  const tag = text.match(/<svg\b[^>]*>/i)?.[0] ?? "";
+  const attribute = (name: string) => tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']+)["']`, "i"))?.[1];
+  let width = svgLength(attribute("width"));
+  let height = svgLength(attribute("height"));
+  const viewBox = attribute("viewBox")?.split(/[\s,]+/).map(Number);
+  if ((!width || !height) && viewBox?.length === 4 && viewBox.every(Number.isFinite)) {
+    width = width ?? Math.round(viewBox[2]);
+    height = height ?? Math.round(viewBox[3]);
+  }
+  return { format: "svg", width, height };
+};
+
+export const readImageInfo = (buffer: Buffer): ImageProbeInfo => {
+  if (buffer.length < 12) return UNKNOWN;
+  if (buffer[0] === 0x89 && ascii(buffer, 1, 4) === "PNG" && buffer.length >= 24) {
+    return { format: "png", width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) return readJpeg(buffer);
+  if (ascii(buffer, 0, 4) === "GIF8") {
+    return { format: "gif", width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+  }
+  if (ascii(buffer, 0, 4) === "RIFF" && ascii(buffer, 8, 12) === "WEBP") return readWebp(buffer);
+  if (ascii(buffer, 4, 8) === "ftyp") return readIsoBmff(buffer);
+  if (buffer[0] === 0x42 && buffer[1] === 0x4d && buffer.length >= 26) {
+    return { format: "bmp", width: buffer.readInt32LE(18), height: Math.abs(buffer.readInt32LE(22)) };
+  }
+  if (buffer.readUInt32BE(0) === 0x00000100) return { ...UNKNOWN, format: "ico" };
+  const head = buffer.toString("utf8", 0, Math.min(buffer.length, 4096));
+  if (/<svg\b/i.test(head)) return readSvg(buffer.toString("utf8"));
+  return UNKNOWN;
+};
+
+/** Maps a MIME type or file extension to the format names used by `readImageInfo`. */
+export const formatFromHint = (hint: string | null | undefined): string | null => {
+  const value = hint?.toLowerCase() ?? "";
+  const match = value.match(/(?:image\/|\.)(avif|webp|png|jpe?g|gif|svg|bmp|ico|heic|heif)\b/);
+  if (!match) return null;
+  const format = match[1];
+  if (format === "jpg") return "jpeg";
+  if (format === "heif") return "heic";
+  return format;
+};
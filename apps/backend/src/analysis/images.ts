@@ -0,0 +1,404 @@
+import type { CheerioAPI } from "cheerio";
+import {
+  IMAGE_ABOVE_FOLD_COUNT,
+  IMAGE_HEAVY_BYTES,
+  IMAGE_PROBE_BYTES,
+  IMAGE_SAMPLE_LIMIT,
+  USER_AGENT,
+} from "./constants";
+import { httpClient } from "./http";
+import { formatFromHint, readImageInfo, type ImageProbeInfo } from "./image-size";
+import type { HighlightEntry, ImageEntry, ImageInventory, ModuleComputer } from "./types";
+import { clampScore, createIssueTracker, formatRatio, incrementIssue, roundScore, toHighlight } from "./utils";
+
+const PROBE_TIMEOUT_MS = 8000;
+const PROBE_CONCURRENCY = 4;
+const URL_SAMPLE_LIMIT = 3;
+/** Intrinsic width this many times the rendered width wastes bytes. */
+const OVERSIZE_FACTOR = 2;
+const RESPONSIVE_MIN_WIDTH = 400;
+const MODERN_FORMATS = new Set(["webp", "avif"]);
+const VECTOR_FORMATS = new Set(["svg", "ico"]);
+const LAZY_SOURCE_ATTRIBUTES = ["data-src", "data-lazy-src", "data-original"];
+const CSS_URL_PATTERN = /url\(\s*(['"]?)(.*?)\1\s*\)/gi;
+const OFF_CANVAS_SELECTOR = "footer, aside, [role=contentinfo], [role=complementary], noscript";
+
+type Selection = ReturnType<CheerioAPI>;
+
+interface ProbeResult {
+  statusCode: number | null;
+  bytes: number | null;
+  format: string | null;
+  width: number | null;
+  height: number | null;
+  error?: string;
+}
+
+const parseLength = (value: string | undefined | null) => {
+  if (!value) return null;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)(px)?$/i);
+  return match ? Math.round(Number(match[1])) : null;
+};
+
+const styleValue = (style: string, property: string) =>
+  style.match(new RegExp(`(?:^|;)\\s*${property}\\s*:\\s*([^;]+)`, "i"))?.[1]?.trim() ?? null;
+
+const resolveImageUrl = (value: string | undefined, base: URL) => {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  if (/^data:/i.test(trimmed)) return trimmed;
+  try {
+    return new URL(trimmed, base).toString();
+  } catch {
+    return null;
+  }
+};
+
+/** Data-URI placeholders (blurred previews, 1x1 GIFs) are swapped for the lazy-loading attribute by JS. */
+const pickImageSource = (element: Selection, base: URL) => {
+  const src = element.attr("src");
+  const lazy = LAZY_SOURCE_ATTRIBUTES.map((name) => element.attr(name)).find(Boolean);
+  if (lazy && (!src || /^data:/i.test(src.trim()))) return resolveImageUrl(lazy, base);
+  return resolveImageUrl(src ?? element.attr("srcset")?.split(",")[0]?.trim().split(/\s+/)[0], base);
+};
+
+const dataUriInfo = (url: string) => {
+  const [meta, payload = ""] = url.slice(5).split(",", 2);
+  const base64 = /;base64/i.test(meta);
+  return {
+    format: formatFromHint(meta.split(";")[0]),
+    bytes: base64 ? Math.floor((payload.length * 3) / 4) : decodeURIComponent(payload).length,
+  };
+};
+
+const createEntry = (url: string, kind: ImageEntry["kind"], overrides: Partial<ImageEntry> = {}): ImageEntry => {
+  const dataUri = url.startsWith("data:") ? dataUriInfo(url) : null;
+  return {
+    url,
+    kind,
+    alt: null,
+    declaredWidth: null,
+    declaredHeight: null,
+    aspectRatio: false,
+    loading: null,
+    aboveFold: false,
+    srcset: false,
+    sizes: false,
+    sourceTypes: [],
+    format: dataUri?.format ?? formatFromHint(url.split(/[?#]/)[0]),
+    bytes: dataUri?.bytes ?? null,
+    intrinsicWidth: null,
+    intrinsicHeight: null,
+    statusCode: null,
+    probed: false,
+    ...overrides,
+  };
+};
+
+/**
+ * Inventories `<img>` (standalone or inside `<picture>`) and inline-style CSS
+ * backgrounds. Without a layout engine, "above the fold" means the first
+ * IMAGE_ABOVE_FOLD_COUNT content images in document order.
+ */
+export const collectImageInventory = (dom: CheerioAPI, base: URL): ImageInventory => {
+  const images: ImageEntry[] = [];
+  let contentImages = 0;
+
+  dom("img").each((_, node) => {
+    const element = dom(node);
+    const url = pickImageSource(element, base);
+    if (!url) return;
+    const style = element.attr("style") ?? "";
+    const declaredWidth = parseLength(element.attr("width")) ?? parseLength(styleValue(style, "width"));
+    const declaredHeight = parseLength(element.attr("height")) ?? parseLength(styleValue(style, "height"));
+    // Tracking pixels are not content.
+    if (declaredWidth !== null && declaredHeight !== null && declaredWidth <= 1 && declaredHeight <= 1) return;
+
+    const picture = element.parent().is("picture") ? element.parent() : null;
+    const offCanvas = element.closest(OFF_CANVAS_SELECTOR).length > 0;
+    const aboveFold = !offCanvas && contentImages < IMAGE_ABOVE_FOLD_COUNT;
+    if (!offCanvas) contentImages += 1;
+
+    images.push(
+      createEntry(url, picture ? "picture" : "img", {
+        alt: element.attr("alt") ?? null,
+        declaredWidth,
+        declaredHeight,
+        aspectRatio: Boolean(styleValue(style, "aspect-ratio")),
+        loading: element.attr("loading")?.toLowerCase() ?? null,
+        aboveFold,
+        srcset: Boolean(element.attr("srcset") || element.attr("data-srcset") || picture?.find("source[srcset]").length),
+        sizes: Boolean(element.attr("sizes") || picture?.find("source[sizes]").length),
+        sourceTypes: picture
+          ? picture
+              .find("source[type]")
+              .map((__, source) => dom(source).attr("type")?.toLowerCase() ?? "")
+              .get()
+              .filter(Boolean)
+          : [],
+      }),
+    );
+  });
+
+  dom("[style*='url(' i]").each((_, node) => {
+    const style = dom(node).attr("style") ?? "";
+    const background = [styleValue(style, "background-image"), styleValue(style, "background")]
+      .filter(Boolean)
+      .join(" ");
+    for (const match of background.matchAll(CSS_URL_PATTERN)) {
+      const url = resolveImageUrl(match[2], base);
+      if (url) images.push(createEntry(url, "css-background"));
+    }
+  });
+
+  return { total: images.length, probed: 0, truncated: false, images };
+};
+
+/** Requests the first IMAGE_PROBE_BYTES of an image and aborts the transfer once they have arrived. */
+const probeImage = (url: string, signal?: AbortSignal) =>
+  new Promise<ProbeResult>((resolve) => {
+    const chunks: Buffer[] = [];
+    let received = 0;
+    let statusCode: number | null = null;
+    let headers: Record<string, string | string[] | undefined> = {};
+    let settled = false;
+
+    const stream = httpClient.stream(url, {
+      headers: {
+        "User-Agent": USER_AGENT,
+        Accept: "image/avif,image/webp,image/*,*/*;q=0.8",
+        Range: `bytes=0-${IMAGE_PROBE_BYTES - 1}`,
+      },
+      throwHttpErrors: false,
+      timeout: { request: PROBE_TIMEOUT_MS },
+      signal,
+    });
+
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      stream.destroy();
+      const buffer = Buffer.concat(chunks);
+      let info: ImageProbeInfo = { format: null, width: null, height: null };
+      try {
+        info = readImageInfo(buffer);
+      } catch {
+        // A truncated or malformed header leaves the dimensions unknown.
+      }
+      const contentType = typeof headers["content-type"] === "string" ? headers["content-type"] : null;
+      const total = String(headers["content-range"] ?? "").match(/\/(\d+)$/)?.[1];
+      const length = statusCode === 200 ? Number(headers["content-length"]) : Number.NaN;
+      const completed = !error && statusCode !== null && statusCode < 400 && received < IMAGE_PROBE_BYTES;
+      resolve({
+        statusCode,
+        bytes: total ? Number(total) : Number.isFinite(length) ? length : completed ? received : null,
+        format: info.format ?? formatFromHint(contentType),
+        width: info.width,
+        height: info.height,
+        error: error?.message ?? (statusCode !== null && statusCode >= 400 ? `HTTP ${statusCode}` : undefined),
+      });
+    };
+
+    stream.on("response", (response: { statusCode: number; headers: typeof headers }) => {
+      statusCode = response.statusCode;
+      headers = response.headers;
+      if (response.statusCode >= 400) finish();
+    });
+    stream.on("data", (chunk: Buffer) => {
+      chunks.push(chunk);
+      received += chunk.length;
+      if (received >= IMAGE_PROBE_BYTES) finish();
+    });
+    stream.on("end", () => finish());
+    stream.on("error", (error: Error) => finish(error));
+  });
+
+/** Inventories the page images and probes up to IMAGE_SAMPLE_LIMIT distinct URLs for size and dimensions. */
+export const evaluateImages = async (dom: CheerioAPI, base: URL, signal?: AbortSignal): Promise<ImageInventory> => {
+  const inventory = collectImageInventory(dom, base);
+  const urls = Array.from(
+    new Set(inventory.images.map((image) => image.url).filter((url) => /^https?:/i.test(url))),
+  );
+  const queue = urls.slice(0, IMAGE_SAMPLE_LIMIT);
+  const probes = new Map<string, ProbeResult>();
+
+  const workers = Array.from({ length: Math.min(PROBE_CONCURRENCY, queue.length || 1) }, async () => {
+    while (queue.length) {
+      const next = queue.shift();
+      if (!next) break;
+      probes.set(next, await probeImage(next, signal));
+    }
+  });
+  await Promise.all(workers);
+
+  const images = inventory.images.map((image) => {
+    const probe = probes.get(image.url);
+    if (!probe) return image;
+    return {
+      ...image,
+      probed: true,
+      statusCode: probe.statusCode,
+      format: probe.format ?? image.format,
+      bytes: probe.bytes,
+      intrinsicWidth: probe.width,
+      intrinsicHeight: probe.height,
+      ...(probe.error ? { error: probe.error } : {}),
+    };
+  });
+
+  return {
+    total: images.length,
+    probed: probes.size,
+    truncated: urls.length > IMAGE_SAMPLE_LIMIT,
+    images,
+  };
+};
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const shortUrl = (url: string) => (url.startsWith("data:") ? `${url.slice(0, 30)}…` : url);
+
+const listUrls = (entries: ImageEntry[], describe?: (entry: ImageEntry) => string) =>
+  entries
+    .slice(0, URL_SAMPLE_LIMIT)
+    .map((entry) => (describe ? `${shortUrl(entry.url)} (${describe(entry)})` : shortUrl(entry.url)))
+    .join(", ") + (entries.length > URL_SAMPLE_LIMIT ? ` and ${entries.length - URL_SAMPLE_LIMIT} more` : "");
+
+const hasModernFormat = (image: ImageEntry) =>
+  (image.format !== null && MODERN_FORMATS.has(image.format)) ||
+  image.sourceTypes.some((type) => MODERN_FORMATS.has(formatFromHint(type) ?? ""));
+
+const isRaster = (image: ImageEntry) => image.format === null || !VECTOR_FORMATS.has(image.format);
+
+export const computeImages: ModuleComputer = (ctx) => {
+  const issues = createIssueTracker();
+  const recommendations: string[] = [];
+  const inventory = ctx.images ?? collectImageInventory(ctx.dom, ctx.url);
+  const { images } = inventory;
+
+  if (!images.length) {
+    return {
+      score: 10,
+      summary: "No images found on the page.",
+      recommendations,
+      issues,
+      details: { ...inventory, highlights: [] },
+    };
+  }
+
+  const inline = images.filter((image) => image.kind !== "css-background");
+  const missingDimensions = inline.filter(
+    (image) => !image.aspectRatio && (image.declaredWidth === null || image.declaredHeight === null),
+  );
+  const lazyAboveFold = inline.filter((image) => image.aboveFold && image.loading === "lazy");
+  const belowFold = inline.filter((image) => !image.aboveFold);
+  const eagerBelowFold = belowFold.filter((image) => image.loading !== "lazy");
+  const raster = images.filter((image) => isRaster(image) && !image.url.startsWith("data:"));
+  const legacyFormat = raster.filter((image) => image.format !== null && !hasModernFormat(image));
+  const heavy = images.filter((image) => image.bytes !== null && image.bytes > IMAGE_HEAVY_BYTES);
+  const oversized = inline.filter(
+    (image) =>
+      !image.srcset &&
+      image.intrinsicWidth !== null &&
+      image.declaredWidth !== null &&
+      image.intrinsicWidth > image.declaredWidth * OVERSIZE_FACTOR,
+  );
+  const wideRaster = inline.filter(
+    (image) =>
+      isRaster(image) &&
+      (image.intrinsicWidth ?? image.declaredWidth ?? 0) >= RESPONSIVE_MIN_WIDTH,
+  );
+  const missingSrcset = wideRaster.filter((image) => !image.srcset);
+  const broken = images.filter((image) => image.statusCode !== null && image.statusCode >= 400);
+  const knownFormat = raster.filter((image) => image.format !== null);
+  const modernRatio = knownFormat.length ? (knownFormat.length - legacyFormat.length) / knownFormat.length : 1;
+  const dimensionRatio = inline.length ? (inline.length - missingDimensions.length) / inline.length : 1;
+
+  let score = 3 * dimensionRatio;
+  score += belowFold.length ? 1.5 * ((belowFold.length - eagerBelowFold.length) / belowFold.length) : 1.5;
+  score += lazyAboveFold.length ? 0 : 0.5;
+  score += 2 * modernRatio;
+  score += wideRaster.length ? (wideRaster.length - missingSrcset.length) / wideRaster.length : 1;
+  score += Math.max(0, 2 - (heavy.length + oversized.length) * 0.5);
+  score -= Math.min(2, broken.length);
+  score = clampScore(roundScore(score));
+
+  if (missingDimensions.length) {
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `Set width and height (or aspect-ratio) on ${missingDimensions.length} image(s) to prevent layout shift (CLS): ${listUrls(missingDimensions)}.`,
+    );
+  }
+  if (lazyAboveFold.length) {
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `Remove loading="lazy" from above-the-fold images so the LCP image starts downloading immediately: ${listUrls(lazyAboveFold)}.`,
+    );
+  }
+  if (eagerBelowFold.length) {
+    incrementIssue(issues, "info");
+    recommendations.push(
+      `Add loading="lazy" to ${eagerBelowFold.length} below-the-fold image(s): ${listUrls(eagerBelowFold)}.`,
+    );
+  }
+  if (heavy.length) {
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `Compress heavy images over ${formatBytes(IMAGE_HEAVY_BYTES)}: ${listUrls(heavy, (entry) => formatBytes(entry.bytes ?? 0))}.`,
+    );
+  }
+  if (oversized.length) {
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `Resize images served far larger than displayed: ${listUrls(
+        oversized,
+        (entry) => `${entry.intrinsicWidth}px wide, shown at ${entry.declaredWidth}px`,
+      )}.`,
+    );
+  }
+  if (legacyFormat.length) {
+    incrementIssue(issues, "info");
+    recommendations.push(
+      `Serve WebP or AVIF (directly or via <picture>) instead of ${Array.from(
+        new Set(legacyFormat.map((entry) => entry.format?.toUpperCase())),
+      ).join("/")}: ${listUrls(legacyFormat)}.`,
+    );
+  }
+  if (missingSrcset.length) {
+    recommendations.push(
+      `Provide srcset/sizes so smaller screens download smaller files: ${listUrls(missingSrcset)}.`,
+    );
+  }
+  if (broken.length) {
+    incrementIssue(issues, "critical");
+    recommendations.push(
+      `Fix broken image URLs: ${listUrls(broken, (entry) => `HTTP ${entry.statusCode}`)}.`,
+    );
+  }
+
+  const totalBytes = images.reduce((sum, image) => sum + (image.bytes ?? 0), 0);
+  const highlights: HighlightEntry[] = [
+    toHighlight("Images", `${images.length} (${inventory.probed} probed)`),
+    toHighlight("With dimensions", formatRatio(dimensionRatio), missingDimensions.length ? "warn" : "good"),
+    toHighlight("Modern formats", formatRatio(modernRatio), modernRatio >= 0.8 ? "good" : "warn"),
+    toHighlight("Lazy below fold", `${belowFold.length - eagerBelowFold.length}/${belowFold.length}`, eagerBelowFold.length ? "warn" : "good"),
+    toHighlight("Heavy / oversized", `${heavy.length}/${oversized.length}`, heavy.length || oversized.length ? "warn" : "good"),
+    totalBytes ? toHighlight("Image weight", formatBytes(totalBytes)) : null,
+  ].filter(Boolean) as HighlightEntry[];
+
+  return {
+    score,
+    summary: `${images.length} images; ${missingDimensions.length} without dimensions, ${heavy.length + oversized.length} heavy or oversized.`,
+    recommendations,
+    issues,
+    details: {
+      total: inventory.total,
+      probed: inventory.probed,
+      truncated: inventory.truncated,
+      totalBytes,
+      images: images.map((image) => (image.url.startsWith("data:") ? { ...image, url: shortUrl(image.url) } : image)),
+      highlights,
+    },
+  };
+};
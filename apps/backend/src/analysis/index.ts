@@ -1,12 +1,32 @@
+import { load } from "cheerio";
 import { nanoid } from "nanoid";
 import { normalizeAuditUrl } from "../storage/lighthouse-store";
-import { ANALYSIS_TIMEOUT_MS } from "./constants";
-import { fetchHtmlDocument, fetchPsi, fetchRobotsTxt, fetchSitemaps } from "./http";
+import { ANALYSIS_TIMEOUT_MS, MODULE_DEFINITION_MAP } from "./constants";
+import { runPageDetectors } from "./detectors";
+import { collectHreflangAnnotations, evaluateHreflangCluster } from "./hreflang";
+import { evaluateImages } from "./images";
+import { probeLocaleNegotiation } from "./locale-negotiation";
+import { fetchHtmlDocument, fetchLlmsTxt, fetchPsi, fetchRobotsTxt, fetchSitemaps } from "./http";
 import { lookupGeo } from "./geo";
-import { evaluateLinkSample, buildModuleResults } from "./modules";
-import type { AnalyzeOptions, AnalysisContext, AnalysisResult } from "./types";
-import { calculateWeightedScore, deriveCountryFromLocale } from "./utils";
-import { getAnalysisSnapshotsForUrl, saveAnalysisRun } from "../storage/analysis-store";
+import { evaluateRobots, parseRobotsTxt } from "./robots";
+import { generateJsonLdSuggestions } from "./schema-suggestions";
+import { evaluateLinkSample, buildModuleResults, computeModuleResult } from "./modules";
+import type {
+  AnalyzeOptions,
+  AnalysisContext,
+  AnalysisResult,
+  HtmlFetchResult,
+  JsonLdSuggestionResult,
+  RecheckOptions,
+  RecheckResult,
+  RobotsTestResult,
+} from "./types";
+import { calculateWeightedScore, deriveCountryFromLocale, normalizeKeywords } from "./utils";
+import {
+  getAnalysisSnapshotsForUrl,
+  getLatestAnalysisForUrl,
+  saveAnalysisRun,
+} from "../storage/analysis-store";
 
 export class AnalysisTimeoutError extends Error {
   constructor(message = "Analysis timed out") {
@@ -15,6 +35,20 @@ export class AnalysisTimeoutError extends Error {
   }
 }
 
+export class AnalysisNotFoundError extends Error {
+  constructor(message = "No previous analysis found") {
+    super(message);
+    this.name = "AnalysisNotFoundError";
+  }
+}
+
+export class AnalysisInputError extends Error {
+  constructor(message = "Missing analysis input") {
+    super(message);
+    this.name = "AnalysisInputError";
+  }
+}
+
 const createAbortController = (timeoutMs: number, external?: AbortSignal | null) => {
   const controller = new AbortController();
   const timeout = setTimeout(() => {
@@ -42,6 +76,17 @@ const createAbortController = (timeoutMs: number, external?: AbortSignal | null)
   return { controller, cleanup };
 };
 
+const toAbortError = (signal: AbortSignal, error: unknown) => {
+  if (!signal.aborted) {
+    return error;
+  }
+  const reason = signal.reason;
+  if (reason instanceof Error) {
+    return reason;
+  }
+  return new Error("Analysis aborted");
+};
+
 export const analyzeSite = async (options: AnalyzeOptions): Promise<AnalysisResult> => {
   if (!options.url || typeof options.url !== "string") {
     throw new Error("url is required.");
@@ -53,6 +98,7 @@ export const analyzeSite = async (options: AnalyzeOptions): Promise<AnalysisResu
   const locale = options.locale?.trim() || "en_US";
   const targetCountry = deriveCountryFromLocale(locale);
   const skipCache = Boolean(options.skipCache);
+  const keywords = normalizeKeywords(options.keywords);
 
   const { controller, cleanup } = createAbortController(ANALYSIS_TIMEOUT_MS, options.signal ?? null);
   const signal = controller.signal;
@@ -66,10 +112,15 @@ export const analyzeSite = async (options: AnalyzeOptions): Promise<AnalysisResu
     const finalUrl = html.finalUrl ?? normalizedUrl;
     const finalOrigin = new URL(finalUrl);
 
-    const [sitemap, geo, linkSample] = await Promise.all([
+    const [sitemap, geo, linkSample, detectors, llmsTxt, hreflang, images, localeNegotiation] = await Promise.all([
       fetchSitemaps(finalOrigin, robots.text, { skipCache, signal }),
       lookupGeo(finalOrigin.hostname, { skipCache, signal }),
-      evaluateLinkSample(html.dom, finalOrigin, signal),
+      evaluateLinkSample(html.dom, finalOrigin, robots.text, signal),
+      runPageDetectors(finalOrigin, html.html, robots.text, signal),
+      fetchLlmsTxt(finalOrigin, { skipCache, signal }),
+      evaluateHreflangCluster(html.dom, finalOrigin, html.headers, normalizedUrl, signal),
+      evaluateImages(html.dom, finalOrigin, signal),
+      probeLocaleNegotiation(normalizedUrl, collectHreflangAnnotations(html.dom, finalOrigin), locale, signal),
     ]);
 
     const context: AnalysisContext = {
@@ -86,6 +137,12 @@ export const analyzeSite = async (options: AnalyzeOptions): Promise<AnalysisResu
       sitemap,
       geo,
       linkSample,
+      detectors,
+      llmsTxt,
+      hreflang,
+      images,
+      localeNegotiation,
+      keywords,
     };
 
     const modules = await buildModuleResults(context);
@@ -101,18 +158,21 @@ export const analyzeSite = async (options: AnalyzeOptions): Promise<AnalysisResu
       normalizedUrl,
       strategy,
       locale,
+      keywords,
       overall,
       modules,
       createdAt,
     });
 
-    const historySnapshots = await getAnalysisSnapshotsForUrl(finalOrigin.toString(), 10);
+    // History is keyed by the requested URL, as rechecks look it up, not by where it redirected.
+    const historySnapshots = await getAnalysisSnapshotsForUrl(normalizedUrl, 10);
 
     return {
       ok: true,
       url: finalOrigin.toString(),
       strategy,
       locale,
+      keywords,
       overall,
       modules,
       raw: {
@@ -121,6 +181,7 @@ export const analyzeSite = async (options: AnalyzeOptions): Promise<AnalysisResu
         robots: robots.text,
         sitemap,
         geo,
+        detectors,
       },
       timingMs: finishedAt.getTime() - startedAt.getTime(),
       startedAt: startedAt.toISOString(),
@@ -128,20 +189,165 @@ export const analyzeSite = async (options: AnalyzeOptions): Promise<AnalysisResu
       historySnapshots,
     };
   } catch (error) {
-    if (signal.aborted) {
-      const reason = signal.reason;
-      if (reason instanceof AnalysisTimeoutError) {
-        throw reason;
-      }
-      if (reason instanceof Error) {
-        throw reason;
-      }
-      throw new Error("Analysis aborted");
-    }
-    throw error;
+    throw toAbortError(signal, error);
+  } finally {
+    cleanup();
+  }
+};
+
+/**
+ * Re-runs a single module against freshly fetched inputs and stores the merged
+ * result as a new analysis record. Only the inputs declared by the module
+ * definition are downloaded; everything else in the context is left empty.
+ */
+export const recheckModule = async (options: RecheckOptions): Promise<RecheckResult> => {
+  const definition = MODULE_DEFINITION_MAP.get(options.moduleKey);
+  if (!definition) {
+    throw new Error(`Unknown module "${options.moduleKey}".`);
+  }
+
+  const previous = await getLatestAnalysisForUrl(options.url);
+  if (!previous) {
+    throw new AnalysisNotFoundError(`Run a full analysis for ${options.url} before rechecking modules.`);
+  }
+
+  const startedAt = new Date();
+  const normalizedUrl = previous.normalizedUrl;
+  const strategy = options.strategy ?? previous.strategy;
+  const locale = options.locale?.trim() || previous.locale;
+  const inputs = new Set(definition.inputs);
+  const keywords = options.keywords?.length ? normalizeKeywords(options.keywords) : previous.keywords ?? [];
+  if (inputs.has("keywords") && !keywords.length) {
+    throw new AnalysisInputError(`Module "${definition.key}" needs target keywords; pass keywords with the recheck request.`);
+  }
+  const fetchOptions = { skipCache: true };
+
+  const { controller, cleanup } = createAbortController(ANALYSIS_TIMEOUT_MS, options.signal ?? null);
+  const signal = controller.signal;
+
+  try {
+    const needsHtml =
+      inputs.has("html") ||
+      inputs.has("linkSample") ||
+      inputs.has("detectors") ||
+      inputs.has("hreflang") ||
+      inputs.has("images") ||
+      inputs.has("localeProbes");
+    const needsRobots = inputs.has("robots") || inputs.has("sitemap") || inputs.has("detectors");
+    const [psi, html, robots] = await Promise.all([
+      inputs.has("psi") ? fetchPsi(normalizedUrl, strategy, locale, { ...fetchOptions, signal }) : null,
+      needsHtml ? fetchHtmlDocument(normalizedUrl, { ...fetchOptions, signal }) : null,
+      needsRobots
+        ? fetchRobotsTxt(new URL(normalizedUrl), { ...fetchOptions, signal })
+        : null,
+    ]);
+    const finalOrigin = new URL(html?.finalUrl ?? previous.url);
+    const emptyHtml: Pick<HtmlFetchResult, "html" | "dom" | "headers"> = { html: "", dom: load(""), headers: {} };
+    const page = html ?? emptyHtml;
+
+    const [sitemap, geo, linkSample, detectors, llmsTxt, hreflang, images, localeNegotiation] = await Promise.all([
+      inputs.has("sitemap") ? fetchSitemaps(finalOrigin, robots?.text ?? null, { ...fetchOptions, signal }) : null,
+      inputs.has("geo") ? lookupGeo(finalOrigin.hostname, { ...fetchOptions, signal }) : null,
+      inputs.has("linkSample") ? evaluateLinkSample(page.dom, finalOrigin, robots?.text ?? null, signal) : null,
+      inputs.has("detectors") ? runPageDetectors(finalOrigin, page.html, robots?.text ?? null, signal) : [],
+      inputs.has("llms") ? fetchLlmsTxt(finalOrigin, { ...fetchOptions, signal }) : null,
+      inputs.has("hreflang")
+        ? evaluateHreflangCluster(page.dom, finalOrigin, page.headers, normalizedUrl, signal)
+        : null,
+      inputs.has("images") ? evaluateImages(page.dom, finalOrigin, signal) : null,
+      inputs.has("localeProbes")
+        ? probeLocaleNegotiation(normalizedUrl, collectHreflangAnnotations(page.dom, finalOrigin), locale, signal)
+        : null,
+    ]);
+
+    const context: AnalysisContext = {
+      url: finalOrigin,
+      normalizedUrl,
+      locale,
+      targetCountry: deriveCountryFromLocale(locale),
+      strategy,
+      psi,
+      html: page.html,
+      dom: page.dom,
+      headers: page.headers,
+      robotsTxt: robots?.text ?? null,
+      sitemap,
+      geo,
+      linkSample: linkSample ?? { total: 0, checked: [], broken: [], disallowed: [], nofollow: 0 },
+      detectors,
+      llmsTxt,
+      hreflang,
+      images,
+      localeNegotiation,
+      keywords,
+    };
+
+    const finishedAt = new Date();
+    const timestamp = finishedAt.toISOString();
+    const module = await computeModuleResult(definition, context, timestamp);
+    const modules = previous.modules.some((entry) => entry.key === module.key)
+      ? previous.modules.map((entry) => (entry.key === module.key ? module : entry))
+      : [...previous.modules, module];
+    const overall = calculateWeightedScore(modules);
+    const recordId = nanoid(12);
+
+    await saveAnalysisRun({
+      id: recordId,
+      url: finalOrigin.toString(),
+      normalizedUrl,
+      strategy,
+      locale,
+      keywords,
+      overall,
+      modules,
+      createdAt: timestamp,
+    });
+
+    const historySnapshots = await getAnalysisSnapshotsForUrl(normalizedUrl, 10);
+
+    return {
+      ok: true,
+      url: finalOrigin.toString(),
+      strategy,
+      locale,
+      recordId,
+      module,
+      modules,
+      overall,
+      timingMs: finishedAt.getTime() - startedAt.getTime(),
+      timestamp,
+      historySnapshots,
+    };
+  } catch (error) {
+    throw toAbortError(signal, error);
   } finally {
     cleanup();
   }
 };
 
+/** Fetches the live robots.txt for `url` and evaluates it for each crawler token. */
+export const testRobotsAccess = async (url: string, agents: string[]): Promise<RobotsTestResult> => {
+  const target = new URL(normalizeAuditUrl(url));
+  const robots = await fetchRobotsTxt(target, { skipCache: true });
+  if (robots.error) throw new Error(`Unable to fetch ${robots.fetchedFrom}: ${robots.error}`);
+  const parsed = parseRobotsTxt(robots.text);
+
+  return {
+    url: target.toString(),
+    robotsUrl: robots.fetchedFrom,
+    robotsFound: robots.text !== null,
+    sitemaps: parsed.sitemaps,
+    results: agents.map((agent) => evaluateRobots(parsed, target, agent)),
+  };
+};
+
+export const suggestStructuredData = async (url: string, skipCache = false): Promise<JsonLdSuggestionResult> => {
+  const normalizedUrl = normalizeAuditUrl(url);
+  const html = await fetchHtmlDocument(normalizedUrl, { skipCache });
+  return generateJsonLdSuggestions(html.dom, html.html, new URL(html.finalUrl ?? normalizedUrl));
+};
+
 export { calculateWeightedScore } from "./utils";
+export { MODULE_DEFINITION_MAP } from "./constants";
+export { runLighthouseAudit } from "./audit";
+export { crawlSite, startCrawl } from "./crawl";
@@ -0,0 +1,75 @@
+/** ISO 639-1 two-letter language codes. */
+export const ISO_639_1_CODES = new Set(
+  (
+    "aa ab ae af ak am an ar as av ay az ba be bg bh bi bm bn bo br bs ca ce ch co cr cs cu cv cy da de dv dz ee el en eo es et eu " +
+    "fa ff fi fj fo fr fy ga gd gl gn gu gv ha he hi ho hr ht hu hy hz ia id ie ig ii ik io is it iu ja jv ka kg ki kj kk kl km kn " +
+    "ko kr ks ku kv kw ky la lb lg li ln lo lt lu lv mg mh mi mk ml mn mr ms mt my na nb nd ne ng nl nn no nr nv ny oc oj om or os " +
+    "pa pi pl ps pt qu rm rn ro ru rw sa sc sd se sg si sk sl sm sn so sq sr ss st su sv sw ta te tg th ti tk tl tn to tr ts tt tw " +
+    "ty ug uk ur uz ve vi vo wa wo xh yi yo za zh zu"
+  ).split(" "),
+);
+
+/** ISO 3166-1 alpha-2 country codes (officially assigned). */
+export const ISO_3166_1_CODES = new Set(
+  (
+    "AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS BT BV BW BY BZ CA CC CD CF " +
+    "CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES ET FI FJ FK FM FO FR GA GB GD GE GF GG GH " +
+    "GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN KP KR KW " +
+    "KY KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT MU MV MW MX MY MZ NA NC NE NF NG " +
+    "NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW SA SB SC SD SE SG SH SI SJ SK SL SM SN " +
+    "SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT " +
+    "ZA ZM ZW"
+  ).split(" "),
+);
+
+/** Common non-ISO region codes and the code that should be used instead. */
+export const REGION_CODE_CORRECTIONS: Record<string, string> = {
+  UK: "GB",
+  EL: "GR",
+};
+
+/**
+ * International calling codes and the national trunk prefix dropped when
+ * dialing from abroad (null where national numbers keep every digit, e.g. Italy).
+ */
+export const COUNTRY_CALLING_CODES: Record<string, { code: string; trunkPrefix: string | null }> = {
+  US: { code: "1", trunkPrefix: "1" },
+  CA: { code: "1", trunkPrefix: "1" },
+  GB: { code: "44", trunkPrefix: "0" },
+  IE: { code: "353", trunkPrefix: "0" },
+  DE: { code: "49", trunkPrefix: "0" },
+  AT: { code: "43", trunkPrefix: "0" },
+  CH: { code: "41", trunkPrefix: "0" },
+  FR: { code: "33", trunkPrefix: "0" },
+  BE: { code: "32", trunkPrefix: "0" },
+  NL: { code: "31", trunkPrefix: "0" },
+  LU: { code: "352", trunkPrefix: null },
+  ES: { code: "34", trunkPrefix: null },
+  PT: { code: "351", trunkPrefix: null },
+  IT: { code: "39", trunkPrefix: null },
+  DK: { code: "45", trunkPrefix: null },
+  NO: { code: "47", trunkPrefix: null },
+  SE: { code: "46", trunkPrefix: "0" },
+  FI: { code: "358", trunkPrefix: "0" },
+  PL: { code: "48", trunkPrefix: null },
+  CZ: { code: "420", trunkPrefix: null },
+  GR: { code: "30", trunkPrefix: null },
+  TR: { code: "90", trunkPrefix: "0" },
+  RU: { code: "7", trunkPrefix: "8" },
+  IL: { code: "972", trunkPrefix: "0" },
+  AE: { code: "971", trunkPrefix: "0" },
+  SA: { code: "966", trunkPrefix: "0" },
+  EG: { code: "20", trunkPrefix: "0" },
+  ZA: { code: "27", trunkPrefix: "0" },
+  IN: { code: "91", trunkPrefix: "0" },
+  CN: { code: "86", trunkPrefix: "0" },
+  HK: { code: "852", trunkPrefix: null },
+  JP: { code: "81", trunkPrefix: "0" },
+  KR: { code: "82", trunkPrefix: "0" },
+  SG: { code: "65", trunkPrefix: null },
+  AU: { code: "61", trunkPrefix: "0" },
+  NZ: { code: "64", trunkPrefix: "0" },
+  BR: { code: "55", trunkPrefix: "0" },
+  MX: { code: "52", trunkPrefix: null },
+  AR: { code: "54", trunkPrefix: "0" },
+};
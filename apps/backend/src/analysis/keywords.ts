@@ -0,0 +1,217 @@
+import { KEYWORD_DENSITY_MAX, KEYWORD_DENSITY_MIN } from "./constants";
+import { countWords, extractMainContent } from "./content";
+import type { HighlightEntry, ModuleComputer } from "./types";
+import { clampScore, createIssueTracker, incrementIssue, roundScore, toHighlight } from "./utils";
+
+const VARIANT_SAMPLE_LIMIT = 10;
+
+export interface KeywordPlacement {
+  title: boolean;
+  /** Zero-based word index of the first match in the title, or null. */
+  titlePosition: number | null;
+  h1: boolean;
+  metaDescription: boolean;
+  urlSlug: boolean | null;
+  firstParagraph: boolean;
+  imageAlts: number;
+  anchorTexts: number;
+}
+
+export interface KeywordReport {
+  keyword: string;
+  score: number;
+  placement: KeywordPlacement;
+  exactMatches: number;
+  variantMatches: number;
+  density: number;
+  variants: string[];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const collapse = (value: string) => value.replace(/\s+/g, " ").trim();
+
+// Unicode-aware word boundaries: `\b` only understands ASCII letters.
+const bounded = (pattern: string) => new RegExp(`(?<![\\p{L}\\p{N}])${pattern}(?![\\p{L}\\p{N}])`, "giu");
+
+const exactPattern = (keyword: string) => bounded(keyword.split(" ").map(escapeRegExp).join("[\\s\\-_]+"));
+
+/** Matches simple inflections of every keyword term (plural s/es) and hyphen/space joins. */
+const variantPattern = (keyword: string) => {
+  const terms = keyword.split(" ").map((term) => {
+    // "boxes" -> "box", "shoes" -> "shoe", "class" stays "class".
+    const stem = escapeRegExp(term.replace(/(?<=s|x|z|ch|sh)es$|(?<!s)s$/i, "") || term);
+    return `${stem}(?:es|s)?`;
+  });
+  return bounded(terms.join("[\\s\\-_]*"));
+};
+
+const countMatches = (pattern: RegExp, text: string) => text.match(pattern)?.length ?? 0;
+
+const matches = (pattern: RegExp, text: string | null | undefined) => {
+  if (!text) return false;
+  pattern.lastIndex = 0;
+  return pattern.test(text);
+};
+
+const wordPosition = (pattern: RegExp, text: string) => {
+  pattern.lastIndex = 0;
+  const match = pattern.exec(text);
+  return match ? countWords(text.slice(0, match.index)) : null;
+};
+
+const slugText = (url: URL) => {
+  try {
+    return decodeURIComponent(url.pathname).replace(/[-_/.]+/g, " ").trim();
+  } catch {
+    return url.pathname.replace(/[-_/.]+/g, " ").trim();
+  }
+};
+
+const slugify = (keyword: string) =>
+  keyword
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-|-$/g, "");
+
+export const computeKeywords: ModuleComputer = (ctx) => {
+  const issues = createIssueTracker();
+  const recommendations: string[] = [];
+
+  if (!ctx.keywords.length) {
+    return {
+      score: 0,
+      summary: "No target keywords were provided.",
+      recommendations: ["Pass `keywords` with the analysis request to evaluate keyword targeting."],
+      issues,
+      details: { keywords: [], highlights: [] },
+    };
+  }
+
+  const title = collapse(ctx.dom("title").first().text());
+  const h1s = ctx.dom("h1")
+    .toArray()
+    .map((node) => collapse(ctx.dom(node).text()));
+  const metaDescription = collapse(ctx.dom('meta[name="description" i]').attr("content") ?? "");
+  const main = extractMainContent(ctx.dom);
+  const firstParagraph = main.paragraphs[0] ?? collapse(ctx.dom("p").first().text());
+  const slug = slugText(ctx.url);
+  const isHomepage = ctx.url.pathname === "/" || ctx.url.pathname === "";
+  const alts = ctx.dom("img[alt]")
+    .toArray()
+    .map((node) => ctx.dom(node).attr("alt") ?? "");
+  const anchors = ctx.dom("a[href]")
+    .toArray()
+    .map((node) => collapse(ctx.dom(node).text()));
+  const totalWords = countWords(main.text);
+
+  const reports: KeywordReport[] = ctx.keywords.map((keyword) => {
+    const exact = exactPattern(keyword);
+    const variant = variantPattern(keyword);
+    const keywordWords = Math.max(1, countWords(keyword));
+    const exactMatches = countMatches(exact, main.text);
+    const variantHits = main.text.match(variant) ?? [];
+    const variantForms = Array.from(new Set(variantHits.map((hit) => hit.toLowerCase())));
+    const density = totalWords ? (variantHits.length * keywordWords * 100) / totalWords : 0;
+
+    const placement: KeywordPlacement = {
+      title: matches(variant, title),
+      titlePosition: wordPosition(variant, title),
+      h1: h1s.some((h1) => matches(variant, h1)),
+      metaDescription: matches(variant, metaDescription),
+      urlSlug: isHomepage ? null : matches(variant, slug),
+      firstParagraph: matches(variant, firstParagraph),
+      imageAlts: alts.filter((alt) => matches(variant, alt)).length,
+      anchorTexts: anchors.filter((anchor) => matches(variant, anchor)).length,
+    };
+
+    let score = 0;
+    if (placement.title) score += placement.titlePosition !== null && placement.titlePosition < 3 ? 2 : 1.5;
+    if (placement.h1) score += 1.5;
+    if (placement.metaDescription) score += 1;
+    if (placement.urlSlug !== false) score += 1;
+    if (placement.firstParagraph) score += 1.5;
+    if (placement.imageAlts) score += 0.5;
+    if (placement.anchorTexts) score += 0.5;
+    if (density >= KEYWORD_DENSITY_MIN && density <= KEYWORD_DENSITY_MAX) score += 2;
+    else if (variantHits.length) score += 1;
+
+    if (!placement.title) {
+      incrementIssue(issues, "warning");
+      recommendations.push(`Add "${keyword}" to the <title>${title ? ` (currently "${title}")` : ""}.`);
+    } else if (placement.titlePosition !== null && placement.titlePosition >= 3) {
+      recommendations.push(`Move "${keyword}" toward the start of the title; it currently appears after ${placement.titlePosition} words.`);
+    }
+    if (!placement.h1) {
+      incrementIssue(issues, "warning");
+      recommendations.push(
+        h1s.length ? `Work "${keyword}" into the H1 "${h1s[0]}".` : `Add an H1 that includes "${keyword}".`,
+      );
+    }
+    if (!placement.metaDescription) {
+      incrementIssue(issues, "info");
+      recommendations.push(`Mention "${keyword}" in the meta description so it is bolded in search snippets.`);
+    }
+    if (placement.urlSlug === false) {
+      incrementIssue(issues, "info");
+      recommendations.push(`Consider a URL slug containing "${keyword}" (e.g. /${slugify(keyword)}).`);
+    }
+    if (!placement.firstParagraph) {
+      incrementIssue(issues, "info");
+      recommendations.push(`Introduce "${keyword}" in the first paragraph of the main content.`);
+    }
+    if (density > KEYWORD_DENSITY_MAX) {
+      incrementIssue(issues, "warning");
+      recommendations.push(
+        `"${keyword}" makes up ${density.toFixed(1)}% of the copy (${variantHits.length} uses); vary the wording to avoid keyword stuffing.`,
+      );
+    } else if (!variantHits.length) {
+      incrementIssue(issues, "warning");
+      recommendations.push(`The main content never mentions "${keyword}"; cover the topic explicitly in the body copy.`);
+    } else if (density < KEYWORD_DENSITY_MIN && totalWords >= 300) {
+      recommendations.push(
+        `"${keyword}" appears only ${variantHits.length} time(s) in ${totalWords} words; reference it and close variants more often.`,
+      );
+    }
+
+    return {
+      keyword,
+      score: clampScore(roundScore(score)),
+      placement,
+      exactMatches,
+      variantMatches: variantHits.length - exactMatches,
+      density: Number(density.toFixed(2)),
+      variants: variantForms.slice(0, VARIANT_SAMPLE_LIMIT),
+    };
+  });
+
+  const score = roundScore(reports.reduce((sum, report) => sum + report.score, 0) / reports.length);
+  const best = [...reports].sort((a, b) => b.score - a.score)[0];
+
+  const highlights: HighlightEntry[] = reports
+    .map((report) =>
+      toHighlight(
+        `"${report.keyword}"`,
+        `${report.score}/10 · ${report.density}%`,
+        report.score >= 7 ? "good" : report.score >= 4 ? "warn" : "poor",
+      ),
+    )
+    .filter(Boolean) as HighlightEntry[];
+
+  return {
+    score,
+    summary:
+      reports.length === 1
+        ? `"${best.keyword}" scores ${best.score}/10 for on-page targeting.`
+        : `${reports.length} keywords evaluated; best targeted is "${best.keyword}" (${best.score}/10).`,
+    recommendations,
+    issues,
+    details: {
+      keywords: reports,
+      mainContentWords: totalWords,
+      highlights,
+    },
+  };
+};
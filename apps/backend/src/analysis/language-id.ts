@@ -0,0 +1,273 @@
+import { extractMainContent } from "./content";
+import { collectHreflangAnnotations, isSameUrl, parseHreflangCode } from "./hreflang";
+import { LANGUAGE_TRIGRAM_PROFILES } from "./language-profiles";
+import type { AnalysisContext, GeoSignalScore, HighlightEntry } from "./types";
+import { createIssueTracker, formatRatio, incrementIssue, toHighlight } from "./utils";
+
+const SAMPLE_CHAR_LIMIT = 6000;
+const MIN_LETTERS = 40;
+const DOCUMENT_PROFILE_SIZE = 300;
+/** Below this confidence a detected language is reported but never compared. */
+const MIN_CONFIDENCE = 0.4;
+const CANDIDATE_LIMIT = 3;
+
+/** Scripts written by a single language in practice; no trigram comparison needed. */
+const SINGLE_LANGUAGE_SCRIPTS: Array<{ script: string; pattern: RegExp; language: string }> = [
+  { script: "Hangul", pattern: /\p{Script=Hangul}/u, language: "ko" },
+  { script: "Greek", pattern: /\p{Script=Greek}/u, language: "el" },
+  { script: "Hebrew", pattern: /\p{Script=Hebrew}/u, language: "he" },
+  { script: "Thai", pattern: /\p{Script=Thai}/u, language: "th" },
+  { script: "Devanagari", pattern: /\p{Script=Devanagari}/u, language: "hi" },
+  { script: "Armenian", pattern: /\p{Script=Armenian}/u, language: "hy" },
+  { script: "Georgian", pattern: /\p{Script=Georgian}/u, language: "ka" },
+];
+const KANA_PATTERN = /[\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const HAN_PATTERN = /\p{Script=Han}/u;
+const ARABIC_PATTERN = /\p{Script=Arabic}/u;
+const CYRILLIC_PATTERN = /\p{Script=Cyrillic}/u;
+const LATIN_PATTERN = /\p{Script=Latin}/u;
+const PERSIAN_LETTERS = /[پچژگ]/gu;
+const URDU_LETTERS = /[ٹڈڑںے]/gu;
+
+/** Codes that name the same written language as a detectable one. */
+const LANGUAGE_ALIASES: Record<string, string> = { nb: "no", nn: "no", iw: "he", in: "id" };
+
+export type LanguageSource = "htmlLang" | "contentLanguage" | "hreflang" | "url" | "locale";
+
+const LANGUAGE_SOURCE_LABELS: Record<LanguageSource, string> = {
+  htmlLang: "<html lang>",
+  contentLanguage: "Content-Language",
+  hreflang: "its own hreflang entry",
+  url: "the URL locale",
+  locale: "the target locale",
+};
+
+export interface LanguageDetection {
+  language: string | null;
+  script: string | null;
+  /** 0–1; how clearly the best profile beats the runner-up (or the script share for single-language scripts). */
+  confidence: number;
+  candidates: Array<{ language: string; score: number }>;
+  letters: number;
+}
+
+export interface LanguageMismatch {
+  source: LanguageSource;
+  declared: string;
+  detected: string;
+}
+
+export interface PageLanguageReport {
+  detected: LanguageDetection;
+  declared: Record<LanguageSource, string | null>;
+  mismatches: LanguageMismatch[];
+}
+
+const PROFILE_RANKS = Object.fromEntries(
+  Object.entries(LANGUAGE_TRIGRAM_PROFILES).map(([language, grams]) => [
+    language,
+    new Map(grams.map((gram, index) => [gram, index])),
+  ]),
+);
+
+const profilesForScript = (pattern: RegExp) =>
+  Object.keys(LANGUAGE_TRIGRAM_PROFILES).filter((language) =>
+    LANGUAGE_TRIGRAM_PROFILES[language].some((gram) => pattern.test(gram)),
+  );
+const LATIN_PROFILES = profilesForScript(LATIN_PATTERN);
+const CYRILLIC_PROFILES = profilesForScript(CYRILLIC_PATTERN);
+
+export const DETECTABLE_LANGUAGES = new Set([
+  ...Object.keys(LANGUAGE_TRIGRAM_PROFILES),
+  ...SINGLE_LANGUAGE_SCRIPTS.map((entry) => entry.language),
+  "ja",
+  "zh",
+  "ar",
+  "fa",
+  "ur",
+]);
+
+export const normalizeLanguageCode = (value: string | null | undefined) => {
+  const language = value ? parseHreflangCode(value.trim().replace(/_/g, "-")).language : null;
+  return language ? (LANGUAGE_ALIASES[language] ?? language) : null;
+};
+
+const rankTrigrams = (text: string) => {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/\p{L}+/gu) ?? []) {
+    const padded = ` ${word} `;
+    for (let index = 0; index + 3 <= padded.length; index += 1) {
+      const gram = padded.slice(index, index + 3);
+      counts.set(gram, (counts.get(gram) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+    .slice(0, DOCUMENT_PROFILE_SIZE)
+    .map(([gram]) => gram);
+};
+
+/** Cavnar–Trenkle out-of-place distance, turned into a 0–1 similarity. */
+const scoreProfiles = (text: string, languages: string[]) => {
+  const grams = rankTrigrams(text);
+  return languages
+    .map((language) => {
+      const ranks = PROFILE_RANKS[language];
+      const maxPenalty = ranks.size;
+      const distance = grams.reduce((sum, gram, index) => {
+        const rank = ranks.get(gram);
+        return sum + (rank === undefined ? maxPenalty : Math.min(maxPenalty, Math.abs(rank - index)));
+      }, 0);
+      return { language, score: grams.length ? 1 - distance / (grams.length * maxPenalty) : 0 };
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+const countMatches = (text: string, pattern: RegExp) => {
+  let count = 0;
+  for (const char of text) if (pattern.test(char)) count += 1;
+  return count;
+};
+
+/**
+ * Identifies the language of a text: the dominant script decides first, and
+ * Latin or Cyrillic text is matched against the bundled trigram profiles.
+ */
+export const detectLanguage = (rawText: string): LanguageDetection => {
+  const text = rawText.slice(0, SAMPLE_CHAR_LIMIT);
+  const letters = countMatches(text, /\p{L}/u);
+  const empty: LanguageDetection = { language: null, script: null, confidence: 0, candidates: [], letters };
+  if (letters < MIN_LETTERS) return empty;
+
+  const share = (count: number) => Number((count / letters).toFixed(2));
+  const kana = countMatches(text, KANA_PATTERN);
+  const han = countMatches(text, HAN_PATTERN);
+  const arabic = countMatches(text, ARABIC_PATTERN);
+  const cyrillic = countMatches(text, CYRILLIC_PATTERN);
+  const latin = countMatches(text, LATIN_PATTERN);
+  const single = SINGLE_LANGUAGE_SCRIPTS.map((entry) => ({ ...entry, count: countMatches(text, entry.pattern) }));
+  const scripts = [
+    { script: "Han", count: kana + han },
+    { script: "Arabic", count: arabic },
+    { script: "Cyrillic", count: cyrillic },
+    { script: "Latin", count: latin },
+    ...single,
+  ].sort((a, b) => b.count - a.count);
+  const dominant = scripts[0];
+  if (!dominant.count) return empty;
+
+  const direct = (language: string, script: string, count: number): LanguageDetection => ({
+    language,
+    script,
+    confidence: share(count),
+    candidates: [{ language, score: share(count) }],
+    letters,
+  });
+
+  if (dominant.script === "Han") {
+    // Japanese mixes kana into almost every sentence; Chinese never uses it.
+    return kana / dominant.count > 0.1 ? direct("ja", "Japanese", dominant.count) : direct("zh", "Han", han);
+  }
+  if (dominant.script === "Arabic") {
+    const persian = text.match(PERSIAN_LETTERS)?.length ?? 0;
+    const urdu = text.match(URDU_LETTERS)?.length ?? 0;
+    const language = urdu > persian && urdu / arabic > 0.01 ? "ur" : persian / arabic > 0.01 ? "fa" : "ar";
+    return direct(language, "Arabic", arabic);
+  }
+  const known = single.find((entry) => entry.script === dominant.script);
+  if (known) return direct(known.language, known.script, known.count);
+
+  const candidates = scoreProfiles(text, dominant.script === "Cyrillic" ? CYRILLIC_PROFILES : LATIN_PROFILES);
+  const [best, runnerUp] = candidates;
+  if (!best || best.score <= 0) return { ...empty, script: dominant.script };
+  const margin = runnerUp ? (best.score - runnerUp.score) / best.score : 1;
+  return {
+    language: best.language,
+    script: dominant.script,
+    confidence: Number(Math.min(1, margin * 4).toFixed(2)),
+    candidates: candidates
+      .slice(0, CANDIDATE_LIMIT)
+      .map((candidate) => ({ language: candidate.language, score: Number(candidate.score.toFixed(3)) })),
+    letters,
+  };
+};
+
+/**
+ * Detects the language of the page's main content and compares it with every
+ * place the language is declared: `<html lang>`, the Content-Language header,
+ * the page's own hreflang entry, the locale in its URL and the locale the
+ * analysis targets. Declarations in languages without a bundled profile are
+ * not compared.
+ */
+export const assessPageLanguage = (ctx: AnalysisContext, urlLanguage: string | null): PageLanguageReport => {
+  const detected = detectLanguage(extractMainContent(ctx.dom).text);
+  const self = (ctx.hreflang?.annotations ?? collectHreflangAnnotations(ctx.dom, ctx.url)).find(
+    (annotation) =>
+      annotation.hreflang.toLowerCase() !== "x-default" &&
+      (isSameUrl(annotation.href, ctx.url.toString()) || isSameUrl(annotation.href, ctx.normalizedUrl)),
+  );
+  const declared: PageLanguageReport["declared"] = {
+    htmlLang: ctx.dom("html").attr("lang")?.trim() || null,
+    contentLanguage: ctx.headers["content-language"]?.trim() || null,
+    hreflang: self?.hreflang ?? null,
+    url: urlLanguage,
+    locale: ctx.locale || null,
+  };
+
+  const mismatches: LanguageMismatch[] = [];
+  if (detected.language && detected.confidence >= MIN_CONFIDENCE) {
+    (Object.entries(declared) as Array<[LanguageSource, string | null]>).forEach(([source, value]) => {
+      // Content-Language may list several languages; the page matches if any of them does.
+      const languages = (value ?? "")
+        .split(",")
+        .map((entry) => normalizeLanguageCode(entry))
+        .filter((entry): entry is string => Boolean(entry && DETECTABLE_LANGUAGES.has(entry)));
+      if (languages.length && !languages.includes(detected.language as string)) {
+        mismatches.push({ source, declared: value as string, detected: detected.language as string });
+      }
+    });
+  }
+  return { detected, declared, mismatches };
+};
+
+/**
+ * Scores the detected content language against its declarations. A wrong
+ * declaration costs a point; content in another language than the target
+ * locale is only noted, since the page may simply be the wrong one.
+ */
+export const scorePageLanguage = (report: PageLanguageReport): GeoSignalScore => {
+  const issues = createIssueTracker();
+  const recommendations: string[] = [];
+  const declaredMismatches = report.mismatches.filter((entry) => entry.source !== "locale");
+  const localeMismatch = report.mismatches.find((entry) => entry.source === "locale");
+
+  if (declaredMismatches.length) {
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `The main content reads as "${report.detected.language}" but ${declaredMismatches
+        .map((entry) => `${LANGUAGE_SOURCE_LABELS[entry.source]} says "${entry.declared}"`)
+        .join(", ")}; translate the copy or correct the declarations.`,
+    );
+  }
+  if (localeMismatch) {
+    incrementIssue(issues, "info");
+    recommendations.push(
+      `The main content reads as "${localeMismatch.detected}" while the analysis targets ${localeMismatch.declared}; check that this is the right page for the market.`,
+    );
+  }
+
+  return {
+    scoreDelta: declaredMismatches.length ? -1 : 0,
+    issues,
+    recommendations,
+    highlights: [
+      report.detected.language
+        ? toHighlight(
+            "Content language",
+            `${report.detected.language} (${formatRatio(report.detected.confidence)})`,
+            declaredMismatches.length ? "poor" : "good",
+          )
+        : null,
+    ].filter(Boolean) as HighlightEntry[],
+  };
+};
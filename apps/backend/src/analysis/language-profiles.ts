@@ -0,0 +1,208 @@
+/**
+ * Character trigram profiles for statistical language identification, most
+ * frequent first. Words are padded with one space on each side, so " de" is a
+ * word start and "en " a word ending. Built from general website copy (about,
+ * services, support, shipping) in each language.
+ */
+export const LANGUAGE_TRIGRAM_PROFILES: Record<string, string[]> = {
+  en: (
+    " th|the|he |nd | to| yo|to |you| an| we|re |and|ou |our|rs |ur | ne|at |hat|tha|we | ou|ers|es |is |or | fo|" +
+    " he| is| mo| re| wh|are|eve|for|ll |new|ts |ver| al| ar| be| co| ev| fi| fr| in| ma| te| wi|ce |com|ear|er |" +
+    "ind|mor|ng |ore|rea|st | ab| bu| do| la| of| or| pe| pr| se| up| wo|abo|all|am |an |ars|ate|bou|de |eam|ed |" +
+    "eed|eli|elp|ent|eop|ere|ery|est|et |ew |ews|fin|fro|hel|her|hin|hip|ice|ien|in |ine|ing|ion|ith|lat|le |lie|" +
+    "lp |me |nee|nt |nts|om |ome|ons|opl|out|ow |peo|ple|res|rom|shi|tea|ter|tes|th |thi|tio|tte|ues|ut |ve |wit|" +
+    " a | ac| bl| ca| cl| cu| da| de| ex| fe| ge| go| gu| ha| ho| if| it| ke| kn| le| lo| on| ov| pl| qu| sa| sh|" +
+    " si| sm| so| sp| su| ta| ti| va| wa| ye|acc|ace|ach|act|ad |age|al |als|alu|alw|ana|ans|ant|any|app|ar |ark|" +
+    "arn|ast|ati|att|atu|ave|axe|ay |ays|be |beh"
+  ).split("|"),
+  de: (
+    "en |ie | un|er | si|nd |ten| wi|sie|und| di|die|den|ere|ser|uns| da| me| zu|gen|ir |nen|nse|ren|wir|zu | au|" +
+    " de| fü| ih|auf|eue|nde|nge|ste| an| be| er| ne| ve|alt|che|der|ehr|eit|für|hr |hre|ind|it |meh|men|re |sch|" +
+    "te |ter|uf |ung|ver|ür | al| ge| ko| we| üb|ahr|as |ben|ber|das|em |es |hal|hen|ich|ihr|lei|lte|neu|sse|übe|" +
+    " bl| en| fi| fr| hi| in| is| ku| le| mi| pr| te| ze|all|am |ang|are|auc|bei|bes|ch |cht|eam|ein|ens|ent|erf|" +
+    "ern|ert|ese|est|fah|fen|fin|geb|ges|he |hne|hte|ier|ihn|in |ine|ion|iss|ist|ite|kom|kon|kti|kun|les|lfe|lle|" +
+    "mit|mme|nne|nsc|nte|ntw|omm|one|ont|ort|rau|rem|rer|rfa|rte|se |sen|sin|st |tea|tio|uch|ue |wer|wor| ar| br|" +
+    " ei| es| eu| fu| gl| gu| he| hä| hö| im| ja| je| kl| kö| la| li| ma| mö| na| nä| od| on| sc| se| so| sp| su|" +
+    " ta| um| vo| wa| wo|abe|ach|ag |age|ahi|akt"
+  ).split("|"),
+  fr: (
+    "es |us |les|ous| no| de| le| vo|ent|re |ur |de |ez |vou|nou|our|ouv|tre| et| po| qu|et |nt |pou|qui|uve| co|" +
+    "ns |ons|te |ce |com|des|otr|son|ts |ui | av| d | la| li| pe| to| tr| à |ave|est|eur|ien|ion|ise|la |not|omm|" +
+    "ont|pri|tio|tou|vez| cl| du| en| es| in| pl| pr| so| su|er |ide|ite|lus|mme|nts|omp|on |onn|os |plu|que|ris|" +
+    "rou|st |sur|tro|ux |équ| ai| au| be| ce| ch| fo| re| ré| se| si| un| ve| éq|abl|aid|ale|ant|ati|aux|ava|bes|" +
+    "ble|cli|den|dur|ec |ell|epr|ers|eso|fon|gne|ici|in |ipe|ir |ire|ivr|ix |jou|leu|lie|lle|log|men|mes|mpt|nce|" +
+    "ne |nes|nne|nos|nta|nte|ntr|oin|out|pe |per|pte|rab|rep|res|rez|rs |rso|se |ser|ses|si |soi|som|ssi|tes|ue |" +
+    "uip|uit|ura|urs|vec|vel|ven|ver|vre|és | an| as| bi| bl| bo| c | ci| cr| da| di| do| dé| eu| ex| fr| ga| gr|" +
+    " gu| gé| he| ic| jo| l | lo| là| ma| ob| of"
+  ).split("|"),
+  es: (
+    "os |as |est|de |es | de| la| qu|que| nu|nue|ue |ues| en| es| y |con|ent| co| lo|en |str|tro| má| pa| so|ara|" +
+    "cio|dos|las|mos|más|nta|par|ra |re |uen|ás | pe| re| su|an |cue|enc|ien|nte|ona|pre|res|ro |ta | a | cl| ne|" +
+    " pr| si| to|ado|ar |cia|do |ea |eci|emo|emp|equ|io |ion|la |los|odo|on |per|po |por|pue|qui|rar|rec|ros|sit|" +
+    "sta|su |tas|te |tes|tod|tos|ven| aq| ay| cr| el| eq| im| in| le| sa| un| us|abe|aci|ant|aqu|are|ayu|bir|bre|" +
+    "ces|cli|cre|ece|ed |egu|el |env|er |ers|esi|esp|for|gra|ibi|ici|ido|iem|imp|inc|ipo|ir |ita|lie|lo |log|mpo|" +
+    "mpr|nas|nci|ncu|nec|nes|ntr|obr|one|ont|orm|ort|quí|rma|rso|rta|sab|sob|son|ste|tad|tam|ted|tio|tra|uda|uev|" +
+    "uip|un |ust|uí |yud| ah| al| añ| bi| bl| bo| bu| ci| cu| có| di| du| dí| em| eu| ev| ex| fo| fr| fu| ge| gr|" +
+    " gu| lí| me| no| o | of| po| pu| se| ta| ti"
+  ).split("|"),
+  it: (
+    " di|per|te |ti | ch|che|di |he |ost|re | pe|no |str|tro| co| no| su|er |le |ro | e | se|ent|la |nos|nti|sul|" +
+    "vi | le| pi|mo |ne |ri |to | la| ne| qu| ri| si| vo|amo|are|con|ere|erv|ete|iam|ien|izi|iù |ni |più|rvi|zio|" +
+    " i | il| pr| tr|ano|emp|gli|il |ion|ior|li |lle|nta|on |one|pre|que|ris|rov|ser|sia|son|spe|ta |tat|tti|ui |" +
+    "ull|ve |ven|ver| a | ai| al| an| cl| cr| du| gl| nu| sa| so| sp| te| tu| un| vi| è |aiu|all|ann|app|ass|ate|" +
+    "att|atu|ave|cco|ci |cli|com|cre|dur|eci|edi|el |ell|end|enz|eri|ers|est|eve|gio|ia |io |isp|iut|ivi|lie|lla|" +
+    "me |mpo|mpr|na |nde|nel|nuo|nza|ogn|ono|ont|opr|ori|orn|ott|ova|ove|par|po |pri|pro|qua|qui|ra |rat|rso|rte|" +
+    "se |ste|tem|ten|tir|tri|tte|tut|ul |ult|uov|ura|utt|viz|vos|za |zie| ac| ag| as| at| av| az| be| bi| bl| bu|" +
+    " ci| de| do| ed| es| eu| ev| fa| fe| fr| fu"
+  ).split("|"),
+  pt: (
+    "os |as |que| no| qu|ue | pa|ent|par|ra |sso| de| e |ara|es |nos| co| pe| re|ais|de |em |is |oss| a | o | os|" +
+    " pr| vo|ar |con|cê |er |mos|nte|ocê|pre|qui|re |voc| en| ma| se| so| é |cia|com|do |dos|equ|mai|na |nta|om |" +
+    "res|so |tam|te | as| in| na| su|ado|eci|emp|enc|ere|ia |ien|mpo|nov|ntr|ont|per|por|rec|sa |sta|tas|ter|tes|" +
+    "to |tos|uen| ac| aj| aq| cl| em| eq| es| fa| im| ne| ou| po| sa| te| to| um|aju|am |amo|aqu|aze|bem|bre|cis|" +
+    "cli|cre|ece|edi|ela|emo|end|esp|ess|eve|ias|ima|imp|io |ipe|isa|ito|jud|lie|ma |mpr|nci|nco|nqu|nto|oas|obr|" +
+    "odo|omo|ort|ost|pe |pes|pos|reg|rem|rta|rte|se |soa|sob|sos|sua|ta |tod|tra|tre|ua |uda|ui |uip|uit|ura|ven|" +
+    "çõe|ões| an| ao| at| be| bl| bo| ch| ci| cr| di| do| du| ec| ev| ex| fr| fu| ge| gr| is| le| me| mu| of| or|" +
+    " si| ta| tr| tu| va| ve| vi| úl|aba|abe|aci"
+  ).split("|"),
+  nl: (
+    "en |de | de| je| me|je | we| be| en| on|er |te |oor|ten|we | da| he| op| te| vo|et |op |or |ven|voo| al| ni|" +
+    " vi|at |den|es |euw|ie |ieu|ing|is |lan|mee|nie|nze|om |onz|ren|rij|ver|ze | bl| di| er| ho| in| is| kl| le|" +
+    " wa| wi| zi|aar|an |ant|die|eer|ees|est|gen|ig |ij |ijf|ijn|in |ind|jn |lle|men|met|nge|nte|ove|ste|tel|tie|" +
+    "vin|zij| aa| ee| ge| gr| hu| la| ma| no| om| pr| re| ti| va| ve|aan|ag |ale|all|am |ang|are|ati|bed|bes|bli|" +
+    "bt |dat|dig|din|dri|eam|ebt|edr|een|ef |ela|eld|elk|ens|ere|erk|erv|eve|gra|heb|het|ief|ijd|ijv|jd |jf |jve|" +
+    "kla|kt |lde|le |lee|len|lij|lin|nd |ng |nod|ns |nse|nt |odi|ons|pen|rde|sen|tea|tij|unt|uwe|uws|van|wat|wij|" +
+    "zen| ac| an| bi| bo| bt| bu| co| el| eu| ev| fu| go| hi| ja| jo| ku| ne| of| oo| ov| se| sl| so| sp| su| to|" +
+    " vr|aag|aak|aat|acc|ach|act|age|akt|als|alt"
+  ).split("|"),
+  sv: (
+    "er |om | oc| vi|för|ra |är | fö| vå|ch |och|tt |vår|et |vi |ör | du| me| ny| so| är|ar |du |itt|som| at| de|" +
+    " di| pr| ti|att|en |mer|or |ta |tio|ver| al| be| hi| om| på| va|all|ati|de |der|dig|het|hit|ig |ill|ion|ll |" +
+    "na |nde|nga|på |rna|rt |te |tta|und|var|årt|öve| av| bl| dä| er| fr| hj| hä| in| ko| ku| lä| mä| re| se| sä|" +
+    " vä|ag |akt|am |ara|ast|av |beh|da |den|där|eam|ed |ehö|era|ere|eta|ete|eve|gar|gra|hjä|här|höv|id |ing|isk|" +
+    "jäl|kom|kon|kor|kte|kti|kun|lat|ler|lle|llt|läs|med|män|ner|nis|nni|nya|nyh|one|ont|orn|pro|ren|rer|ret|ser|" +
+    "sko|ste|tag|tea|ter|tet|tid|til|ya |yhe|älp|änn|äs |år |åra|öre| ar| ba| bo| br| by| da| el| et| ev| fe| fi|" +
+    " fu| få| gl| gr| hu| hå| hö| i | ka| kr| le| li| lå| ma| mo| nä| si| sk| sp| st| su| sv| te| tr| ve| we| än|" +
+    " år| öv|ad |ada|ade|age|ako|amv|an |and|ang"
+  ).split("|"),
+  da: (
+    "er |der| vi| de| me| og|de |og |res| ti|es |vor| er| vo|ed |ore|re |til| di|ede|or |vi | hv| på|dig|en |ere|" +
+    "for|hed|ig |il |på | du| fo| ny|du |lle|men|nde|nes| al| at| fi| hj| st| ve|ar |at |ene|esk|est|et |fin|ge |" +
+    "ind|med|mer|ner|om |one|ske|som|ter|und|ver| ar| br| en| fr| ha| he| ko| ku| læ| om| pr| re| se| so| sp| sæ|" +
+    "ad |ag |alt|am |an |ang|are|ati|bru|den|eam|enn|erf|fra|har|her|hjæ|hva|id |igt|ill|ion|irk|is |jæl|ked|kon|" +
+    "kso|kun|lde|le |ler|læs|mes|mhe|mme|nd |ne |nge|nne|nye|nyh|omh|ont|rer|rks|rug|ser|ste|sty|te |tea|tid|tio|" +
+    "tte|tyr|ug |vad|ved|vir|ye |yhe|yre|ælp|æs | af| ba| be| bl| da| el| et| fe| fu| få| ge| gl| go| gr| ho| hu|" +
+    " hø| i | in| ka| kr| kø| la| le| li| ma| mo| ne| næ| nø| os| ov| su| sv| te| tr| ud| væ| år|af |agt|akt|all|" +
+    "arb|ari|ark|arr|ate|bag|bej|bes|blo|bre|bud"
+  ).split("|"),
+  no: (
+    "er | de| me| og|et |ne |or | er| vi|ene|for|og |om | fo| vå|en |vi |vår| du| so| ti|du |nge|re |som|ver| hv|" +
+    " ny|de |deg|der|eg |ger|mer|ner|rer|te |ten|til| al| fi| le| pr| på| se| sp| tr| ve| å |are|det|ed |fin|inn|" +
+    "jon|lle|med|men|nne|one|på |rt |sjo|ste|und|var| ar| be| en| fr| he| hj| i | in| ko| ku| la| ne| om| re| si|" +
+    " va|akt|all|an |ang|asj|dri|eam|ell|elp|eng|enn|erd|erf|erv|es |est|ett|eve|fra|ge |gra|her|het|hje|id |ide|" +
+    "ift|il |in |ing|is |jel|kon|kte|kun|le |len|les|nde|nes|net|nn |nye|nyh|ont|pro|rdi|ren|sel|ser|ske|tea|ter|" +
+    "tid|tre|vet|ye |yhe|år |åre|årt| at| ba| bl| bo| da| di| dr| el| et| fe| fu| få| gj| go| gr| hu| hø| ka| kr|" +
+    " li| ma| nø| ov| st| su| sv| te| år| øn|ag |age|ak |alt|am |ame|amv|anl|ape|ar |arb|ari|ark|arr|at |ate|ati|" +
+    "avg|bak|bed|bei|bes|blo|bor|bre|bud|ce |dag"
+  ).split("|"),
+  pl: (
+    "ch | na| po| wi|dzi|ie |jes|my | i | je|ach|asz|ać |ej |nas|się|wie|ych| do| pr| za|est|ją |na |nia|rze|rzy|" +
+    "szy| dl| si|dla|em |esz|ia |iac|ię |ięc|naj|sz |sze|wsz|zym| kl| kt| lu| tw| ws| wy| z |cie|cze|ego|eni|go |" +
+    "ien|ier|ies|kon|któ|la |nie|now|ont|otr|owy|pro|prz|st |tak|trz|two|tór|uje|wać|wię|ym |ze |zie|zy |ści| ch|" +
+    " cz| fi| in| ma| no| o | os| sk| sp| w | wa| ze| zn|acj|aj |ajd|ają|akt|amy|ani|ate|awa|buj|cej|cia|cja|cy |" +
+    "czę|daw|do |dob|ebu|edz|emy|ent|era|esi|esp|eśm|fir|iad|ied|irm|ięć|kie|kli|ktu|lat|lie|lud|ne |nta|nte|ntó|" +
+    "omo|orz|owa|owi|ołe|ośc|pom|pot|pow|poł|ra |sko|spo|ste|stk|taj|ter|teś|tuj|tów|udz|wan|wia|woj|wor|wyc|ymy|" +
+    "yst|yta|ywa|zaw|zeb|zen|zes|zi |zna|zys|zą |ów |ęce|łem|ług|śmy|że | a | ab| be| bl| ce| ci| co| dn| dz| dł|" +
+    " fu| ja| ją| ka| ki| ko| la| mo| ne| ob| od"
+  ).split("|"),
+  cs: (
+    " na|ch |te | a | pr| po|pro| kt| ne| ví|kte|me |na |naš|ter| do| js|at |aše|ce |em |ete|ky |ro |ým | se| sp|" +
+    " vá|di |jí |nov|ny |ost|ou |ré |se |vat|víc|ách|íce|ích|ěte|še | co| de| in| je| k | ko| li| no| o | od| př|" +
+    " st| sv| tý| vy| vš| zd| zá|ajd|azn|aši|buj|co |cíc|den|dos|dpo|ebu|ech|eny|eré|eří|it |je |jet|jsm|jso|jte|" +
+    "jší|kaz|kcí|kác|let|lid|naj|nej|nos|ní |ník|ně |odn|odp|omo|otá|otř|ově|pod|pom|pot|pra|prá|rav|rma|rod|ru |" +
+    "sle|sme|sou|stě|tak|teř|ti |tu |ty |tým|těj|tět|tře|uje|uše|vám|vé |vše|zní|zák|áka|ám |áva|íky|íme|čas|ějš|" +
+    "řeb|ří |šem|ší | ak| bl| ce| ch| da| dl| dů| fu| ho| ja| ka| kl| le| ma| mů| ná| ní| ob| ok| ot| oz| rá| s |" +
+    " si| sl| so| ta| ti| tr| tu| uv| uš| va| ve| vz| vý| vč| vě| vž| za| zj| zk| zp| zí| úč| ča| ří| že|abí|ace|" +
+    "ad |ahů|ak |akc|akt|aké|alý|aně|are|arm|as "
+  ).split("|"),
+  tr: (
+    "ler|er | ve|eri|in |nız|en |lar|ve | ya|anı|arı|ile|imi|iz |miz|ını| bi| bu| ol|an |da |ini|man|ız | da| de|" +
+    " ha| he| in| so|bil|den|eki|eni|ili|iya|ki |ni |oru|za |çin|ın |ıza| ge| il| iç| ka| si|bul|dah|de |eyi|her|" +
+    "ilg|ir |izd|içi|kın|la |lgi|li |lma|nda|niz|rin|rın|ter|ula|un |yar|yen|zde|zla|ınd| al| ed| ek| el| fa| ih|" +
+    " mü| ye| yö| za| öz| üz|abe|acı|ada|aha|aki|akk|alm|alı|ama|anl|ar |ard|ası|azl|ber|biz|cı |cın|dak|dek|din|" +
+    "dir|duğ|dım|edi|ek |eld|ell|erl|et |eti|faz|gel|gi |gil|ha |hab|hak|hti|ibi|iht|ikl|ind|ins|ize|izl|işi|kib|" +
+    "kkı|kle|lan|ldi|ldu|le |lik|lir|liş|lli|mak|müş|nde|net|ney|nla|nsa|nın|ola|old|on |rdı|ren|ril|rim|rle|rul|" +
+    "ruz|san|siz|son|sor|ste|sın|tek|tiy|ulu|uz |uğu|ver|yac|yi |yor|yön|zam|zda|ze |zel|zer|zle|öne|öze|üze|üşt|" +
+    "ğun|ılı|şte| ab| an| ar| aş| bl| bö| bü| ce"
+  ).split("|"),
+  fi: (
+    "mme|me |en |ist|sta|ta |ja | ja|emm| ti|tä | jo| si| ta| uu|at |ksi|lem|on |sia| mi|arv|ava|et |ill|imi|isi|" +
+    "ka |kai|kse|lle|mis|set|sis|stä|uks|än | as| ka| lö| ol| on| tu| tä| yl|aik|ain|asi|den|ell|ene|iak|iim|in |" +
+    "inu|isä|lis|llä|löy|mit|mää|nen|ois|ole|si |sin|tar|til|ttä|täm|tää|ua |usi|uus|vat|ver|yks|ämm|ää |ään| ai|" +
+    " ar| ih| ke| ky| lu| my| oh| pi| sa| to| va| ve| yr|aa |aav|aka|akk|auk|eem|erk|est|hmi|hte|ia |ide|ien|ihm|" +
+    "iin|ila|imm|inn|ita|its|ity|jok|jot|kan|kka|kos|kym|le |li |ltä|lue|men|na |nua|oa |ohj|oim|oit|oka|otk|rit|" +
+    "ron|rvi|rvo|sa |saa|sen|sil|sim|ssa|sää|taa|ten|tie|tii|tis|tka|toi|tse|tul|tyk|täv|ue |ulo|uti|uut|vit|voi|" +
+    "vä |ydä|yli|ymm|yri|ält|ämä|ät |ääl|öyd| ap| au| av| bl| en| er| et| eu| ha| hi| ho| hy| il| ko| ku| li| lä|" +
+    " ot| pa| pä| se| sä| te| ty| us| vi| vo| vu"
+  ).split("|"),
+  ro: (
+    "ți |te | de| pe| no|le |re |de |str|și | și|ent|ru |tru| să|ntr|ste|să | ce| du|are|ast|ele|est|ii |iți|nte|" +
+    "oas|pen|pre| co| ma| ne| pr|ai |ați|car|ce |des|em |eni|enț|esp|eți|mai|men|pe |ri |ră |siț|spr|tră|ul | bu|" +
+    " ca| cu| ec| es| gă| in| mu| su| vă|ame|ate|avo|ază|con|că |dum|ea |eav|eaz|găs|ici|ie |ien|ile|mne|ne |nea|" +
+    "noi|oi |or |rea|tre|tă |ult|umn|ven|voa|vă |ză |ăsi|ții|ță | af| ai| aj| av| cl| cr| di| la| oa| re| sp| to|" +
+    " un| în| șt|ace|aic|aju|ani|ave|cel|chi|ci |cli|com|cre|cu |din|dur|ech|eea|ei |ere|evo|gra|hip|im |imp|in |" +
+    "ine|ist|jut|la |laț|lie|mul|na |nev|nii|noa|nos|nți|nță|oam|oie|ona|ont|ost|pes|pro|rat|rez|ril|sun|tem|tim|" +
+    "un |unc|unt|uri|ute|ută|veț|voi|ști| a | ab| ac| ad| an| as| au| aț| bi| bl| ch| ci| că| da| do| ei| ev| ex|" +
+    " fi| fr| fu| gh| gr| ia| im| le| li| lu| me"
+  ).split("|"),
+  hu: (
+    " a | az| sz|az |unk| és|et |nk |és | mi| va|an |at |lat|ni |ről|tal|ől | ho| me| ta|ekr|ere|fel|gy |int|meg|" +
+    "min|on |re |szo| am| el| fe| fo| in| le| tö| üg|agy|bb |ek |eke|ele|ene|gyf|hog|ind|is |kat|ket|krő|leg|mel|" +
+    "nde|nt |ogy|szü|ség|tt |töb|vag|yek|zer|ért|öbb|ügy| ad| ha| hí| is| it| ka| se| tu| vá| ér| ön| új|ak |al |" +
+    "alá|ame|apa|apc|art|asz|ato|ban|bbe|bet|csa|cso|den|eg |egt|egí|ein|el |ely|elé|en |es |for|ge |gta|gya|gyu|" +
+    "gál|gít|hír|ink|itt|iók|jon|kap|kon|koz|kre|kró|ksé|lgá|lun|lál|mén|nek|nko|nye|ola|olg|ori|pcs|rek|rt |ról|" +
+    "sa |seg|sek|sol|sze|szt|szá|tar|ten|ter|tok|tud|tve|tás|udj|van|vál|yfe|yun|zni|zok|zol|zük|ák |ála|áll|ára|" +
+    "ás |ége|égr|éke|ény|ése|ól |új |üks|ünk| ab| aj| ak| bl| cs| cé| eg| em| er| es| ez| fi| fu| hi| id| ir| jó|" +
+    " ki| ku| ké| kö| kü| mu| na| ol| pi| re| te"
+  ).split("|"),
+  id: (
+    "an |ang|ng | da| me| pe| ka|ami|kam|mi |nda| ba|and|da | an| se|kan|yan| ya| di|dan|eng|gan|men|di |nga|ntu|" +
+    "ran|uk | te|ah |ari|at |ela|mem|ri | or| pa| un|ana|apa|ata|ban|ber|emb|emu|ing|lan|man|nan|ora|pen|per|tan|" +
+    "tuk|unt| ad| at| be| ha| la| le|aan|ada|ak |ala|ama|ara|aru|bar|bih|dap|dar|den|ebi|ena|end|ent|eri|gga|ih |" +
+    "ima|itu|ka |kun|lam|leb|ngg|ngi|nya|pat|pel|ru |tah|tu |uka|ung| ak| bu| de| hu| in| ja| ni| si| ta| ti|aca|" +
+    "aha|ahu|ai |aja|ali|anj|ant|any|ar |as |asi|atk|awa|aya|bag|bun|but|car|dal|duk|ema|era|ert|eti|ga |gi |gka|" +
+    "har|hka|hub|ika|il |ila|im |in |is |jan|lah|lai|lin|luh|ma |mas|mat|mbu|mua|muk|na |ngk|nil|nju|nta|pul|ra |" +
+    "rma|rta|sel|sem|tas|ten|ter|tim|tin|tka|tuh|ua |ubu|uh |uhk|ulu|un |us |utu|ya | ac| ap| bi| bl| du| fi| gr|" +
+    " it| ji| ju| ke| kh| ku| li| lu| on| pr| pu"
+  ).split("|"),
+  ru: (
+    " на| по|ть | ва|мы |на |те | и | ко| мы|ать| в |бол|ем |наш|ов |ях | бо| до| о | пр| ра| с | чт|вам|ей |кот|" +
+    "ом |ост|ото|про|ся |тор|что|ые | вс| дл| кл| но| со|айт|ам |аше|для|иях|льш|ля |нов|оль|оры|ти |то |тов|ых |" +
+    " вы| де| за| ин| ка| лю| не| ну| от| ре| ру| са| св| уч| це|або|аем|ало|ахо|аши|ают|ая |бот|ват|вля|все|вы |" +
+    "вых|да |дес|дит|дол|дос|ее |ени|ент|есь|ете|жно|зна|иен|им |ита|ите|ить|их |йте|каз|кли|ком|лее|ли |лие|лог|" +
+    "люд|ми |му |най|нах|ния|но |нто|нуж|ны |обы|ово|овы|оди|оже|ой |олг|оле|омо|пис|под|пом|раб|род|рые|сти|сь |" +
+    "тно|том|тся|ты |ужн|учё|ход|цен|чит|чёт|ше |шем|ьше|ют |яти| а | бе| би| бл| бу| во| вр| ес| же| зд| зн| ил|" +
+    " им| к | ле| мо| оп| пя| ры| ря| се| сл| сп| су| сч| та| ты| уз| ук| уп| ус| фу| хо| ча| чи| эк| яв|ава|авк|" +
+    "авл|адо|ады|ажд|ажн|аза|азо|айд|ак |ака|акж"
+  ).split("|"),
+  uk: (
+    " на| пр|про| до| по|ми |ти | ва| за|на | ми| що| як|ати|ів |зна|наш|ся |що | в | зн| і |вам|ват|мо |му |ні |" +
+    "ро |те |ть |ува|ють| бі| дл| з | кл| но| ро| та|айт|ам |анн|ашо|ают|від|для|дос|их |ка |ків|ля |над|най|ння|" +
+    "нов|ня |ови|ому|опо|ост|отр|рим|ті |тів|ії | ви| ві| ке| ко| лю| пі| ре| ст| ці| ін|ад |ані|апи|ас |ахо|без|" +
+    "біл|ви |вка|во |дей|дов|доп|ді |ей |ень|еру|еся|ете|зап|имо|ися|ита|йте|кер|клі|ком|ку |кі |льш|люд|ліє|нах|" +
+    "ни |нті|нь |овг|ові|ода|ом |ома|она|ося|ою |пис|под|пом|пон|пот|під|род|ріб|сом|ста|та |тан|тис|три|трі|тьс|" +
+    "унк|ход|цін|ції|ше |шом|ші |ься|ьше|юде|які|ємо|єнт|ібн|ідп|ізн|іль|ію |ієн| а | аб| ба| бе| бл| бу| вк| вс|" +
+    " гр| де| ді| зв| ла| ма| мо| не| ні| об| ос| от| ра| ри| са| св| се| сл| сп| су| ти| то| ту| у | ур| ус| фу|" +
+    " ча| чи| яж| є | із|абе|або|ава|авж|авк|аво"
+  ).split("|"),
+  bg: (
+    "те | на| за| по|да |за | да|ия |ате|аши|ите| и | от|ете|ме |наш|ни |то | ва| до| ко|аме|на |про|та |ти |шия|" +
+    " пр| с |ава|ват|от |че | вс| е | кл| но| ра| се| съ|ат |ата|ва |веч|ви |дав|еки|ени|ет |ече|ки |нам|нов|ове|" +
+    "ови|ост|пов|рат|се | в | ви| въ| де| ек| им| ин| ка| ну| са| см| сп| хо| це| че| ще|або|ад |ани|ас |вам|ван|" +
+    "вас|ваш|вин|вси|дес|доб|ем |ент|есе|ест|жда|жет|зад|иен|има|ина|ини|ип |ира|ито|ичк|как|кат|кип|кли|клю|ко |" +
+    "кои|ли |лие|люч|мат|мер|нит|ния|нти|нуж|обр|ово|оит|ора|пом|пос|ра |рай|род|са |сет|си |сич|сме|спе|сти|ужд|" +
+    "хор|цен|чет|чки|шит|ще |ява| а | аб| ак| бе| би| бл| бю| вк| вр| вя| го| дъ| зн| ил| ис| къ| ле| ма| мо| не|" +
+    " ни| об| оп| оф| па| пе| ре| ръ| св| си| со| тр| ту| уп| фу| чу|авк|авл|ага|аги|ада|адв|аем|ажн|аза|ай |айн|" +
+    "айо|айт|ак |акв|ако|алн|алъ|ами|ане|анъ|ара"
+  ).split("|"),
+};
@@ -0,0 +1,267 @@
+import { load } from "cheerio";
+import { HREFLANG_FETCH_LIMIT, LOCALE_PROBE_DEFAULT_LANGUAGES, LOCALE_PROBE_LANGUAGE_LIMIT } from "./constants";
+import { classifyLocaleUrl } from "./geo-targeting";
+import { isSameUrl, parseHreflangCode } from "./hreflang";
+import { httpClient } from "./http";
+import type {
+  AnalysisContext,
+  GeoSignalScore,
+  HighlightEntry,
+  HreflangAnnotation,
+  LocaleAlternateProbe,
+  LocaleNegotiationResult,
+  LocaleProbe,
+} from "./types";
+import { createIssueTracker, incrementIssue, toHighlight } from "./utils";
+
+const PROBE_CONCURRENCY = 4;
+const PROBE_TIMEOUT_MS = 8000;
+
+interface ProbeResponse {
+  statusCode: number | null;
+  redirectsTo: string | null;
+  headers: Record<string, string | string[] | undefined>;
+  body: string | null;
+  error?: string;
+}
+
+const runQueue = async <T, R>(items: T[], task: (item: T) => Promise<R>) => {
+  const results = new Array<R>(items.length);
+  let cursor = 0;
+  const workers = Array.from({ length: Math.min(PROBE_CONCURRENCY, items.length || 1) }, async () => {
+    while (cursor < items.length) {
+      const index = cursor++;
+      results[index] = await task(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+};
+
+/** `en-US` → `en-US,en;q=0.9`, the shape browsers send. */
+const toAcceptLanguage = (tag: string) => {
+  const language = tag.split("-")[0];
+  return language && language !== tag ? `${tag},${language};q=0.9` : tag;
+};
+
+const headerValue = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value.join(", ") : value)?.trim() || null;
+
+const fetchWithoutRedirect = async (
+  url: string,
+  acceptLanguage: string | null,
+  signal?: AbortSignal,
+): Promise<ProbeResponse> => {
+  try {
+    const response = await httpClient.get(url, {
+      followRedirect: false,
+      throwHttpErrors: false,
+      responseType: "text",
+      headers: acceptLanguage ? { "Accept-Language": acceptLanguage } : {},
+      timeout: { request: PROBE_TIMEOUT_MS },
+      signal,
+    });
+    const location = response.headers.location;
+    const redirected = response.statusCode >= 300 && response.statusCode < 400;
+    return {
+      statusCode: response.statusCode,
+      redirectsTo: redirected && location ? new URL(location, url).toString() : null,
+      headers: response.headers,
+      body: response.statusCode === 200 ? response.body : null,
+    };
+  } catch (error) {
+    return { statusCode: null, redirectsTo: null, headers: {}, body: null, error: (error as Error).message };
+  }
+};
+
+const toLocaleProbe = (acceptLanguage: string | null, response: ProbeResponse): LocaleProbe => {
+  const dom = response.body ? load(response.body) : null;
+  return {
+    acceptLanguage,
+    statusCode: response.statusCode,
+    redirectsTo: response.redirectsTo,
+    htmlLang: dom?.("html").attr("lang")?.trim().toLowerCase() || null,
+    title: dom?.("title").first().text().replace(/\s+/g, " ").trim() || null,
+    contentLanguage: headerValue(response.headers["content-language"]),
+    vary: headerValue(response.headers.vary),
+    ...(response.error ? { error: response.error } : {}),
+  };
+};
+
+/** The page's target locale comes first, then hreflang languages, then common defaults. */
+const pickProbeLanguages = (annotations: HreflangAnnotation[], locale: string) => {
+  const declared = annotations
+    .filter((annotation) => annotation.hreflang.toLowerCase() !== "x-default")
+    .map((annotation) => annotation.hreflang);
+  const candidates = [locale.replace("_", "-"), ...declared, ...LOCALE_PROBE_DEFAULT_LANGUAGES];
+  const languages: string[] = [];
+  const seen = new Set<string>();
+  for (const candidate of candidates) {
+    const { language } = parseHreflangCode(candidate);
+    if (!language || seen.has(language)) continue;
+    seen.add(language);
+    languages.push(candidate);
+    if (languages.length >= LOCALE_PROBE_LANGUAGE_LIMIT) break;
+  }
+  return languages;
+};
+
+const sameTarget = (a: string | null, b: string | null) => (a && b ? isSameUrl(a, b) : a === b);
+
+/**
+ * Requests the URL with several Accept-Language headers and with none at all
+ * (as Googlebot crawls), without following redirects, to find locale
+ * negotiation that hides alternate versions from crawlers. Every hreflang
+ * alternate is then requested with a foreign Accept-Language to confirm it is
+ * served directly instead of bouncing visitors to "their" locale.
+ */
+export const probeLocaleNegotiation = async (
+  url: string,
+  annotations: HreflangAnnotation[],
+  locale: string,
+  signal?: AbortSignal,
+): Promise<LocaleNegotiationResult> => {
+  const languages = pickProbeLanguages(annotations, locale);
+  const headers = [null, ...languages.map(toAcceptLanguage)];
+  const probes = await runQueue(headers, async (acceptLanguage) =>
+    toLocaleProbe(acceptLanguage, await fetchWithoutRedirect(url, acceptLanguage, signal)),
+  );
+
+  const [baseline, ...negotiated] = probes;
+  const redirectingLanguages =
+    baseline.statusCode === null
+      ? []
+      : negotiated
+          .filter((probe) => probe.statusCode !== null && !sameTarget(probe.redirectsTo, baseline.redirectsTo))
+          .map((probe) => probe.acceptLanguage as string);
+  // A plain redirect (http → https, trailing slash) keeps the URL's locale; one into /en-us/ picks it for the visitor.
+  const defaultRedirect =
+    baseline.redirectsTo &&
+    classifyLocaleUrl(baseline.redirectsTo).strategy !== "none" &&
+    classifyLocaleUrl(url).strategy === "none"
+      ? baseline.redirectsTo
+      : null;
+  const reference = probes.find((probe) => probe.statusCode === 200);
+  const contentSwaps = reference
+    ? negotiated
+        .filter(
+          (probe) =>
+            probe !== reference &&
+            probe.statusCode === 200 &&
+            (probe.htmlLang !== reference.htmlLang || probe.title !== reference.title),
+        )
+        .map((probe) => probe.acceptLanguage as string)
+    : [];
+  const varyAcceptLanguage = probes.some((probe) =>
+    (probe.vary ?? "")
+      .split(",")
+      .map((entry) => entry.trim().toLowerCase())
+      .some((entry) => entry === "accept-language" || entry === "*"),
+  );
+
+  const targets = annotations.filter(
+    (annotation, index) =>
+      !isSameUrl(annotation.href, url) && annotations.findIndex((other) => other.href === annotation.href) === index,
+  );
+  const alternates = await runQueue(targets.slice(0, HREFLANG_FETCH_LIMIT), async (annotation) => {
+    const ownLanguage = parseHreflangCode(annotation.hreflang).language;
+    const foreign =
+      languages.find((tag) => parseHreflangCode(tag).language !== ownLanguage) ?? LOCALE_PROBE_DEFAULT_LANGUAGES[0];
+    const acceptLanguage = toAcceptLanguage(foreign);
+    const response = await fetchWithoutRedirect(annotation.href, acceptLanguage, signal);
+    const probe: LocaleAlternateProbe = {
+      hreflang: annotation.hreflang,
+      href: annotation.href,
+      acceptLanguage,
+      statusCode: response.statusCode,
+      redirectsTo: response.redirectsTo,
+      ...(response.error ? { error: response.error } : {}),
+    };
+    return probe;
+  });
+
+  return {
+    url,
+    probes,
+    varyAcceptLanguage,
+    redirectingLanguages,
+    defaultRedirect,
+    contentSwaps,
+    alternates,
+    truncated: targets.length > HREFLANG_FETCH_LIMIT,
+  };
+};
+
+/**
+ * Scores the Accept-Language probes: redirecting by language, redirecting the
+ * header-less request, swapping content without `Vary` and alternates that
+ * bounce visitors each cost points.
+ */
+export const scoreLocaleNegotiation = (ctx: Pick<AnalysisContext, "localeNegotiation" | "hreflang">): GeoSignalScore => {
+  const issues = createIssueTracker();
+  const recommendations: string[] = [];
+  const negotiation = ctx.localeNegotiation;
+  if (!negotiation) return { scoreDelta: 0, issues, recommendations, highlights: [] };
+  const negotiatesLocale = Boolean(negotiation.redirectingLanguages.length || negotiation.contentSwaps.length);
+  // Alternates the hreflang check already saw redirecting are reported there.
+  const alternatesRedirectingVisitors = negotiation.alternates.filter(
+    (entry) =>
+      entry.redirectsTo &&
+      !(ctx.hreflang?.alternates ?? []).some((alternate) => alternate.href === entry.href && alternate.redirectsTo),
+  );
+  const redirects = Boolean(negotiation.redirectingLanguages.length || negotiation.defaultRedirect);
+
+  let scoreDelta = 0;
+  if (negotiation.redirectingLanguages.length) scoreDelta -= 2;
+  if (negotiation.defaultRedirect) scoreDelta -= 1;
+  if (negotiation.contentSwaps.length && !negotiation.varyAcceptLanguage) scoreDelta -= 1;
+  if (alternatesRedirectingVisitors.length) scoreDelta -= 1;
+
+  if (negotiation.redirectingLanguages.length) {
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `The page redirects by Accept-Language (${negotiation.redirectingLanguages
+        .slice(0, 3)
+        .join("; ")}); Googlebot crawls without the header and never sees the other versions. Show a language banner instead of redirecting.`,
+    );
+  }
+  if (negotiation.defaultRedirect) {
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `Requests without Accept-Language are redirected to ${negotiation.defaultRedirect}; if the target depends on visitor IP, crawlers only ever see one locale. Serve the root as x-default or keep the redirect locale-neutral.`,
+    );
+  }
+  if (negotiation.contentSwaps.length) {
+    incrementIssue(issues, negotiation.varyAcceptLanguage ? "info" : "warning");
+    recommendations.push(
+      negotiation.varyAcceptLanguage
+        ? "Content changes with Accept-Language at the same URL; give each language its own URL so every version can be indexed."
+        : "Content changes with Accept-Language but the response has no `Vary: Accept-Language`; caches and crawlers will serve one version for all languages.",
+    );
+  }
+  if (alternatesRedirectingVisitors.length) {
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `${alternatesRedirectingVisitors.length} locale version(s) redirect visitors with a different Accept-Language (${alternatesRedirectingVisitors
+        .slice(0, 3)
+        .map((entry) => entry.hreflang)
+        .join(", ")}); every alternate must stay reachable without a redirect.`,
+    );
+  }
+
+  return {
+    scoreDelta,
+    issues,
+    recommendations,
+    highlights: [
+      toHighlight("Locale redirects", redirects ? "Yes" : "None", redirects ? "poor" : "good"),
+      negotiatesLocale
+        ? toHighlight(
+            "Vary: Accept-Language",
+            negotiation.varyAcceptLanguage ? "Yes" : "No",
+            negotiation.varyAcceptLanguage ? "good" : "warn",
+          )
+        : null,
+    ].filter(Boolean) as HighlightEntry[],
+  };
+};
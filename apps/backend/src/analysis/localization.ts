@@ -0,0 +1,535 @@
+import { bodyText } from "./content";
+import { COUNTRY_CALLING_CODES } from "./iso-codes";
+import { extractPageNap, type PageNap } from "./nap";
+import { collectStructuredDataEntities } from "./schema";
+import type { AnalysisContext, GeoSignalScore, HighlightEntry } from "./types";
+import { createIssueTracker, formatRatio, incrementIssue, toHighlight } from "./utils";
+
+type DateOrder = "DMY" | "MDY" | "YMD";
+type UnitSystem = "metric" | "imperial" | "mixed";
+
+interface MarketConventions {
+  /** ISO 4217 code. */
+  currency: string;
+  symbol: string;
+  dateOrders: DateOrder[];
+  decimalSeparators: Array<"." | ",">;
+  units: UnitSystem;
+  postalCode: RegExp;
+}
+
+export type LocalizationSignalKey =
+  | "currency"
+  | "schemaCurrency"
+  | "phones"
+  | "addresses"
+  | "dates"
+  | "numbers"
+  | "units"
+  | "payments"
+  | "shipping";
+
+export interface LocalizationSignal {
+  key: LocalizationSignalKey;
+  status: "match" | "mismatch" | "absent";
+  expected: string;
+  /** Values seen on the page, most frequent first, with their counts. */
+  found: string[];
+  /** The subset of `found` that belongs to other markets. */
+  unexpected: string[];
+}
+
+export interface LocalizationFit {
+  country: string;
+  /** Share of present signals that match the market (0–1); null when the page shows none of them. */
+  fit: number | null;
+  signals: LocalizationSignal[];
+}
+
+const EU_DMY: Pick<MarketConventions, "dateOrders" | "decimalSeparators" | "units"> = {
+  dateOrders: ["DMY"],
+  decimalSeparators: [","],
+  units: "metric",
+};
+
+const FIVE_DIGITS = /^\d{5}$/;
+const FOUR_DIGITS = /^\d{4}$/;
+
+/** Formatting conventions of the markets the analyzer knows; other countries get no fit score. */
+const MARKET_CONVENTIONS: Record<string, MarketConventions> = {
+  US: {
+    currency: "USD",
+    symbol: "$",
+    dateOrders: ["MDY"],
+    decimalSeparators: ["."],
+    units: "imperial",
+    postalCode: /^\d{5}(?:-\d{4})?$/,
+  },
+  CA: {
+    currency: "CAD",
+    symbol: "$",
+    dateOrders: ["MDY", "DMY"],
+    decimalSeparators: [".", ","],
+    units: "metric",
+    postalCode: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i,
+  },
+  GB: {
+    currency: "GBP",
+    symbol: "£",
+    dateOrders: ["DMY"],
+    decimalSeparators: ["."],
+    units: "mixed",
+    postalCode: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i,
+  },
+  IE: {
+    currency: "EUR",
+    symbol: "€",
+    dateOrders: ["DMY"],
+    decimalSeparators: ["."],
+    units: "metric",
+    postalCode: /^[A-Z]\d[\dW] ?[A-Z\d]{4}$/i,
+  },
+  DE: { currency: "EUR", symbol: "€", ...EU_DMY, postalCode: FIVE_DIGITS },
+  AT: { currency: "EUR", symbol: "€", ...EU_DMY, postalCode: FOUR_DIGITS },
+  CH: { currency: "CHF", symbol: "CHF", ...EU_DMY, decimalSeparators: [".", ","], postalCode: FOUR_DIGITS },
+  FR: { currency: "EUR", symbol: "€", ...EU_DMY, postalCode: FIVE_DIGITS },
+  BE: { currency: "EUR", symbol: "€", ...EU_DMY, postalCode: FOUR_DIGITS },
+  NL: { currency: "EUR", symbol: "€", ...EU_DMY, postalCode: /^\d{4} ?[A-Z]{2}$/i },
+  ES: { currency: "EUR", symbol: "€", ...EU_DMY, postalCode: FIVE_DIGITS },
+  PT: { currency: "EUR", symbol: "€", ...EU_DMY, postalCode: /^\d{4}-\d{3}$/ },
+  IT: { currency: "EUR", symbol: "€", ...EU_DMY, postalCode: FIVE_DIGITS },
+  FI: { currency: "EUR", symbol: "€", ...EU_DMY, postalCode: FIVE_DIGITS },
+  DK: { currency: "DKK", symbol: "kr.", ...EU_DMY, postalCode: FOUR_DIGITS },
+  NO: { currency: "NOK", symbol: "kr", ...EU_DMY, postalCode: FOUR_DIGITS },
+  SE: { currency: "SEK", symbol: "kr", ...EU_DMY, dateOrders: ["YMD", "DMY"], postalCode: /^\d{3} ?\d{2}$/ },
+  PL: { currency: "PLN", symbol: "zł", ...EU_DMY, postalCode: /^\d{2}-\d{3}$/ },
+  CZ: { currency: "CZK", symbol: "Kč", ...EU_DMY, postalCode: /^\d{3} ?\d{2}$/ },
+  TR: { currency: "TRY", symbol: "₺", ...EU_DMY, postalCode: FIVE_DIGITS },
+  RU: { currency: "RUB", symbol: "₽", ...EU_DMY, postalCode: /^\d{6}$/ },
+  BR: { currency: "BRL", symbol: "R$", ...EU_DMY, postalCode: /^\d{5}-?\d{3}$/ },
+  MX: {
+    currency: "MXN",
+    symbol: "$",
+    dateOrders: ["DMY"],
+    decimalSeparators: ["."],
+    units: "metric",
+    postalCode: FIVE_DIGITS,
+  },
+  AU: {
+    currency: "AUD",
+    symbol: "$",
+    dateOrders: ["DMY"],
+    decimalSeparators: ["."],
+    units: "metric",
+    postalCode: FOUR_DIGITS,
+  },
+  NZ: {
+    currency: "NZD",
+    symbol: "$",
+    dateOrders: ["DMY"],
+    decimalSeparators: ["."],
+    units: "metric",
+    postalCode: FOUR_DIGITS,
+  },
+  SG: {
+    currency: "SGD",
+    symbol: "$",
+    dateOrders: ["DMY"],
+    decimalSeparators: ["."],
+    units: "metric",
+    postalCode: /^\d{6}$/,
+  },
+  IN: {
+    currency: "INR",
+    symbol: "₹",
+    dateOrders: ["DMY"],
+    decimalSeparators: ["."],
+    units: "metric",
+    postalCode: /^\d{3} ?\d{3}$/,
+  },
+  JP: {
+    currency: "JPY",
+    symbol: "¥",
+    dateOrders: ["YMD"],
+    decimalSeparators: ["."],
+    units: "metric",
+    postalCode: /^\d{3}-?\d{4}$/,
+  },
+  CN: {
+    currency: "CNY",
+    symbol: "¥",
+    dateOrders: ["YMD"],
+    decimalSeparators: ["."],
+    units: "metric",
+    postalCode: /^\d{6}$/,
+  },
+  KR: {
+    currency: "KRW",
+    symbol: "₩",
+    dateOrders: ["YMD"],
+    decimalSeparators: ["."],
+    units: "metric",
+    postalCode: FIVE_DIGITS,
+  },
+};
+
+/** Price markers and the currencies they can stand for; ISO codes of every known market are added below. */
+const CURRENCY_TOKENS: Array<{ token: string; currencies: string[] }> = [
+  { token: "US$", currencies: ["USD"] },
+  { token: "CA$", currencies: ["CAD"] },
+  { token: "C$", currencies: ["CAD"] },
+  { token: "AU$", currencies: ["AUD"] },
+  { token: "A$", currencies: ["AUD"] },
+  { token: "NZ$", currencies: ["NZD"] },
+  { token: "S$", currencies: ["SGD"] },
+  { token: "R$", currencies: ["BRL"] },
+  { token: "MX$", currencies: ["MXN"] },
+  { token: "$", currencies: ["USD", "CAD", "AUD", "NZD", "SGD", "MXN"] },
+  { token: "£", currencies: ["GBP"] },
+  { token: "€", currencies: ["EUR"] },
+  { token: "¥", currencies: ["JPY", "CNY"] },
+  { token: "円", currencies: ["JPY"] },
+  { token: "元", currencies: ["CNY"] },
+  { token: "₹", currencies: ["INR"] },
+  { token: "Rs.", currencies: ["INR"] },
+  { token: "₩", currencies: ["KRW"] },
+  { token: "원", currencies: ["KRW"] },
+  { token: "₽", currencies: ["RUB"] },
+  { token: "руб.", currencies: ["RUB"] },
+  { token: "₺", currencies: ["TRY"] },
+  { token: "zł", currencies: ["PLN"] },
+  { token: "Kč", currencies: ["CZK"] },
+  { token: "kr.", currencies: ["DKK", "NOK", "SEK"] },
+  { token: "kr", currencies: ["DKK", "NOK", "SEK"] },
+  ...Array.from(new Set(Object.values(MARKET_CONVENTIONS).map((market) => market.currency))).map((code) => ({
+    token: code,
+    currencies: [code],
+  })),
+];
+
+/**
+ * Payment methods and carriers tied to specific markets. Global brands (Visa,
+ * PayPal, DHL, UPS) say nothing about the market and are left out. Patterns
+ * are case-sensitive so brand names like iDEAL or Bring do not match the
+ * ordinary words.
+ */
+const LOCAL_SERVICES: Array<{ name: string; pattern: string; kind: "payments" | "shipping"; countries: string[] }> = [
+  { name: "iDEAL", pattern: "iDEAL", kind: "payments", countries: ["NL"] },
+  { name: "Bancontact", pattern: "Bancontact", kind: "payments", countries: ["BE"] },
+  { name: "Sofort", pattern: "Sofort(?:überweisung)?|SOFORT|Klarna Sofort", kind: "payments", countries: ["DE", "AT", "CH"] },
+  { name: "giropay", pattern: "[Gg]iropay", kind: "payments", countries: ["DE"] },
+  { name: "EPS", pattern: "EPS[- ][Üü]berweisung", kind: "payments", countries: ["AT"] },
+  { name: "TWINT", pattern: "TWINT|Twint", kind: "payments", countries: ["CH"] },
+  { name: "Cartes Bancaires", pattern: "[Cc]artes? [Bb]ancaires?", kind: "payments", countries: ["FR"] },
+  { name: "Bizum", pattern: "Bizum", kind: "payments", countries: ["ES"] },
+  { name: "MB WAY", pattern: "MB ?WAY|Multibanco", kind: "payments", countries: ["PT"] },
+  { name: "Satispay", pattern: "Satispay", kind: "payments", countries: ["IT"] },
+  { name: "Swish", pattern: "Swish", kind: "payments", countries: ["SE"] },
+  { name: "Vipps", pattern: "Vipps", kind: "payments", countries: ["NO"] },
+  { name: "MobilePay", pattern: "MobilePay", kind: "payments", countries: ["DK", "FI"] },
+  { name: "BLIK", pattern: "BLIK|Przelewy24", kind: "payments", countries: ["PL"] },
+  { name: "Interac", pattern: "Interac", kind: "payments", countries: ["CA"] },
+  { name: "Venmo", pattern: "Venmo|Cash App", kind: "payments", countries: ["US"] },
+  { name: "Clearpay", pattern: "Clearpay", kind: "payments", countries: ["GB"] },
+  { name: "Afterpay", pattern: "Afterpay", kind: "payments", countries: ["AU", "NZ", "US", "CA"] },
+  { name: "Pix", pattern: "Pix|PIX|Boleto", kind: "payments", countries: ["BR"] },
+  { name: "OXXO", pattern: "OXXO|Oxxo", kind: "payments", countries: ["MX"] },
+  { name: "UPI", pattern: "UPI|RuPay|Paytm", kind: "payments", countries: ["IN"] },
+  { name: "Alipay", pattern: "Alipay|支付宝|WeChat Pay|微信支付|UnionPay|银联", kind: "payments", countries: ["CN"] },
+  { name: "Konbini", pattern: "Konbini|コンビニ払い|PayPay", kind: "payments", countries: ["JP"] },
+  { name: "KakaoPay", pattern: "Kakao ?Pay|카카오페이|Naver ?Pay|네이버페이", kind: "payments", countries: ["KR"] },
+  { name: "PayNow", pattern: "PayNow", kind: "payments", countries: ["SG"] },
+  { name: "USPS", pattern: "USPS", kind: "shipping", countries: ["US"] },
+  { name: "Canada Post", pattern: "Canada Post|Postes Canada", kind: "shipping", countries: ["CA"] },
+  { name: "Royal Mail", pattern: "Royal Mail|Parcelforce|Evri", kind: "shipping", countries: ["GB"] },
+  { name: "An Post", pattern: "An Post", kind: "shipping", countries: ["IE"] },
+  { name: "Deutsche Post", pattern: "Deutsche Post|DHL Paket|Hermes", kind: "shipping", countries: ["DE"] },
+  { name: "Österreichische Post", pattern: "Österreichische Post", kind: "shipping", countries: ["AT"] },
+  { name: "Swiss Post", pattern: "Swiss Post|Schweizerische Post|La Poste Suisse", kind: "shipping", countries: ["CH"] },
+  { name: "Colissimo", pattern: "Colissimo|Chronopost|Mondial Relay", kind: "shipping", countries: ["FR"] },
+  { name: "bpost", pattern: "bpost", kind: "shipping", countries: ["BE"] },
+  { name: "PostNL", pattern: "PostNL", kind: "shipping", countries: ["NL"] },
+  { name: "Correos", pattern: "Correos(?! de México)|SEUR", kind: "shipping", countries: ["ES"] },
+  { name: "CTT", pattern: "CTT", kind: "shipping", countries: ["PT"] },
+  { name: "Poste Italiane", pattern: "Poste Italiane|BRT|Bartolini", kind: "shipping", countries: ["IT"] },
+  { name: "PostNord", pattern: "PostNord", kind: "shipping", countries: ["SE", "DK"] },
+  { name: "Posten Bring", pattern: "Posten Bring|Posten Norge", kind: "shipping", countries: ["NO"] },
+  { name: "Posti", pattern: "Posti|Matkahuolto", kind: "shipping", countries: ["FI"] },
+  { name: "InPost", pattern: "InPost|Paczkomat|Poczta Polska", kind: "shipping", countries: ["PL"] },
+  { name: "Zásilkovna", pattern: "Zásilkovna|Česká pošta", kind: "shipping", countries: ["CZ"] },
+  { name: "Yurtiçi Kargo", pattern: "Yurtiçi Kargo|Aras Kargo|PTT Kargo", kind: "shipping", countries: ["TR"] },
+  { name: "Почта России", pattern: "Почта России|СДЭК", kind: "shipping", countries: ["RU"] },
+  { name: "Correios", pattern: "Correios|SEDEX|Sedex", kind: "shipping", countries: ["BR"] },
+  { name: "Estafeta", pattern: "Estafeta|Correos de México", kind: "shipping", countries: ["MX"] },
+  { name: "Australia Post", pattern: "Australia Post|StarTrack", kind: "shipping", countries: ["AU"] },
+  { name: "NZ Post", pattern: "NZ Post|CourierPost", kind: "shipping", countries: ["NZ"] },
+  { name: "SingPost", pattern: "SingPost|Ninja Van", kind: "shipping", countries: ["SG"] },
+  { name: "India Post", pattern: "India Post|Delhivery|Blue Dart", kind: "shipping", countries: ["IN"] },
+  { name: "Japan Post", pattern: "Japan Post|日本郵便|ヤマト運輸|佐川急便", kind: "shipping", countries: ["JP"] },
+  { name: "SF Express", pattern: "SF Express|顺丰", kind: "shipping", countries: ["CN"] },
+  { name: "CJ Logistics", pattern: "CJ대한통운|우체국택배", kind: "shipping", countries: ["KR"] },
+];
+
+const SERVICE_PATTERNS = LOCAL_SERVICES.map((service) => ({
+  ...service,
+  regex: new RegExp(`(?<![\\p{L}\\p{N}])(?:${service.pattern})(?![\\p{L}\\p{N}])`, "u"),
+}));
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const TOKEN_ALTERNATION = CURRENCY_TOKENS.map((entry) => entry.token)
+  .sort((a, b) => b.length - a.length)
+  .map(escapeRegExp)
+  .join("|");
+const AMOUNT = "\\d(?:[\\d.,'’\\u00a0 ]*\\d)?";
+const PRICE_PATTERNS = [
+  new RegExp(`(?<![\\p{L}$])(${TOKEN_ALTERNATION})\\s?(${AMOUNT})`, "gu"),
+  new RegExp(`(${AMOUNT})\\s?(${TOKEN_ALTERNATION})(?![\\p{L}])`, "gu"),
+];
+const TOKEN_CURRENCIES = new Map(CURRENCY_TOKENS.map((entry) => [entry.token, entry.currencies]));
+
+const MONTHS =
+  "jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|jun(?:e)?|jul(?:y)?|aug(?:ust)?|sep(?:t(?:ember)?)?|" +
+  "oct(?:ober)?|nov(?:ember)?|dec(?:ember)?";
+const NUMERIC_DATE_PATTERN = /(?<![\d.\/-])(\d{1,2})[/.](\d{1,2})[/.](\d{4}|\d{2})(?![\d\/-]|\.\d)/g;
+const ISO_DATE_PATTERN = /(?<!\d)\d{4}[-/.年]\d{1,2}[-/.月]\d{1,2}(?!\d)/g;
+const MONTH_FIRST_PATTERN = new RegExp(`\\b(?:${MONTHS})\\.? \\d{1,2}(?:st|nd|rd|th)?,? \\d{4}\\b`, "gi");
+const DAY_FIRST_PATTERN = new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\.? (?:${MONTHS})\\.?,? \\d{4}\\b`, "gi");
+const POINT_DECIMAL_PATTERN = /(?<![\d.,])\d{1,3}(?:,\d{3})+\.\d{1,2}(?![\d.,])/g;
+const COMMA_DECIMAL_PATTERN = /(?<![\d.,])\d{1,3}(?:\.\d{3})+,\d{1,2}(?![\d.,])/g;
+// Case-sensitive on purpose: "4G" and "5G" are mobile networks, not grams.
+const IMPERIAL_PATTERN = /\b\d+(?:[.,]\d+)?\s?(?:lbs?|oz|inch(?:es)?|ft|feet|foot|miles?|mph|yards?|gallons?|°F)(?!\p{L})/gu;
+const METRIC_PATTERN = /\b\d+(?:[.,]\d+)?\s?(?:kg|g|mg|cm|mm|km\/h|km|m|ml|l|L|litres?|liters?|°C)(?![\p{L}\/])/gu;
+const NANP_PATTERN = /^\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}$/;
+
+const tally = (values: string[]) => {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([value, count]) => `${value} (${count})`);
+};
+
+const toSignal = (
+  key: LocalizationSignalKey,
+  expected: string,
+  local: string[],
+  foreign: string[],
+): LocalizationSignal => ({
+  key,
+  // Mostly-local usage wins: a page in GBP that also quotes one USD price is still localized.
+  status: foreign.length > local.length ? "mismatch" : local.length ? "match" : "absent",
+  expected,
+  found: tally([...local, ...foreign]),
+  unexpected: tally(foreign),
+});
+
+/** Page text plus image alt text, where payment and carrier logos usually live. */
+const collectPageText = (ctx: Pick<AnalysisContext, "dom">) =>
+  [
+    bodyText(ctx.dom),
+    ...ctx.dom("img[alt], img[title]")
+      .toArray()
+      .map((node) => ctx.dom(node).attr("alt") || ctx.dom(node).attr("title") || ""),
+  ].join(" ");
+
+const checkCurrency = (text: string, market: MarketConventions) => {
+  const currencies: string[] = [];
+  const amounts: string[] = [];
+  PRICE_PATTERNS.forEach((pattern, index) => {
+    for (const match of text.matchAll(pattern)) {
+      const [token, amount] = index === 0 ? [match[1], match[2]] : [match[2], match[1]];
+      const candidates = TOKEN_CURRENCIES.get(token) ?? [];
+      currencies.push(candidates.includes(market.currency) ? market.currency : (candidates[0] ?? token));
+      amounts.push(amount.trim());
+    }
+  });
+  const local = currencies.filter((code) => code === market.currency);
+  const foreign = currencies.filter((code) => code !== market.currency);
+  return { signal: toSignal("currency", `${market.currency} (${market.symbol})`, local, foreign), amounts };
+};
+
+const checkSchemaCurrency = (ctx: Pick<AnalysisContext, "html">, market: MarketConventions) => {
+  const codes = collectStructuredDataEntities(ctx.html)
+    .map((entity) => entity.node.priceCurrency)
+    .filter((value): value is string => typeof value === "string" && value.trim().length > 0)
+    .map((value) => value.trim().toUpperCase());
+  return toSignal(
+    "schemaCurrency",
+    market.currency,
+    codes.filter((code) => code === market.currency),
+    codes.filter((code) => code !== market.currency),
+  );
+};
+
+const checkPhones = (nap: PageNap, country: string) => {
+  const calling = COUNTRY_CALLING_CODES[country];
+  const phones = [...nap.visible.phones, ...(nap.schema?.phones ?? [])];
+  const local: string[] = [];
+  const foreign: string[] = [];
+  phones.forEach((phone) => {
+    const raw = phone.raw.replace(/^tel:/i, "").trim();
+    if (/^(?:\+|00)/.test(raw) && phone.e164) {
+      const e164 = phone.e164;
+      const code = Object.values(COUNTRY_CALLING_CODES).find((entry) => e164.startsWith(`+${entry.code}`))?.code;
+      (calling && e164.startsWith(`+${calling.code}`) ? local : foreign).push(code ? `+${code}` : e164);
+    } else if (calling?.code !== "1" && NANP_PATTERN.test(raw)) {
+      // (555) 123-4567 is North American formatting, whatever country the number is parsed for.
+      foreign.push("+1");
+    } else if (calling) {
+      local.push(`+${calling.code}`);
+    }
+  });
+  return toSignal("phones", calling ? `+${calling.code}` : country, local, foreign);
+};
+
+const checkAddresses = (nap: PageNap, country: string, market: MarketConventions) => {
+  const local: string[] = [];
+  const foreign: string[] = [];
+  [...nap.visible.addresses, ...(nap.schema?.addresses ?? [])].forEach((address) => {
+    const code = address.addressCountry?.trim().toUpperCase();
+    if (code && code.length === 2) {
+      (code === country ? local : foreign).push(code);
+    } else if (address.postalCode) {
+      (market.postalCode.test(address.postalCode.trim()) ? local : foreign).push(address.postalCode.trim());
+    }
+  });
+  return toSignal("addresses", `${country} postal format`, local, foreign);
+};
+
+const checkDates = (text: string, market: MarketConventions) => {
+  const orders: DateOrder[] = [];
+  for (const match of text.matchAll(NUMERIC_DATE_PATTERN)) {
+    const first = Number(match[1]);
+    const second = Number(match[2]);
+    // Only dates with a day above 12 reveal their order.
+    if (first > 12 && second >= 1 && second <= 12) orders.push("DMY");
+    else if (second > 12 && first >= 1 && first <= 12) orders.push("MDY");
+  }
+  orders.push(...Array.from(text.matchAll(MONTH_FIRST_PATTERN), () => "MDY" as const));
+  orders.push(...Array.from(text.matchAll(DAY_FIRST_PATTERN), () => "DMY" as const));
+  // ISO dates are read correctly everywhere, so they only count as local where YMD is the convention.
+  if (market.dateOrders.includes("YMD")) orders.push(...Array.from(text.matchAll(ISO_DATE_PATTERN), () => "YMD" as const));
+  return toSignal(
+    "dates",
+    market.dateOrders.join(" or "),
+    orders.filter((order) => market.dateOrders.includes(order)),
+    orders.filter((order) => !market.dateOrders.includes(order)),
+  );
+};
+
+const checkNumbers = (text: string, amounts: string[], market: MarketConventions) => {
+  const separators: Array<"." | ","> = [
+    ...Array.from(text.matchAll(POINT_DECIMAL_PATTERN), () => "." as const),
+    ...Array.from(text.matchAll(COMMA_DECIMAL_PATTERN), () => "," as const),
+    // Two trailing digits after the last separator mark cents, so that separator is the decimal one.
+    ...amounts.flatMap<"." | ",">((amount) => {
+      const separator = amount.match(/([.,])\d{2}$/)?.[1];
+      return separator === "." || separator === "," ? [separator] : [];
+    }),
+  ];
+  const label = (value: "." | ",") => (value === "." ? "decimal point" : "decimal comma");
+  return toSignal(
+    "numbers",
+    market.decimalSeparators.map(label).join(" or "),
+    separators.filter((value) => market.decimalSeparators.includes(value)).map(label),
+    separators.filter((value) => !market.decimalSeparators.includes(value)).map(label),
+  );
+};
+
+const checkUnits = (text: string, market: MarketConventions) => {
+  const imperial = Array.from(text.matchAll(IMPERIAL_PATTERN), () => "imperial");
+  const metric = Array.from(text.matchAll(METRIC_PATTERN), () => "metric");
+  if (market.units === "mixed") return toSignal("units", "metric or imperial", [...metric, ...imperial], []);
+  return market.units === "imperial"
+    ? toSignal("units", "imperial", imperial, metric)
+    : toSignal("units", "metric", metric, imperial);
+};
+
+const checkServices = (text: string, kind: "payments" | "shipping", country: string) => {
+  const mentioned = SERVICE_PATTERNS.filter((service) => service.kind === kind && service.regex.test(text));
+  return toSignal(
+    kind,
+    `${kind === "payments" ? "payment methods" : "carriers"} used in ${country}`,
+    mentioned.filter((service) => service.countries.includes(country)).map((service) => service.name),
+    mentioned.filter((service) => !service.countries.includes(country)).map((service) => service.name),
+  );
+};
+
+/**
+ * Checks whether the page looks local to the target market: currency in
+ * prices and Offer schema, phone calling codes, address formats, date and
+ * number formatting, measurement units, and market-specific payment methods
+ * and carriers. Returns null for markets without known conventions.
+ */
+export const assessLocalizationFit = (
+  ctx: Pick<AnalysisContext, "dom" | "html" | "url" | "targetCountry">,
+): LocalizationFit | null => {
+  const country = ctx.targetCountry;
+  const market = country ? MARKET_CONVENTIONS[country] : undefined;
+  if (!country || !market) return null;
+
+  const text = collectPageText(ctx);
+  const currency = checkCurrency(text, market);
+  const nap = extractPageNap(ctx);
+  const signals = [
+    currency.signal,
+    checkSchemaCurrency(ctx, market),
+    checkPhones(nap, country),
+    checkAddresses(nap, country, market),
+    checkDates(text, market),
+    checkNumbers(text, currency.amounts, market),
+    checkUnits(text, market),
+    checkServices(text, "payments", country),
+    checkServices(text, "shipping", country),
+  ];
+  const present = signals.filter((entry) => entry.status !== "absent");
+  return {
+    country,
+    fit: present.length ? present.filter((entry) => entry.status === "match").length / present.length : null,
+    signals,
+  };
+};
+
+const GAP_DESCRIPTIONS: Record<LocalizationSignalKey, string> = {
+  currency: "Prices are shown in",
+  schemaCurrency: "Offer schema priceCurrency is",
+  phones: "Phone numbers use",
+  addresses: "Addresses are for",
+  dates: "Dates are written",
+  numbers: "Numbers use a",
+  units: "Measurements use",
+  payments: "Payment options mention",
+  shipping: "Shipping mentions",
+};
+
+/** One recommendation per mismatched signal, e.g. "Prices are shown in USD (3); GB visitors expect GBP (£)." */
+export const describeLocalizationGaps = (fit: LocalizationFit) =>
+  fit.signals
+    .filter((entry) => entry.status === "mismatch")
+    .map((entry) => {
+      const seen = entry.unexpected.slice(0, 3).join(", ");
+      return `${GAP_DESCRIPTIONS[entry.key]} ${seen}; ${fit.country} visitors expect ${entry.expected}.`;
+    });
+
+/** Scores the localization fit: below 80% costs a point, below 50% two. */
+export const scoreLocalizationFit = (fit: LocalizationFit | null): GeoSignalScore => {
+  const issues = createIssueTracker();
+  const gaps = fit ? describeLocalizationGaps(fit) : [];
+  if (gaps.length) incrementIssue(issues, "warning");
+  const ratio = fit?.fit ?? null;
+
+  return {
+    scoreDelta: ratio !== null && ratio < 0.8 ? (ratio < 0.5 ? -2 : -1) : 0,
+    issues,
+    recommendations: gaps,
+    highlights: [
+      fit && ratio !== null
+        ? toHighlight(
+            "Localization fit",
+            `${formatRatio(ratio)} (${fit.country})`,
+            ratio >= 0.8 ? "good" : ratio >= 0.5 ? "warn" : "poor",
+          )
+        : null,
+    ].filter(Boolean) as HighlightEntry[],
+  };
+};
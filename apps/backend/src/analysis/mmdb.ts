@@ -0,0 +1,224 @@
+import { readFileSync } from "node:fs";
+import { isIP } from "node:net";
+
+// Minimal reader for the MaxMind DB format (https://maxmind.github.io/MaxMind-DB/),
+// used by GeoLite2 / GeoIP2 and DB-IP Lite `.mmdb` files.
+
+const METADATA_MARKER = Buffer.from("abcdef4d61784d696e642e636f6d", "hex");
+const METADATA_MAX_SIZE = 128 * 1024;
+const DATA_SECTION_SEPARATOR = 16;
+
+export interface MmdbMetadata {
+  nodeCount: number;
+  recordSize: number;
+  ipVersion: number;
+  databaseType: string;
+  languages: string[];
+  buildEpoch: number;
+}
+
+export class MmdbFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MmdbFormatError";
+  }
+}
+
+const readUInt = (buffer: Buffer, offset: number, size: number): number | bigint => {
+  if (size <= 6) {
+    let value = 0;
+    for (let index = 0; index < size; index += 1) value = value * 256 + buffer[offset + index];
+    return value;
+  }
+  let value = 0n;
+  for (let index = 0; index < size; index += 1) value = (value << 8n) | BigInt(buffer[offset + index]);
+  return value;
+};
+
+/** Converts an IPv4 or IPv6 literal into its network-order bytes. */
+export const ipToBytes = (ip: string): Buffer => {
+  const family = isIP(ip);
+  if (family === 4) return Buffer.from(ip.split(".").map(Number));
+  if (family !== 6) throw new Error(`Invalid IP address: ${ip}`);
+
+  let address = ip.split("%")[0];
+  const embedded = address.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) {
+    const [a, b, c, d] = embedded[1].split(".").map(Number);
+    address = address.replace(embedded[1], `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`);
+  }
+  const [head, tail] = address.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail !== undefined && tail ? tail.split(":") : [];
+  const fill = tail !== undefined ? Array(8 - headGroups.length - tailGroups.length).fill("0") : [];
+  const bytes = Buffer.alloc(16);
+  [...headGroups, ...fill, ...tailGroups].forEach((group, index) => bytes.writeUInt16BE(parseInt(group, 16), index * 2));
+  return bytes;
+};
+
+export class MmdbReader {
+  readonly metadata: MmdbMetadata;
+  private readonly buffer: Buffer;
+  private readonly treeSize: number;
+  private readonly nodeByteSize: number;
+  private ipv4Start: number | null = null;
+
+  constructor(buffer: Buffer) {
+    this.buffer = buffer;
+    const searchFrom = Math.max(0, buffer.length - METADATA_MAX_SIZE);
+    const markerIndex = buffer.lastIndexOf(METADATA_MARKER);
+    if (markerIndex === -1 || markerIndex < searchFrom) {
+      throw new MmdbFormatError("Metadata section not found; not a MaxMind DB file");
+    }
+
+    const raw = this.decode(markerIndex + METADATA_MARKER.length, markerIndex + METADATA_MARKER.length).value as Record<
+      string,
+      unknown
+    >;
+    this.metadata = {
+      nodeCount: Number(raw.node_count),
+      recordSize: Number(raw.record_size),
+      ipVersion: Number(raw.ip_version),
+      databaseType: String(raw.database_type ?? ""),
+      languages: Array.isArray(raw.languages) ? raw.languages.map(String) : [],
+      buildEpoch: Number(raw.build_epoch ?? 0),
+    };
+    if (![24, 28, 32].includes(this.metadata.recordSize)) {
+      throw new MmdbFormatError(`Unsupported record size ${this.metadata.recordSize}`);
+    }
+    this.nodeByteSize = (this.metadata.recordSize * 2) / 8;
+    this.treeSize = this.nodeByteSize * this.metadata.nodeCount;
+  }
+
+  static open(path: string) {
+    return new MmdbReader(readFileSync(path));
+  }
+
+  /** Returns the data record for `ip`, or null when the address is not in the database. */
+  get<T = Record<string, unknown>>(ip: string): T | null {
+    const bytes = ipToBytes(ip);
+    if (bytes.length === 16 && this.metadata.ipVersion === 4) return null;
+
+    const bitCount = bytes.length * 8;
+    let node = bytes.length === 4 && this.metadata.ipVersion === 6 ? this.findIpv4Start() : 0;
+    const { nodeCount } = this.metadata;
+
+    for (let bit = 0; bit < bitCount && node < nodeCount; bit += 1) {
+      const direction = (bytes[bit >> 3] >> (7 - (bit % 8))) & 1;
+      node = this.readRecord(node, direction);
+    }
+
+    if (node === nodeCount) return null;
+    if (node < nodeCount) throw new MmdbFormatError("Search tree ended on an internal node");
+    const offset = node - nodeCount - DATA_SECTION_SEPARATOR;
+    return this.decode(this.treeSize + DATA_SECTION_SEPARATOR + offset).value as T;
+  }
+
+  private findIpv4Start() {
+    if (this.ipv4Start !== null) return this.ipv4Start;
+    let node = 0;
+    for (let bit = 0; bit < 96 && node < this.metadata.nodeCount; bit += 1) {
+      node = this.readRecord(node, 0);
+    }
+    this.ipv4Start = node;
+    return node;
+  }
+
+  private readRecord(node: number, direction: number) {
+    const offset = node * this.nodeByteSize;
+    const { buffer } = this;
+    switch (this.metadata.recordSize) {
+      case 24:
+        return buffer.readUIntBE(offset + direction * 3, 3);
+      case 28:
+        if (direction === 0) return ((buffer[offset + 3] & 0xf0) << 20) | buffer.readUIntBE(offset, 3);
+        return ((buffer[offset + 3] & 0x0f) << 24) | buffer.readUIntBE(offset + 4, 3);
+      default:
+        return buffer.readUInt32BE(offset + direction * 4);
+    }
+  }
+
+  /**
+   * Decodes one data field. `base` is where pointers are resolved from: the data
+   * section for records, the metadata start for metadata.
+   */
+  private decode(offset: number, base = this.treeSize + DATA_SECTION_SEPARATOR): { value: unknown; next: number } {
+    const { buffer } = this;
+    const control = buffer[offset];
+    let cursor = offset + 1;
+    let type = control >> 5;
+
+    if (type === 1) {
+      const sizeBits = (control >> 3) & 0x3;
+      const high = control & 0x7;
+      let pointer: number;
+      if (sizeBits === 0) pointer = (high << 8) | buffer[cursor];
+      else if (sizeBits === 1) pointer = ((high << 16) | buffer.readUInt16BE(cursor)) + 2048;
+      else if (sizeBits === 2) pointer = high * 0x1000000 + buffer.readUIntBE(cursor, 3) + 526336;
+      else pointer = buffer.readUInt32BE(cursor);
+      cursor += sizeBits + 1;
+      return { value: this.decode(base + pointer, base).value, next: cursor };
+    }
+
+    if (type === 0) {
+      type = 7 + buffer[cursor];
+      cursor += 1;
+    }
+
+    let size = control & 0x1f;
+    if (size === 29) {
+      size = 29 + buffer[cursor];
+      cursor += 1;
+    } else if (size === 30) {
+      size = 285 + buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (size === 31) {
+      size = 65821 + buffer.readUIntBE(cursor, 3);
+      cursor += 3;
+    }
+
+    switch (type) {
+      case 2:
+        return { value: buffer.toString("utf8", cursor, cursor + size), next: cursor + size };
+      case 3:
+        return { value: buffer.readDoubleBE(cursor), next: cursor + 8 };
+      case 4:
+        return { value: buffer.subarray(cursor, cursor + size), next: cursor + size };
+      case 5:
+      case 6:
+      case 9:
+      case 10:
+        return { value: readUInt(buffer, cursor, size), next: cursor + size };
+      case 7: {
+        const map: Record<string, unknown> = {};
+        for (let index = 0; index < size; index += 1) {
+          const key = this.decode(cursor, base);
+          const value = this.decode(key.next, base);
+          map[String(key.value)] = value.value;
+          cursor = value.next;
+        }
+        return { value: map, next: cursor };
+      }
+      case 8: {
+        const padded = Buffer.alloc(4);
+        buffer.copy(padded, 4 - size, cursor, cursor + size);
+        return { value: padded.readInt32BE(0), next: cursor + size };
+      }
+      case 11: {
+        const list: unknown[] = [];
+        for (let index = 0; index < size; index += 1) {
+          const entry = this.decode(cursor, base);
+          list.push(entry.value);
+          cursor = entry.next;
+        }
+        return { value: list, next: cursor };
+      }
+      case 14:
+        return { value: size !== 0, next: cursor };
+      case 15:
+        return { value: buffer.readFloatBE(cursor), next: cursor + 4 };
+      default:
+        throw new MmdbFormatError(`Unsupported data type ${type} at offset ${offset}`);
+    }
+  }
+}
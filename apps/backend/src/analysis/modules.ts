@@ -1,43 +1,64 @@
 import type { CheerioAPI } from "cheerio";
-import { LINK_SAMPLE_LIMIT, MODULE_DEFINITIONS, USER_AGENT } from "./constants";
+import { LINK_ROBOTS_AGENT, LINK_SAMPLE_LIMIT, MODULE_DEFINITIONS, USER_AGENT } from "./constants";
+import { computeAiReadiness } from "./ai-readiness";
+import { detectCdn, scoreHosting } from "./cdn";
+import { computeContent } from "./content";
+import { collectDetectorFindings } from "./detectors";
+import { detectGeoTargeting, scoreGeoTargeting } from "./geo-targeting";
+import { assessPageLanguage, scorePageLanguage } from "./language-id";
+import { scoreLocaleNegotiation } from "./locale-negotiation";
+import { assessLocalizationFit, scoreLocalizationFit } from "./localization";
+import { computeHeadings } from "./headings";
+import { collectHreflangAnnotations, isHealthyAlternate, scoreHreflang } from "./hreflang";
 import { httpClient } from "./http";
+import { computeImages } from "./images";
+import { computeKeywords } from "./keywords";
+import { computeLocal } from "./nap";
+import { isAllowedByRobots, parseRobotsTxt } from "./robots";
+import { assessRtl, scoreRtl } from "./rtl";
+import { evaluateSearchEngineProfile, scoreSearchEngineProfile } from "./search-engines";
+import {
+  analyzeCookies,
+  analyzeHsts,
+  analyzeIsolation,
+  analyzePermissionsPolicy,
+  analyzeReferrerPolicy,
+  detectMixedContent,
+  gradeCsp,
+  type SecuritySeverity,
+} from "./security";
+import { collectStructuredDataEntities, VALIDATED_SCHEMA_TYPES, validateSchemaEntities } from "./schema";
+import { summarizeSitemapIssues } from "./sitemap";
 import type {
   AnalysisContext,
   HighlightEntry,
   LinkSampleEntry,
   LinkSampleSummary,
+  ModuleDefinition,
+  ModuleComputer,
+  ModuleIssues,
   ModuleKey,
   ModuleResult,
-  ModuleDetails,
-  ModuleIssues,
 } from "./types";
-import { clampScore, roundScore, createIssueTracker, incrementIssue } from "./utils";
+import {
+  clampScore,
+  roundScore,
+  createIssueTracker,
+  formatMs,
+  formatRatio,
+  incrementIssue,
+  sumIssues,
+  toHighlight,
+} from "./utils";
 import { structuredDataTest } from "structured-data-testing-tool";
 
 const HEAD_TIMEOUT_MS = 5000;
 const LINK_CONCURRENCY = 5;
 
-interface ModuleComputation {
-  score: number;
-  summary: string;
-  recommendations: string[];
-  issues: ModuleIssues;
-  details: ModuleDetails;
-}
-
-type ModuleComputer = (ctx: AnalysisContext) => Promise<ModuleComputation> | ModuleComputation;
-
-const formatMs = (value: number | null | undefined) => {
-  if (value == null || Number.isNaN(value)) return null;
-  if (value >= 1000) return `${(value / 1000).toFixed(2)}s`;
-  return `${Math.round(value)}ms`;
-};
-
-const formatRatio = (value: number) => `${Math.round(value * 100)}%`;
-
-const toHighlight = (label: string, value: string | number | null | undefined, status?: HighlightEntry["status"]) => {
-  if (value == null) return null;
-  return { label, value: String(value), status };
+const SECURITY_SEVERITY_ISSUES: Record<SecuritySeverity, keyof ModuleIssues> = {
+  high: "warning",
+  medium: "warning",
+  low: "info",
 };
 
 const normalizedRel = (rel?: string) => (rel ? rel.toLowerCase() : "");
@@ -70,16 +91,13 @@ const headCheck = async (url: string, signal?: AbortSignal): Promise<LinkSampleE
   }
 };
 
-export const evaluateLinkSample = async (
-  dom: CheerioAPI,
-  origin: URL,
-  signal?: AbortSignal,
-): Promise<LinkSampleSummary> => {
+/** Collects unique same-origin anchor targets in document order. */
+export const collectInternalLinks = (dom: CheerioAPI, origin: URL, limit = Number.POSITIVE_INFINITY) => {
   const seen = new Set<string>();
-  const candidates: Array<{ url: string; rel?: string }> = [];
+  const links: Array<{ url: string; rel?: string }> = [];
 
   dom("a[href]").each((_, element) => {
-    if (candidates.length >= LINK_SAMPLE_LIMIT) return false;
+    if (links.length >= limit) return false;
     const href = dom(element).attr("href")?.trim();
     if (!href || shouldSkipHref(href)) return;
     const absolute = resolveHref(href, origin);
@@ -89,12 +107,24 @@ export const evaluateLinkSample = async (
       if (absoluteUrl.origin !== origin.origin) return;
       if (seen.has(absoluteUrl.toString())) return;
       seen.add(absoluteUrl.toString());
-      candidates.push({ url: absoluteUrl.toString(), rel: dom(element).attr("rel") ?? undefined });
+      links.push({ url: absoluteUrl.toString(), rel: dom(element).attr("rel") ?? undefined });
     } catch {
       // ignore invalid URLs
     }
   });
 
+  return links;
+};
+
+export const evaluateLinkSample = async (
+  dom: CheerioAPI,
+  origin: URL,
+  robotsTxt: string | null,
+  signal?: AbortSignal,
+): Promise<LinkSampleSummary> => {
+  const candidates = collectInternalLinks(dom, origin, LINK_SAMPLE_LIMIT);
+  const robots = parseRobotsTxt(robotsTxt);
+
   const queue = [...candidates];
   const results: LinkSampleEntry[] = [];
 
@@ -102,8 +132,13 @@ export const evaluateLinkSample = async (
     while (queue.length) {
       const next = queue.shift();
       if (!next) break;
+      // Links robots.txt disallows are reported without being requested.
+      if (!isAllowedByRobots(robots, next.url, LINK_ROBOTS_AGENT)) {
+        results.push({ url: next.url, statusCode: null, ok: false, rel: next.rel, disallowed: true });
+        continue;
+      }
       const entry = await headCheck(next.url, signal);
-      results.push({ ...entry, rel: next.rel });
+      results.push({ ...entry, rel: next.rel, disallowed: false });
     }
   });
 
@@ -112,14 +147,15 @@ export const evaluateLinkSample = async (
   return {
     total: candidates.length,
     checked: results,
-    broken: results.filter((entry) => !entry.ok),
+    broken: results.filter((entry) => !entry.ok && !entry.disallowed),
+    disallowed: results.filter((entry) => entry.disallowed),
     nofollow: candidates.filter((candidate) => normalizedRel(candidate.rel).includes("nofollow")).length,
   };
 };
 
 const computePerformance: ModuleComputer = (ctx) => {
-  const audits = ctx.psi.lighthouseResult?.audits ?? {};
-  const categories = ctx.psi.lighthouseResult?.categories ?? {};
+  const audits = ctx.psi?.lighthouseResult?.audits ?? {};
+  const categories = ctx.psi?.lighthouseResult?.categories ?? {};
   const perfScore = typeof categories.performance?.score === "number" ? categories.performance.score : 0;
   const score = roundScore((perfScore || 0) * 10);
 
@@ -175,6 +211,9 @@ const computeSchema: ModuleComputer = async (ctx) => {
   let failed = 0;
   let warnings = 0;
 
+  const entities = collectStructuredDataEntities(ctx.html);
+  const reports = validateSchemaEntities(entities);
+
   try {
     const result = await structuredDataTest(ctx.html);
     schemas = Array.from(new Set(result.schemas ?? [])).sort();
@@ -184,23 +223,66 @@ const computeSchema: ModuleComputer = async (ctx) => {
       incrementIssue(issues, "warning");
       recommendations.push("Fix structured data validation errors detected by the testing tool.");
     }
-    if (!schemas.length) {
-      incrementIssue(issues, "warning");
-      recommendations.push("Add JSON-LD markup describing key entities (WebSite, WebPage, Product, etc.).");
-    }
   } catch (error) {
     incrementIssue(issues, "warning");
     recommendations.push("Structured data validator failed; verify HTML output or reduce blocking scripts.");
   }
+  schemas = Array.from(new Set([...schemas, ...entities.map((entity) => entity.type)])).sort();
+  const syntaxes = entities
+    .filter((entity) => entity.parentType === null)
+    .reduce<Record<string, number>>((acc, entity) => {
+      acc[entity.source] = (acc[entity.source] ?? 0) + 1;
+      return acc;
+    }, {});
+  if (!schemas.length) {
+    incrementIssue(issues, "warning");
+    recommendations.push("Add JSON-LD markup describing key entities (WebSite, WebPage, Product, etc.).");
+  }
+
+  const eligible = reports.filter((report) => report.eligible);
+  const blocked = reports.filter((report) => !report.eligible);
+  const eligibleRichResults = Array.from(
+    new Set(eligible.map((report) => report.richResult).filter((value): value is string => Boolean(value))),
+  ).sort();
+
+  blocked.slice(0, 5).forEach((report) => {
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `${report.type}${report.name ? ` "${report.name}"` : ""} is not eligible for ${report.richResult} rich results: ${report.blocking.join("; ")}.`,
+    );
+  });
+  const invalidValues = reports.flatMap((report) =>
+    report.eligible ? report.invalid.map((problem) => ({ type: report.type, ...problem })) : [],
+  );
+  if (invalidValues.length) {
+    incrementIssue(issues, "info");
+    recommendations.push(
+      `Fix malformed values: ${invalidValues
+        .slice(0, 3)
+        .map((problem) => `${problem.type}.${problem.property} (${problem.reason})`)
+        .join(", ")}.`,
+    );
+  }
+  const sparse = eligible.filter((report) => report.missingRecommended.length);
+  if (sparse.length) {
+    recommendations.push(
+      `Add recommended properties to strengthen rich results: ${sparse
+        .slice(0, 3)
+        .map((report) => `${report.type} (${report.missingRecommended.slice(0, 4).join(", ")})`)
+        .join("; ")}.`,
+    );
+  }
 
   const importantSchemas = ["WebSite", "WebPage", "Organization", "Product", "BreadcrumbList", "FAQPage", "Article"];
   const importantCount = importantSchemas.filter((schema) => schemas.includes(schema)).length;
+  const eligibleRatio = reports.length ? eligible.length / reports.length : null;
 
   let score = 0;
-  if (schemas.length) score += 4;
-  score += Math.min(4, importantCount);
-  score += failed === 0 ? 2 : 0;
-  score = clampScore(score);
+  if (schemas.length) score += 3;
+  score += Math.min(3, importantCount);
+  score += failed === 0 ? 1 : 0;
+  score += eligibleRatio === null ? (schemas.length ? 1.5 : 0) : 3 * eligibleRatio;
+  score = clampScore(roundScore(score));
 
   if (!schemas.includes("WebSite")) {
     recommendations.push("Provide WebSite schema with SearchAction for better branded SERP coverage.");
@@ -211,6 +293,12 @@ const computeSchema: ModuleComputer = async (ctx) => {
 
   const highlights: HighlightEntry[] = [
     toHighlight("Schemas detected", schemas.length || 0, schemas.length ? "good" : "warn"),
+    toHighlight(
+      "Rich result eligible",
+      reports.length ? `${eligible.length}/${reports.length}` : "None",
+      blocked.length ? "warn" : reports.length ? "good" : undefined,
+    ),
+    toHighlight("Syntaxes", Object.keys(syntaxes).sort().join(", ") || "None"),
     toHighlight("Validator errors", failed || 0, failed ? "warn" : "good"),
     toHighlight("Warnings", warnings || 0, warnings ? "warn" : "good"),
   ].filter(Boolean) as HighlightEntry[];
@@ -218,75 +306,96 @@ const computeSchema: ModuleComputer = async (ctx) => {
   return {
     score,
     summary: schemas.length
-      ? `Detected ${schemas.length} structured data types.`
+      ? `Detected ${schemas.length} structured data types; ${eligible.length} of ${reports.length} rich result entities eligible.`
       : "No structured data detected on the scanned page.",
     recommendations,
     issues,
     details: {
       schemas,
+      syntaxes,
+      richResults: {
+        validatedTypes: VALIDATED_SCHEMA_TYPES,
+        eligible: eligibleRichResults,
+        entities: reports,
+      },
       highlights,
     },
   };
 };
 
 const computeGeo: ModuleComputer = (ctx) => {
-  const issues = createIssueTracker();
-  const recommendations: string[] = [];
-  const hreflangLinks = ctx.dom('link[rel="alternate"][hreflang]').toArray();
-  const hreflangCount = hreflangLinks.length;
-  const hasHreflang = hreflangCount > 0;
-  const hreflangForTarget = ctx.targetCountry
-    ? hreflangLinks.some((node) => {
-        const lang = ctx.dom(node).attr("hreflang");
-        return lang ? lang.toLowerCase().includes(ctx.targetCountry!.toLowerCase()) : false;
-      })
-    : false;
-  const ccTld = (() => {
-    const parts = ctx.url.hostname.split(".");
-    const last = parts.pop();
-    return last && last.length === 2 ? last.toUpperCase() : null;
-  })();
-  const ccTldMatches = ccTld && ctx.targetCountry ? ccTld === ctx.targetCountry : false;
-  const serverMatches = ctx.targetCountry
-    ? ctx.geo?.countryCode?.toUpperCase() === ctx.targetCountry
-    : false;
-  const sitemapHasHreflang = Boolean(ctx.sitemap?.hasHreflang);
-
-  let score = 0;
-  if (hasHreflang) score += 4;
-  if (hreflangForTarget) score += 1;
-  if (ccTldMatches) score += 2;
-  if (sitemapHasHreflang) score += 2;
-  if (serverMatches) score += 2;
-  score = clampScore(score);
-
-  if (!hasHreflang) {
-    incrementIssue(issues, "warning");
-    recommendations.push("Add hreflang annotations to signal language/region variants.");
-  }
-  if (!sitemapHasHreflang) {
-    recommendations.push("Include xhtml:link alternates inside sitemap.xml for crawl efficiency.");
-  }
-  if (ctx.targetCountry && !serverMatches) {
-    recommendations.push("Consider regional hosting/CDN POPs near target market.");
-  }
-
-  const highlights: HighlightEntry[] = [
-    toHighlight("Hreflang tags", hreflangCount, hasHreflang ? "good" : "warn"),
-    toHighlight("Sitemap alternates", sitemapHasHreflang ? "Yes" : "No", sitemapHasHreflang ? "good" : "warn"),
-    toHighlight("ccTLD match", ccTldMatches ? "Yes" : "No", ccTldMatches ? "good" : "warn"),
-    toHighlight("Server region", ctx.geo?.countryCode ?? "Unknown", serverMatches ? "good" : "warn"),
-  ].filter(Boolean) as HighlightEntry[];
+  const cluster = ctx.hreflang;
+  const annotations = cluster?.annotations ?? collectHreflangAnnotations(ctx.dom, ctx.url);
+  const targeting = detectGeoTargeting(ctx.url, annotations, ctx.sitemap);
+  const pageLanguage = assessPageLanguage(ctx, targeting.page.language);
+  const localization = assessLocalizationFit(ctx);
+  // Baidu, Yandex, Naver and Seznam lead their markets and bring their own requirements.
+  const searchEngine = evaluateSearchEngineProfile(ctx);
+  const rtl = assessRtl(ctx, pageLanguage.detected.language);
+  const cdn = detectCdn(ctx.headers, ctx.geo);
+
+  const hreflangScore = scoreHreflang(ctx, annotations);
+  const hostingScore = scoreHosting(ctx, cdn);
+  const signals = [
+    hreflangScore,
+    scoreGeoTargeting(ctx, targeting),
+    scorePageLanguage(pageLanguage),
+    scoreSearchEngineProfile(searchEngine),
+    scoreRtl(rtl, pageLanguage),
+    scoreLocalizationFit(localization),
+    scoreLocaleNegotiation(ctx),
+    hostingScore,
+  ];
+  const sitemapUrlCount = ctx.sitemap?.totalUrls ?? 0;
+  const sitemapAlternateEntries = ctx.sitemap?.entriesWithAlternates ?? 0;
+  const highlights = signals.flatMap((signal) => signal.highlights);
 
   return {
-    score,
-    summary: `${hreflangCount} hreflang entries detected; ${serverMatches ? "server geo aligns with" : "server geo differs from"} target market.`,
-    recommendations,
-    issues,
+    score: clampScore(signals.reduce((sum, signal) => sum + signal.scoreDelta, 0)),
+    summary: `${hreflangScore.summary}; ${hostingScore.summary}.`,
+    recommendations: signals.flatMap((signal) => signal.recommendations),
+    issues: sumIssues(signals.map((signal) => signal.issues)),
     details: {
-      hreflangCount,
-      ccTld,
+      hreflangCount: annotations.length,
+      hreflang: cluster
+        ? {
+            hasXDefault: cluster.hasXDefault,
+            hasSelfReference: cluster.hasSelfReference,
+            conflictingCodes: cluster.conflictingCodes,
+            truncated: cluster.truncated,
+            matrix: cluster.alternates.map((entry) => ({
+              hreflang: entry.hreflang,
+              href: entry.href,
+              self: entry.self,
+              validCode: entry.validCode,
+              codeIssue: entry.codeIssue,
+              statusCode: entry.statusCode,
+              redirectsTo: entry.redirectsTo,
+              noindex: entry.noindex,
+              canonical: entry.canonical,
+              canonicalMismatch: entry.canonicalMismatch,
+              returnLink: entry.returnLink,
+              error: entry.error,
+              healthy: isHealthyAlternate(entry),
+            })),
+          }
+        : null,
+      ccTld: targeting.host.countryCode,
+      targeting,
+      localeNegotiation: ctx.localeNegotiation,
+      pageLanguage,
+      localization,
+      searchEngine,
+      rtl,
       serverCountry: ctx.geo?.country,
+      serverAddresses: ctx.geo?.addresses ?? [],
+      geoProvider: ctx.geo?.provider ?? null,
+      cdn,
+      sitemapAlternates: {
+        entriesWithAlternates: sitemapAlternateEntries,
+        totalUrls: sitemapUrlCount,
+        coverage: sitemapUrlCount ? sitemapAlternateEntries / sitemapUrlCount : 0,
+      },
       highlights,
     },
   };
@@ -345,10 +454,26 @@ const computeSeoBasics: ModuleComputer = (ctx) => {
     recommendations.push("Remove noindex directives to allow crawling.");
   }
 
-  if (ctx.sitemap?.fetched?.some((entry) => entry.ok)) {
+  const sitemapReachable = Boolean(ctx.sitemap?.fetched?.some((entry) => entry.ok));
+  const sitemapUrlCount = ctx.sitemap?.totalUrls ?? 0;
+  const sitemapIssues = summarizeSitemapIssues(ctx.sitemap?.issues ?? []);
+  const sitemapBlocked = sitemapIssues.some((issue) => issue.severity === "critical");
+
+  if (sitemapReachable && sitemapUrlCount > 0 && !sitemapBlocked) {
     score += perCheck;
-  } else {
+  } else if (!sitemapReachable) {
     recommendations.push("Ensure sitemap.xml is accessible and referenced in robots.txt.");
+  } else if (!sitemapUrlCount) {
+    incrementIssue(issues, "warning");
+    recommendations.push("Sitemap files were found but list no page URLs; add every indexable URL.");
+  }
+
+  sitemapIssues.forEach((issue) => {
+    incrementIssue(issues, issue.severity);
+    recommendations.push(`${issue.message} (${issue.sitemaps.length} sitemap file(s)).`);
+  });
+  if (ctx.sitemap?.truncated) {
+    recommendations.push("Sitemap crawl stopped at the file limit; some sitemap index children were not validated.");
   }
 
   score = clampScore(score);
@@ -358,7 +483,8 @@ const computeSeoBasics: ModuleComputer = (ctx) => {
     toHighlight("Meta description", metaDescription.length, metaDescription.length ? "good" : "warn"),
     toHighlight("Canonical tags", canonicals.length || 0, canonicals.length === 1 ? "good" : "warn"),
     toHighlight("Indexable", indexable ? "Yes" : "No", indexable ? "good" : "poor"),
-    toHighlight("Sitemap reachable", ctx.sitemap?.fetched?.some((entry) => entry.ok) ? "Yes" : "No", ctx.sitemap?.fetched?.some((entry) => entry.ok) ? "good" : "warn"),
+    toHighlight("Sitemap URLs", sitemapReachable ? sitemapUrlCount : "Unreachable", sitemapReachable && sitemapUrlCount ? "good" : "warn"),
+    toHighlight("Sitemap issues", sitemapIssues.length, sitemapBlocked ? "poor" : sitemapIssues.length ? "warn" : "good"),
   ].filter(Boolean) as HighlightEntry[];
 
   return {
@@ -370,6 +496,13 @@ const computeSeoBasics: ModuleComputer = (ctx) => {
       title,
       metaDescription,
       indexable,
+      sitemap: {
+        files: ctx.sitemap?.fetched.length ?? 0,
+        totalUrls: sitemapUrlCount,
+        uniqueUrls: ctx.sitemap?.uniqueUrls ?? 0,
+        truncated: Boolean(ctx.sitemap?.truncated),
+        issues: sitemapIssues,
+      },
       highlights,
     },
   };
@@ -464,58 +597,150 @@ const computeSecurity: ModuleComputer = (ctx) => {
   }
 
   let score = 0;
-  const hsts = ctx.headers["strict-transport-security"];
   const xcto = ctx.headers["x-content-type-options"];
   const xfo = ctx.headers["x-frame-options"];
-  const csp = ctx.headers["content-security-policy"];
   const contentType = ctx.headers["content-type"] ?? "";
-
-  if (hsts) score += 2;
-  else recommendations.push("Add Strict-Transport-Security header.");
-
-  if (xcto?.toLowerCase().includes("nosniff")) score += 2;
+  const csp = gradeCsp(ctx.headers, ctx.dom);
+  const hsts = analyzeHsts(ctx.headers["strict-transport-security"]);
+  const cookies = analyzeCookies(ctx.headers["set-cookie"]);
+  const referrerPolicy = analyzeReferrerPolicy(ctx.headers, ctx.dom);
+  const permissionsPolicy = analyzePermissionsPolicy(ctx.headers);
+  const isolation = analyzeIsolation(ctx.headers);
+  const mixedContent = detectMixedContent(ctx.dom, csp);
+  const cspEnforced = csp.source === "header" || csp.source === "meta";
+
+  if (hsts.maxAge) score += hsts.findings.some((entry) => entry.severity !== "low") ? 1 : 2;
+
+  if (xcto?.toLowerCase().includes("nosniff")) score += 1;
   else recommendations.push("Add X-Content-Type-Options: nosniff.");
 
+  // Framing is judged here across both headers, not in the CSP grade; frame-ancestors is ignored in <meta> policies.
+  const frameAncestors = csp.source === "header" ? csp.directives["frame-ancestors"] : undefined;
   const frameProtected =
-    (xfo && !/allow/.test(xfo.toLowerCase())) ||
-    (csp && /frame-ancestors/i.test(csp) && !/frame-ancestors\s+\*/i.test(csp));
-  if (frameProtected) score += 2;
+    (xfo && !/allow/.test(xfo.toLowerCase())) || Boolean(frameAncestors && !frameAncestors.includes("*"));
+  if (frameProtected) score += 1;
   else recommendations.push("Set X-Frame-Options DENY or a CSP frame-ancestors rule.");
 
-  if (/text\/html/i.test(contentType) && /charset=/i.test(contentType)) score += 2;
+  if (/text\/html/i.test(contentType) && /charset=/i.test(contentType)) score += 1;
   else recommendations.push("Return Content-Type: text/html; charset=UTF-8.");
 
-  const mixedContent = ctx.dom("[src],[href]")
-    .toArray()
-    .filter((node) => {
-      const value = ctx.dom(node).attr("src") ?? ctx.dom(node).attr("href");
-      return value?.startsWith("http://");
-    }).length;
+  if (cspEnforced && (csp.grade === "A" || csp.grade === "B")) score += 2;
+  else if (cspEnforced && csp.grade !== "F") score += 1;
+  if (!cookies.findings.some((entry) => entry.severity === "high")) score += 1;
+  if (!referrerPolicy.findings.length) score += 1;
 
-  if (mixedContent === 0) score += 2;
-  else {
+  // Browsers block active mixed content outright and auto-upgrade or flag passive content.
+  const passiveExposed = mixedContent.passive.length && !mixedContent.upgradeInsecureRequests;
+  if (!mixedContent.active.length && !passiveExposed) score += 1;
+  if (mixedContent.active.length) {
     incrementIssue(issues, "warning");
-    recommendations.push("Mixed-content resources detected; upgrade to HTTPS.");
-  }
+    recommendations.push(
+      `Active mixed content is blocked by browsers (${mixedContent.active
+        .slice(0, 3)
+        .join(", ")}); load these scripts, styles and frames over HTTPS.`,
+    );
+  }
+  if (passiveExposed) {
+    incrementIssue(issues, "info");
+    recommendations.push(
+      `${mixedContent.passive.length} image or media URL(s) use http://; switch them to HTTPS or add CSP upgrade-insecure-requests.`,
+    );
+  }
+  // upgrade-insecure-requests also upgrades form submissions.
+  const formsExposed = mixedContent.insecureForms.length && !mixedContent.upgradeInsecureRequests;
+  if (formsExposed) {
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `${mixedContent.insecureForms.length} form(s) submit to http:// (${mixedContent.insecureForms
+        .slice(0, 3)
+        .join(", ")}); point their action at HTTPS so submitted data is encrypted.`,
+    );
+  }
+
+  [
+    ...hsts.findings,
+    ...csp.findings,
+    ...cookies.findings,
+    ...referrerPolicy.findings,
+    ...permissionsPolicy.findings,
+    ...isolation.findings,
+  ].forEach((entry) => {
+    incrementIssue(issues, SECURITY_SEVERITY_ISSUES[entry.severity]);
+    recommendations.push(entry.recommendation);
+  });
 
   score = clampScore(score);
 
   const highlights: HighlightEntry[] = [
-    toHighlight("HSTS", hsts ? "Yes" : "No", hsts ? "good" : "warn"),
+    toHighlight(
+      "HSTS",
+      hsts.maxAge ? (hsts.preloadEligible ? "Preload-ready" : "Yes") : "No",
+      hsts.maxAge ? (hsts.findings.some((entry) => entry.severity !== "low") ? "warn" : "good") : "poor",
+    ),
+    toHighlight(
+      "CSP grade",
+      csp.grade ? (cspEnforced ? csp.grade : `${csp.grade} (report-only)`) : "None",
+      csp.grade === "A" || csp.grade === "B" ? "good" : csp.grade && csp.grade !== "F" ? "warn" : "poor",
+    ),
     toHighlight("NoSniff", xcto?.toLowerCase().includes("nosniff") ? "Yes" : "No", xcto ? "good" : "warn"),
     toHighlight("Frame protection", frameProtected ? "Yes" : "No", frameProtected ? "good" : "warn"),
-    toHighlight("Mixed content refs", mixedContent, mixedContent ? "warn" : "good"),
+    cookies.cookies.length
+      ? toHighlight(
+          "Cookie flags",
+          `${cookies.cookies.filter((cookie) => cookie.secure && cookie.sameSite).length}/${cookies.cookies.length} hardened`,
+          cookies.findings.some((entry) => entry.severity === "high")
+            ? "poor"
+            : cookies.findings.length
+              ? "warn"
+              : "good",
+        )
+      : null,
+    toHighlight("Referrer-Policy", referrerPolicy.value ?? "Default", referrerPolicy.findings.length ? "warn" : "good"),
+    toHighlight(
+      "Permissions-Policy",
+      permissionsPolicy.value ? "Yes" : "No",
+      permissionsPolicy.findings.length ? "warn" : "good",
+    ),
+    toHighlight(
+      "Cross-origin isolation",
+      isolation.crossOriginIsolated ? "Yes" : isolation.coop ? `COOP ${isolation.coop}` : "No",
+      isolation.findings.length ? undefined : "good",
+    ),
+    toHighlight("Active mixed content", mixedContent.active.length, mixedContent.active.length ? "poor" : "good"),
+    toHighlight("Passive mixed content", mixedContent.passive.length, passiveExposed ? "warn" : "good"),
+    mixedContent.insecureForms.length
+      ? toHighlight("Insecure form targets", mixedContent.insecureForms.length, formsExposed ? "poor" : "warn")
+      : null,
   ].filter(Boolean) as HighlightEntry[];
 
   return {
     score,
-    summary: mixedContent ? "Security headers set but mixed content detected." : "Core security headers look good.",
+    summary: mixedContent.active.length
+      ? "Active mixed content is blocked by browsers on this page."
+      : csp.grade === "A" || csp.grade === "B"
+        ? "Security headers and content policy look strong."
+        : csp.grade
+          ? `Content-Security-Policy grades ${csp.grade}; tighten it and the remaining headers.`
+          : "No Content-Security-Policy protects this page.",
     recommendations,
     issues,
     details: {
       https: true,
-      hsts: Boolean(hsts),
-      mixedContent,
+      hsts,
+      csp,
+      cookies,
+      referrerPolicy,
+      permissionsPolicy,
+      isolation,
+      mixedContent: {
+        active: mixedContent.active.slice(0, LINK_SAMPLE_LIMIT),
+        passive: mixedContent.passive.slice(0, LINK_SAMPLE_LIMIT),
+        activeCount: mixedContent.active.length,
+        passiveCount: mixedContent.passive.length,
+        insecureForms: mixedContent.insecureForms.slice(0, LINK_SAMPLE_LIMIT),
+        insecureFormCount: mixedContent.insecureForms.length,
+        upgradeInsecureRequests: mixedContent.upgradeInsecureRequests,
+      },
       highlights,
     },
   };
@@ -587,6 +812,7 @@ const computeLinks: ModuleComputer = (ctx) => {
   const issues = createIssueTracker();
   const recommendations: string[] = [];
   const brokenCount = ctx.linkSample.broken.length;
+  const disallowedCount = ctx.linkSample.disallowed.length;
   const totalChecked = ctx.linkSample.total;
   const nofollowRatio = totalChecked ? ctx.linkSample.nofollow / totalChecked : 0;
   const brokenRatio = totalChecked ? brokenCount / totalChecked : 0;
@@ -598,6 +824,18 @@ const computeLinks: ModuleComputer = (ctx) => {
     incrementIssue(issues, "warning");
   }
 
+  if (disallowedCount) {
+    score -= Math.min(3, (totalChecked ? disallowedCount / totalChecked : 0) * 10);
+    incrementIssue(issues, "warning");
+    const examples = ctx.linkSample.disallowed
+      .slice(0, 3)
+      .map((entry) => new URL(entry.url).pathname)
+      .join(", ");
+    recommendations.push(
+      `${disallowedCount} sampled internal links are disallowed for ${LINK_ROBOTS_AGENT} by robots.txt (e.g. ${examples}); unblock them or stop linking to them.`,
+    );
+  }
+
   if (nofollowRatio > 0.2) {
     score -= Math.min(3, nofollowRatio * 5);
     recommendations.push("High nofollow ratio on internal links. Ensure important pages can receive internal equity.");
@@ -623,6 +861,7 @@ const computeLinks: ModuleComputer = (ctx) => {
   const highlights: HighlightEntry[] = [
     toHighlight("Links sampled", totalChecked || 0, totalChecked >= 10 ? "good" : "warn"),
     toHighlight("Broken links", brokenCount || 0, brokenCount ? "warn" : "good"),
+    toHighlight("Robots-blocked links", disallowedCount || 0, disallowedCount ? "warn" : "good"),
     toHighlight("Nofollow ratio", formatRatio(nofollowRatio), nofollowRatio > 0.2 ? "warn" : "good"),
     toHighlight("Indexable", indexable ? "Yes" : "No", indexable ? "good" : "poor"),
   ].filter(Boolean) as HighlightEntry[];
@@ -635,6 +874,7 @@ const computeLinks: ModuleComputer = (ctx) => {
     details: {
       totalSampled: totalChecked,
       brokenSample: ctx.linkSample.broken.slice(0, 5),
+      disallowedSample: ctx.linkSample.disallowed.slice(0, 5),
       nofollowRatio,
       highlights,
     },
@@ -650,6 +890,42 @@ const COMPUTERS: Record<ModuleKey, ModuleComputer> = {
   security: computeSecurity,
   accessibility: computeAccessibility,
   links: computeLinks,
+  ai_readiness: computeAiReadiness,
+  content: computeContent,
+  keywords: computeKeywords,
+  headings: computeHeadings,
+  images: computeImages,
+  local: computeLocal,
+};
+
+export const computeModuleResult = async (
+  definition: ModuleDefinition,
+  ctx: AnalysisContext,
+  timestamp = new Date().toISOString(),
+): Promise<ModuleResult> => {
+  const moduleResult = await COMPUTERS[definition.key](ctx);
+  const findings = collectDetectorFindings(ctx.detectors, definition.key);
+  const recommendations = Array.from(new Set([...moduleResult.recommendations, ...findings.recommendations]));
+  const issues = createIssueTracker({
+    critical: moduleResult.issues.critical + findings.issues.critical,
+    warning: moduleResult.issues.warning + findings.issues.warning,
+    info: moduleResult.issues.info + findings.issues.info,
+  });
+  const details = findings.results.length
+    ? { ...moduleResult.details, detectors: findings.results }
+    : moduleResult.details;
+
+  return {
+    key: definition.key,
+    label: definition.label,
+    weight: definition.weight,
+    score: moduleResult.score,
+    summary: moduleResult.summary,
+    recommendations,
+    issues,
+    details,
+    lastChecked: timestamp,
+  };
 };
 
 export const buildModuleResults = async (ctx: AnalysisContext): Promise<ModuleResult[]> => {
@@ -657,20 +933,10 @@ export const buildModuleResults = async (ctx: AnalysisContext): Promise<ModuleRe
   const timestamp = new Date().toISOString();
 
   for (const definition of MODULE_DEFINITIONS) {
-    const computer = COMPUTERS[definition.key];
-    if (!computer) continue;
-    const moduleResult = await computer(ctx);
-    results.push({
-      key: definition.key,
-      label: definition.label,
-      weight: definition.weight,
-      score: moduleResult.score,
-      summary: moduleResult.summary,
-      recommendations: moduleResult.recommendations,
-      issues: moduleResult.issues,
-      details: moduleResult.details,
-      lastChecked: timestamp,
-    });
+    if (!COMPUTERS[definition.key]) continue;
+    // Keyword targeting is opt-in; without keywords it would only drag the overall score down.
+    if (definition.inputs.includes("keywords") && !ctx.keywords.length) continue;
+    results.push(await computeModuleResult(definition, ctx, timestamp));
   }
 
   return results;
@@ -0,0 +1,458 @@
+import type { CheerioAPI } from "cheerio";
+import { COUNTRY_CALLING_CODES } from "./iso-codes";
+import { collectStructuredDataEntities, schemaRuleType } from "./schema";
+import { extractAddressLines, parsePostalAddress, siteName } from "./schema-suggestions";
+import type { AnalysisContext, CrawlNapSummary, CrawlNapVariant, HighlightEntry, ModuleComputer } from "./types";
+import { clampScore, createIssueTracker, incrementIssue, roundScore, toHighlight } from "./utils";
+
+// NAP = the business name, address, and phone number. Local search engines
+// cross-check these against business listings, so the visible page, the
+// structured data, and every page of the site should agree.
+
+type JsonObject = Record<string, unknown>;
+
+export interface NapPhone {
+  raw: string;
+  /** International E.164 form, or null when the number cannot be normalized. */
+  e164: string | null;
+}
+
+export interface NapAddress {
+  streetAddress: string | null;
+  addressLocality: string | null;
+  addressRegion: string | null;
+  postalCode: string | null;
+  addressCountry: string | null;
+  /** Street number, street words, and postcode in a comparable form. */
+  key: string;
+}
+
+export interface NapRecord {
+  name: string | null;
+  phones: NapPhone[];
+  addresses: NapAddress[];
+}
+
+export interface SchemaNapRecord extends NapRecord {
+  type: string | null;
+  hours: string[];
+  hoursIssues: string[];
+}
+
+export interface PageNap {
+  visible: NapRecord;
+  schema: SchemaNapRecord | null;
+}
+
+const DAY_PATTERN = "(?:Mo|Tu|We|Th|Fr|Sa|Su)";
+const TIME_PATTERN = "(?:[01]\\d|2[0-4]):[0-5]\\d";
+const OPENING_HOURS_PATTERN = new RegExp(
+  `^${DAY_PATTERN}(?:-${DAY_PATTERN})?(?:,${DAY_PATTERN}(?:-${DAY_PATTERN})?)*(?:\\s+${TIME_PATTERN}-${TIME_PATTERN}(?:,${TIME_PATTERN}-${TIME_PATTERN})*)?$`,
+);
+const SPEC_TIME_PATTERN = /^(?:[01]\d|2[0-3]):[0-5]\d(?::[0-5]\d)?$/;
+const WEEKDAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday", "PublicHolidays"];
+const PHONE_TEXT_PATTERN = /(?:\+|\b00)?\(?\d[\d\s().-]{6,}\d/g;
+const PHONE_LABEL_PATTERN = /(?:tel|tél|phone|telefon|teléfono|telefono|call|fon|mob|mobile|fax|hotline|☎|📞)[\s.:]*$/i;
+/** Copyright years and numeric dates have a phone's digit count and separators. */
+const NOT_PHONE_PATTERNS = [/^(?:19|20)\d{2}\s*[-–]\s*(?:19|20)\d{2}$/, /^\d{1,2}[./-]\d{1,2}[./-](?:19|20)\d{2}$/];
+const CONTACT_SELECTOR = 'footer, address, [class*="contact" i], [id*="contact" i], [class*="address" i]';
+const COPYRIGHT_PATTERN = /©\s*(?:copyright\s*)?(?:\d{4}(?:\s*[-–]\s*\d{4})?\s*)?([^.|\n©]{2,60}?)(?:\.|,|\s+all rights|\s*\||$)/i;
+const LEGAL_SUFFIX_PATTERN = /\b(?:inc|llc|ltd|limited|gmbh|ag|sa|sarl|bv|nv|plc|co|corp|corporation|company)\b\.?/gi;
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  st: "street",
+  str: "strasse",
+  "straße": "strasse",
+  rd: "road",
+  ave: "avenue",
+  av: "avenue",
+  blvd: "boulevard",
+  dr: "drive",
+  ln: "lane",
+  ct: "court",
+  pl: "place",
+  sq: "square",
+  hwy: "highway",
+  ste: "suite",
+};
+const SAMPLE_LIMIT = 5;
+const VARIANT_PAGE_SAMPLE = 5;
+
+const collapse = (value: string) => value.replace(/\s+/g, " ").trim();
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined || value === null ? [] : [value]);
+
+const asString = (value: unknown) => (typeof value === "string" && value.trim() ? collapse(value) : null);
+
+/**
+ * Normalizes a phone number to E.164. National numbers use the target country's
+ * calling code after dropping its trunk prefix; without a country only
+ * international (+ or 00) numbers can be normalized.
+ */
+export const toE164 = (raw: string, country: string | null): string | null => {
+  const cleaned = raw.replace(/^tel:/i, "").split(/[;,]|\s*(?:ext\.?|x)\s*\d+$/i)[0].trim();
+  let digits = cleaned.replace(/\D/g, "");
+  if (cleaned.startsWith("+")) {
+    // "+44 (0)20 ..." carries an optional trunk zero that is not dialed internationally.
+    digits = cleaned.replace(/\(0\)/, "").replace(/\D/g, "");
+  } else if (digits.startsWith("00")) {
+    digits = digits.slice(2);
+  } else {
+    const calling = country ? COUNTRY_CALLING_CODES[country] : undefined;
+    if (!calling) return null;
+    if (calling.trunkPrefix && digits.startsWith(calling.trunkPrefix)) {
+      // NANP numbers written with a leading 1 are already 11 digits.
+      digits = calling.trunkPrefix === "1" && digits.length !== 11 ? digits : digits.slice(calling.trunkPrefix.length);
+    }
+    digits = `${calling.code}${digits}`;
+  }
+  return digits.length >= 8 && digits.length <= 15 && !digits.startsWith("0") ? `+${digits}` : null;
+};
+
+const toPhone = (raw: string, country: string | null): NapPhone => ({ raw: collapse(raw), e164: toE164(raw, country) });
+
+const uniquePhones = (phones: NapPhone[]) => {
+  const seen = new Set<string>();
+  return phones.filter((phone) => {
+    const key = phone.e164 ?? phone.raw.replace(/\D/g, "");
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const streetKey = (street: string | null) =>
+  (street ?? "")
+    .toLowerCase()
+    .replace(/[.,#]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((token) => STREET_ABBREVIATIONS[token] ?? token)
+    .join(" ");
+
+export const toNapAddress = (node: JsonObject): NapAddress => {
+  const country = node.addressCountry;
+  const address = {
+    streetAddress: asString(node.streetAddress),
+    addressLocality: asString(node.addressLocality),
+    addressRegion: asString(node.addressRegion),
+    postalCode: asString(node.postalCode),
+    addressCountry: asString(country) ?? asString((country as JsonObject | null)?.name),
+  };
+  return {
+    ...address,
+    key: `${streetKey(address.streetAddress)}|${(address.postalCode ?? "").replace(/\s+/g, "").toUpperCase()}`,
+  };
+};
+
+const formatAddress = (address: NapAddress) =>
+  [address.streetAddress, address.addressLocality, [address.addressRegion, address.postalCode].filter(Boolean).join(" ")]
+    .filter(Boolean)
+    .join(", ");
+
+const normalizeName = (name: string) =>
+  collapse(name.toLowerCase().replace(LEGAL_SUFFIX_PATTERN, " ").replace(/[^\p{L}\p{N}\s&]/gu, " "));
+
+const namesMatch = (a: string, b: string) => {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  return Boolean(left && right) && (left.includes(right) || right.includes(left));
+};
+
+const addressesMatch = (a: NapAddress, b: NapAddress) => {
+  const [streetA, postalA] = a.key.split("|");
+  const [streetB, postalB] = b.key.split("|");
+  if (postalA && postalB && postalA !== postalB) return false;
+  const numberA = streetA.match(/\d+[a-z]?/)?.[0];
+  const numberB = streetB.match(/\d+[a-z]?/)?.[0];
+  if (numberA && numberB && numberA !== numberB) return false;
+  return Boolean(postalA && postalB) || streetA === streetB;
+};
+
+const phonesMatch = (a: NapPhone, b: NapPhone) =>
+  a.e164 && b.e164 ? a.e164 === b.e164 : a.raw.replace(/\D/g, "").endsWith(b.raw.replace(/\D/g, "").slice(-8));
+
+const extractVisibleName = (dom: CheerioAPI, url: URL) => {
+  const footer = collapse(dom("footer").text());
+  const copyright = footer.match(COPYRIGHT_PATTERN)?.[1]?.trim();
+  return copyright || siteName(dom, url);
+};
+
+/**
+ * Collects phone numbers from `tel:` links and contact blocks. Numbers with a
+ * "Tel"/"Phone" label are trusted; unlabelled ones only count when the page has
+ * no `tel:` link or labelled number, since footers also carry years and IDs.
+ */
+const extractVisiblePhones = (dom: CheerioAPI, country: string | null) => {
+  const linked: NapPhone[] = dom('a[href^="tel:" i]')
+    .toArray()
+    .map((node) => toPhone(dom(node).attr("href") ?? "", country));
+  const labelled: NapPhone[] = [];
+  const unlabelled: NapPhone[] = [];
+  dom(CONTACT_SELECTOR).each((_, node) => {
+    const text = dom(node).text();
+    for (const match of text.matchAll(PHONE_TEXT_PATTERN)) {
+      const candidate = match[0].trim();
+      const digits = candidate.replace(/\D/g, "").length;
+      const before = text.slice(Math.max(0, (match.index ?? 0) - 20), match.index);
+      if (/©\s*(?:copyright\s*)?$/i.test(before) || NOT_PHONE_PATTERNS.some((pattern) => pattern.test(candidate))) continue;
+      // Separators or a leading + tell phone numbers apart from years, prices, and IDs.
+      if (digits >= 8 && digits <= 15 && (/^(\+|00)/.test(candidate) || /[\s().-]/.test(candidate))) {
+        (PHONE_LABEL_PATTERN.test(before) ? labelled : unlabelled).push(toPhone(candidate, country));
+      }
+    }
+  });
+  return uniquePhones(linked.length || labelled.length ? [...linked, ...labelled] : unlabelled);
+};
+
+const extractVisibleAddresses = (dom: CheerioAPI) => {
+  const addresses = dom('address, [class*="address" i]:not(input, textarea)')
+    .toArray()
+    .map((node) => parsePostalAddress(extractAddressLines(dom(node))))
+    .filter((value): value is JsonObject => value !== null)
+    .map(toNapAddress);
+  return addresses.filter((address, index) => addresses.findIndex((entry) => entry.key === address.key) === index);
+};
+
+/** Validates `openingHours` strings and `openingHoursSpecification` objects. */
+export const validateOpeningHours = (node: JsonObject) => {
+  const hours: string[] = [];
+  const issues: string[] = [];
+  asArray(node.openingHours).forEach((value) => {
+    const text = collapse(String(value));
+    hours.push(text);
+    if (!OPENING_HOURS_PATTERN.test(text)) {
+      issues.push(`openingHours "${text}" is not in the "Mo-Fr 09:00-17:00" format`);
+    }
+  });
+  asArray(node.openingHoursSpecification).forEach((entry, index) => {
+    if (!entry || typeof entry !== "object") return;
+    const spec = entry as JsonObject;
+    const label = `openingHoursSpecification[${index}]`;
+    const days = asArray(spec.dayOfWeek).map((day) => String(day).replace(/^https?:\/\/schema\.org\//i, ""));
+    const opens = asString(spec.opens);
+    const closes = asString(spec.closes);
+    hours.push(`${days.join(",") || "?"} ${opens ?? "?"}-${closes ?? "?"}`);
+    // Seasonal or holiday overrides may pin dates instead of weekdays.
+    if (!days.length && !spec.validFrom) issues.push(`${label} has no dayOfWeek`);
+    const unknownDays = days.filter((day) => !WEEKDAYS.includes(day));
+    if (unknownDays.length) issues.push(`${label} has unknown dayOfWeek ${unknownDays.join(", ")}`);
+    if (!opens || !SPEC_TIME_PATTERN.test(opens)) issues.push(`${label} opens "${opens ?? ""}" is not HH:MM`);
+    if (!closes || !SPEC_TIME_PATTERN.test(closes)) issues.push(`${label} closes "${closes ?? ""}" is not HH:MM`);
+    // 00:00-00:00 marks a closed day; past-midnight hours must be split into two entries.
+    if (opens && closes && SPEC_TIME_PATTERN.test(opens) && SPEC_TIME_PATTERN.test(closes)) {
+      if (closes < opens && closes !== "00:00") {
+        issues.push(`${label} closes (${closes}) before it opens (${opens}); split overnight hours at midnight`);
+      }
+    }
+  });
+  return { hours, issues };
+};
+
+const extractSchemaNap = (html: string, country: string | null): SchemaNapRecord | null => {
+  const entities = collectStructuredDataEntities(html).filter((entity) => {
+    const ruleType = schemaRuleType(entity.node);
+    return ruleType === "LocalBusiness" || (ruleType === "Organization" && !entity.parentType);
+  });
+  // A LocalBusiness is the more specific claim, so it wins over a site-wide Organization.
+  const entity =
+    entities.find((entry) => schemaRuleType(entry.node) === "LocalBusiness") ??
+    entities.find((entry) => entry.node.address || entry.node.telephone);
+  if (!entity) return null;
+
+  const node = entity.node;
+  const addresses = asArray(node.address).flatMap((value) => {
+    if (value && typeof value === "object") return [toNapAddress(value as JsonObject)];
+    const parsed = typeof value === "string" ? parsePostalAddress(value.split(/\s*[,\n]\s*/)) : null;
+    return parsed ? [toNapAddress(parsed)] : [];
+  });
+  const phones = uniquePhones(
+    asArray(node.telephone)
+      .filter((value): value is string => typeof value === "string")
+      .map((value) => toPhone(value, country)),
+  );
+  const { hours, issues } = validateOpeningHours(node);
+  return { type: entity.type, name: asString(node.name), phones, addresses, hours, hoursIssues: issues };
+};
+
+export const extractPageNap = (ctx: Pick<AnalysisContext, "dom" | "html" | "url" | "targetCountry">): PageNap => ({
+  visible: {
+    name: extractVisibleName(ctx.dom, ctx.url),
+    phones: extractVisiblePhones(ctx.dom, ctx.targetCountry),
+    addresses: extractVisibleAddresses(ctx.dom),
+  },
+  schema: extractSchemaNap(ctx.html, ctx.targetCountry),
+});
+
+const hasNap = (record: NapRecord | null) => Boolean(record && (record.phones.length || record.addresses.length));
+
+export const computeLocal: ModuleComputer = (ctx) => {
+  const issues = createIssueTracker();
+  const recommendations: string[] = [];
+  const { visible, schema } = extractPageNap(ctx);
+
+  if (!hasNap(visible) && !hasNap(schema)) {
+    return {
+      score: 10,
+      summary: "No business address or phone number found; local NAP checks do not apply.",
+      recommendations,
+      issues,
+      details: { visible, schema, highlights: [] },
+    };
+  }
+
+  let score = 10;
+  const isLocalBusiness = Boolean(schema && schema.type && schemaRuleType({ "@type": schema.type }) === "LocalBusiness");
+  if (!schema || !hasNap(schema)) {
+    score -= 3;
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      "The page shows an address or phone number but no LocalBusiness markup declares them; add LocalBusiness JSON-LD with the same name, address, and telephone.",
+    );
+  }
+
+  const phoneMismatches = schema
+    ? schema.phones.filter((phone) => visible.phones.length && !visible.phones.some((entry) => phonesMatch(entry, phone)))
+    : [];
+  const phonesNotVisible = schema && !visible.phones.length ? schema.phones : [];
+  const addressMismatches = schema
+    ? schema.addresses.filter(
+        (address) => visible.addresses.length && !visible.addresses.some((entry) => addressesMatch(entry, address)),
+      )
+    : [];
+  const addressesNotVisible = schema && !visible.addresses.length ? schema.addresses : [];
+  const nameMismatch = Boolean(schema?.name && visible.name && !namesMatch(schema.name, visible.name));
+  const unnormalized = [...visible.phones, ...(schema?.phones ?? [])].filter((phone) => !phone.e164);
+  const nationalSchemaPhones = (schema?.phones ?? []).filter((phone) => phone.e164 && !/^\+/.test(phone.raw.replace(/^tel:/i, "")));
+
+  if (phoneMismatches.length) {
+    score -= 2;
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `Schema telephone ${phoneMismatches.map((phone) => phone.raw).join(", ")} does not match the number shown on the page (${visible.phones
+        .slice(0, 3)
+        .map((phone) => phone.e164 ?? phone.raw)
+        .join(", ")}).`,
+    );
+  }
+  if (addressMismatches.length) {
+    score -= 2;
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `Schema address "${formatAddress(addressMismatches[0])}" differs from the address shown on the page ("${formatAddress(visible.addresses[0])}").`,
+    );
+  }
+  if (phonesNotVisible.length || addressesNotVisible.length) {
+    score -= 1;
+    incrementIssue(issues, "warning");
+    recommendations.push(
+      `Show the marked-up ${[phonesNotVisible.length ? "phone number" : null, addressesNotVisible.length ? "address" : null]
+        .filter(Boolean)
+        .join(" and ")} as visible text; structured data should describe content users can see.`,
+    );
+  }
+  if (nameMismatch) {
+    score -= 1;
+    incrementIssue(issues, "info");
+    recommendations.push(
+      `Schema name "${schema?.name}" differs from the business name shown on the page ("${visible.name}"); use one consistent name.`,
+    );
+  }
+  if (unnormalized.length) {
+    score -= 0.5;
+    incrementIssue(issues, "info");
+    recommendations.push(
+      `Could not normalize ${unnormalized
+        .slice(0, 3)
+        .map((phone) => phone.raw)
+        .join(", ")} to an international number${ctx.targetCountry ? "" : " (no target country set)"}; write phone numbers with the + country code.`,
+    );
+  } else if (nationalSchemaPhones.length) {
+    recommendations.push(`Write the schema telephone in international format (${nationalSchemaPhones[0].e164}).`);
+  }
+  if (schema?.hoursIssues.length) {
+    score -= 1.5;
+    incrementIssue(issues, "warning");
+    recommendations.push(`Fix opening hours: ${schema.hoursIssues.slice(0, 3).join("; ")}.`);
+  } else if (isLocalBusiness && !schema?.hours.length) {
+    score -= 0.5;
+    recommendations.push("Add openingHoursSpecification to the LocalBusiness markup.");
+  }
+  score = clampScore(roundScore(score));
+
+  const consistent = !phoneMismatches.length && !addressMismatches.length && !nameMismatch;
+  const highlights: HighlightEntry[] = [
+    toHighlight("Visible phones", visible.phones.length),
+    toHighlight("Visible addresses", visible.addresses.length),
+    toHighlight("Schema NAP", schema ? schema.type : "Missing", hasNap(schema) ? "good" : "warn"),
+    toHighlight("Schema vs page", consistent ? "Consistent" : "Mismatch", consistent ? "good" : "warn"),
+    schema?.hours.length || schema?.hoursIssues.length
+      ? toHighlight("Opening hours", schema.hoursIssues.length ? "Invalid" : "Valid", schema.hoursIssues.length ? "warn" : "good")
+      : null,
+  ].filter(Boolean) as HighlightEntry[];
+
+  return {
+    score,
+    summary: consistent
+      ? `NAP found (${visible.phones.length} phone, ${visible.addresses.length} address); page and markup agree.`
+      : "Business name, address, or phone in the markup disagree with the page.",
+    recommendations,
+    issues,
+    details: {
+      visible: { ...visible, phones: visible.phones.slice(0, SAMPLE_LIMIT), addresses: visible.addresses.slice(0, SAMPLE_LIMIT) },
+      schema,
+      mismatches: {
+        name: nameMismatch,
+        phones: phoneMismatches,
+        addresses: addressMismatches.map(formatAddress),
+      },
+      highlights,
+    },
+  };
+};
+
+const collectVariants = (entries: Array<{ url: string; values: Map<string, string> }>): CrawlNapVariant[] => {
+  const variants = new Map<string, CrawlNapVariant>();
+  entries.forEach(({ url, values }) => {
+    values.forEach((display, key) => {
+      const variant = variants.get(key) ?? { value: display, pages: 0, sampleUrls: [] };
+      variant.pages += 1;
+      if (variant.sampleUrls.length < VARIANT_PAGE_SAMPLE) variant.sampleUrls.push(url);
+      variants.set(key, variant);
+    });
+  });
+  return Array.from(variants.values()).sort((a, b) => b.pages - a.pages);
+};
+
+/** Groups the NAP values found on each crawled page to expose variations across the site. */
+export const summarizeNapVariations = (pages: Array<{ url: string; nap: PageNap }>): CrawlNapSummary => {
+  const withNap = pages.filter(({ nap }) => hasNap(nap.visible) || hasNap(nap.schema));
+  const collect = (pick: (nap: PageNap) => Map<string, string>) =>
+    collectVariants(withNap.map(({ url, nap }) => ({ url, values: pick(nap) })));
+
+  // One name per page: the markup is the deliberate claim, the visible text the fallback.
+  const names = collect((nap) => {
+    const name = nap.schema?.name ?? nap.visible.name;
+    return new Map(name && normalizeName(name) ? [[normalizeName(name), name]] : []);
+  });
+  const phones = collect(
+    (nap) =>
+      new Map(
+        [...nap.visible.phones, ...(nap.schema?.phones ?? [])].map((phone) => [
+          phone.e164 ?? phone.raw.replace(/\D/g, ""),
+          phone.e164 ?? phone.raw,
+        ]),
+      ),
+  );
+  const addresses = collect(
+    (nap) =>
+      new Map([...nap.visible.addresses, ...(nap.schema?.addresses ?? [])].map((address) => [address.key, formatAddress(address)])),
+  );
+
+  return {
+    pagesWithNap: withNap.length,
+    consistent: names.length <= 1 && phones.length <= 1 && addresses.length <= 1,
+    names,
+    phones,
+    addresses,
+  };
+};
@@ -0,0 +1,170 @@
+export interface RobotsRule {
+  type: "allow" | "disallow";
+  path: string;
+  line: number;
+}
+
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay: number | null;
+}
+
+export interface ParsedRobots {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+  /** Directives outside the standard set (e.g. Host, Clean-param), keyed by lower-cased name. */
+  extensions: Record<string, string[]>;
+}
+
+export interface RobotsVerdict {
+  allowed: boolean;
+  agent: string;
+  matchedGroup: string[] | null;
+  matchedRule: RobotsRule | null;
+  crawlDelay: number | null;
+}
+
+const STANDARD_DIRECTIVES = new Set(["user-agent", "allow", "disallow", "crawl-delay", "sitemap"]);
+
+const patternCache = new Map<string, RegExp>();
+
+/** Translates a robots.txt path pattern (`*` wildcard, trailing `$` anchor) into a RegExp. */
+const toPattern = (path: string) => {
+  const cached = patternCache.get(path);
+  if (cached) return cached;
+  const anchored = path.endsWith("$");
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split("*")
+    .map((chunk) => chunk.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  const pattern = new RegExp(`^${body}${anchored ? "$" : ""}`);
+  patternCache.set(path, pattern);
+  return pattern;
+};
+
+const normalizePath = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Parses robots.txt following RFC 9309: consecutive User-agent lines share a
+ * group, rules before the first User-agent are ignored, and Sitemap lines are
+ * global regardless of where they appear.
+ */
+export const parseRobotsTxt = (text: string | null | undefined): ParsedRobots => {
+  const parsed: ParsedRobots = { groups: [], sitemaps: [], extensions: {} };
+  if (!text) return parsed;
+
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) return;
+    const directive = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (directive === "sitemap") {
+      if (value) parsed.sitemaps.push(value);
+      return;
+    }
+
+    if (directive === "user-agent") {
+      if (!current || !collectingAgents) {
+        current = { userAgents: [], rules: [], crawlDelay: null };
+        parsed.groups.push(current);
+      }
+      if (value) current.userAgents.push(value.toLowerCase());
+      collectingAgents = true;
+      return;
+    }
+
+    collectingAgents = false;
+
+    if (!STANDARD_DIRECTIVES.has(directive)) {
+      parsed.extensions[directive] = [...(parsed.extensions[directive] ?? []), value];
+      return;
+    }
+    if (!current) return;
+
+    if (directive === "allow" || directive === "disallow") {
+      // An empty Disallow means "allow everything" and carries no rule.
+      if (!value) return;
+      current.rules.push({ type: directive, path: value, line: index + 1 });
+      return;
+    }
+
+    if (directive === "crawl-delay") {
+      const delay = Number(value);
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+    }
+  });
+
+  return parsed;
+};
+
+/**
+ * Picks the rules that apply to `agent`: an exact user-agent match first, then
+ * the longest user-agent token that prefixes the agent (so Googlebot-Image
+ * falls back to Googlebot), then `*`. Groups naming the same agent are merged.
+ */
+const selectGroups = (parsed: ParsedRobots, agent: string) => {
+  const token = agent.trim().toLowerCase();
+  const named = parsed.groups.filter((group) => group.userAgents.some((ua) => ua !== "*"));
+  const exact = named.filter((group) => group.userAgents.includes(token));
+  if (exact.length) return exact;
+
+  const prefixMatches = named
+    .flatMap((group) => group.userAgents.filter((ua) => ua !== "*" && token.startsWith(ua)).map((ua) => ({ ua, group })))
+    .sort((a, b) => b.ua.length - a.ua.length);
+  if (prefixMatches.length) {
+    const best = prefixMatches[0].ua;
+    return prefixMatches.filter((entry) => entry.ua === best).map((entry) => entry.group);
+  }
+
+  return parsed.groups.filter((group) => group.userAgents.includes("*"));
+};
+
+/** Longest matching rule wins; on equal length, Allow beats Disallow. */
+export const evaluateRobots = (parsed: ParsedRobots, target: URL | string, agent: string): RobotsVerdict => {
+  const url = typeof target === "string" ? new URL(target) : target;
+  const path = normalizePath(`${url.pathname}${url.search}`);
+  const groups = selectGroups(parsed, agent);
+  const crawlDelay = groups.find((group) => group.crawlDelay !== null)?.crawlDelay ?? null;
+  const matchedGroup = groups.length ? Array.from(new Set(groups.flatMap((group) => group.userAgents))) : null;
+
+  if (url.pathname === "/robots.txt") {
+    return { allowed: true, agent, matchedGroup, matchedRule: null, crawlDelay };
+  }
+
+  let matchedRule: RobotsRule | null = null;
+  groups.forEach((group) => {
+    group.rules.forEach((rule) => {
+      if (!toPattern(normalizePath(rule.path)).test(path)) return;
+      if (
+        !matchedRule ||
+        rule.path.length > matchedRule.path.length ||
+        (rule.path.length === matchedRule.path.length && rule.type === "allow")
+      ) {
+        matchedRule = rule;
+      }
+    });
+  });
+
+  return {
+    allowed: (matchedRule as RobotsRule | null)?.type !== "disallow",
+    agent,
+    matchedGroup,
+    matchedRule,
+    crawlDelay,
+  };
+};
+
+export const isAllowedByRobots = (parsed: ParsedRobots, target: URL | string, agent: string) =>
+  evaluateRobots(parsed, target, agent).allowed;
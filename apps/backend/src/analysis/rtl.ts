@@ -0,0 +1,264 @@
+import { normalizeLanguageCode, type PageLanguageReport } from "./language-id";
+import type { AnalysisContext, GeoSignalScore, HighlightEntry } from "./types";
+import { createIssueTracker, incrementIssue, toHighlight } from "./utils";
+
+/** "info" notes carry no penalty and never fail the report. */
+export type RtlCheckStatus = "pass" | "fail" | "warn" | "info";
+
+export interface RtlCheck {
+  id: string;
+  label: string;
+  status: RtlCheckStatus;
+  detail: string;
+  /** Set for every status but "pass". */
+  recommendation?: string;
+}
+
+export interface RtlReport {
+  language: string;
+  /**
+   * What made the page count as right-to-left. "locale" means only the target
+   * locale is RTL while the page itself is not; that is a targeting mismatch,
+   * so no checks run.
+   */
+  trigger: "locale" | "content" | "htmlLang";
+  checks: RtlCheck[];
+}
+
+type Direction = "rtl" | "ltr";
+
+export const RTL_LANGUAGES = new Set(["ar", "he", "fa", "ur", "yi", "ps", "sd", "ug", "ku", "dv"]);
+
+const RTL_CHAR = /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufefc]/u;
+const LTR_CHAR = /[\p{Script=Latin}\p{Script=Cyrillic}\p{Script=Greek}\p{Script=Han}\p{Script=Hangul}]/u;
+/** Embeddings, overrides (U+202A–U+202E) and isolates (U+2066–U+2069); LRM/RLM marks are fine. */
+const BIDI_CONTROL = /[\u202a-\u202e\u2066-\u2069]/gu;
+const BIDI_OPENERS = /[\u202a\u202b\u202d\u202e\u2066-\u2068]/gu;
+const BIDI_CLOSERS = /[\u202c\u2069]/gu;
+const PHYSICAL_CSS = /(?:text-align\s*:\s*(?:left|right)|float\s*:\s*(?:left|right)|(?:margin|padding)-(?:left|right)\s*:|direction\s*:\s*ltr)/gi;
+const SAMPLE_LIMIT = 3;
+
+const check = (
+  id: string,
+  label: string,
+  status: RtlCheckStatus,
+  detail: string,
+  recommendation?: string,
+): RtlCheck => (status === "pass" ? { id, label, status, detail } : { id, label, status, detail, recommendation });
+
+const languageDirection = (value: string | null | undefined): Direction | null => {
+  const language = normalizeLanguageCode(value);
+  if (!language) return null;
+  return RTL_LANGUAGES.has(language) ? "rtl" : "ltr";
+};
+
+/** Direction of the first strong character, which is how browsers and SERPs lay out plain text. */
+const firstStrongDirection = (text: string): Direction | null => {
+  for (const char of text) {
+    if (RTL_CHAR.test(char)) return "rtl";
+    if (LTR_CHAR.test(char)) return "ltr";
+  }
+  return null;
+};
+
+const documentDirection = (ctx: Pick<AnalysisContext, "dom">) => {
+  const htmlDir = ctx.dom("html").attr("dir")?.trim().toLowerCase() || null;
+  const bodyDir = ctx.dom("body").attr("dir")?.trim().toLowerCase() || null;
+  return { htmlDir, bodyDir };
+};
+
+const checkDocumentDir = (ctx: Pick<AnalysisContext, "dom">) => {
+  const { htmlDir, bodyDir } = documentDirection(ctx);
+  if (htmlDir === "rtl") return check("dir", "Document direction", "pass", '<html dir="rtl"> is set.');
+  if (bodyDir === "rtl") {
+    return check(
+      "dir",
+      "Document direction",
+      "warn",
+      '<body dir="rtl"> is set but <html> has no dir="rtl".',
+      'Move dir="rtl" to the <html> element so the title, scrollbars and form controls follow it too.',
+    );
+  }
+  return check(
+    "dir",
+    "Document direction",
+    "fail",
+    htmlDir || bodyDir ? `Document direction is "${htmlDir ?? bodyDir}".` : "Neither <html> nor <body> sets dir.",
+    'Set <html dir="rtl"> on right-to-left pages; without it text, punctuation and layout render left to right.',
+  );
+};
+
+const metadataTexts = (ctx: Pick<AnalysisContext, "dom">) =>
+  [
+    { label: "title", text: ctx.dom("title").first().text() },
+    { label: "meta description", text: ctx.dom('meta[name="description" i]').attr("content") ?? "" },
+    { label: "og:title", text: ctx.dom('meta[property="og:title" i]').attr("content") ?? "" },
+    { label: "og:description", text: ctx.dom('meta[property="og:description" i]').attr("content") ?? "" },
+  ]
+    .map((entry) => ({ ...entry, text: entry.text.trim() }))
+    .filter((entry) => entry.text);
+
+const checkMetadataDirection = (ctx: Pick<AnalysisContext, "dom">) => {
+  const texts = metadataTexts(ctx);
+  const ltrStart = texts.filter(
+    (entry) => RTL_CHAR.test(entry.text) && firstStrongDirection(entry.text.replace(/[\u200e\u200f]/g, "")) === "ltr",
+  );
+  // An RLM before a Latin brand name keeps the snippet right to left.
+  const marked = ltrStart.filter((entry) => entry.text.startsWith("\u200f"));
+  const unmarked = ltrStart.filter((entry) => !marked.includes(entry));
+  const ltrOnly = texts.filter((entry) => !RTL_CHAR.test(entry.text) && LTR_CHAR.test(entry.text));
+  if (unmarked.length) {
+    return check(
+      "metadata-direction",
+      "Title and meta direction",
+      "warn",
+      `Mixed-direction text starts left to right in: ${unmarked.map((entry) => entry.label).join(", ")}.`,
+      "Start titles and descriptions with right-to-left text (put Latin brand names at the end) or prefix them with an RLM (U+200F) so tabs and search results lay them out right to left.",
+    );
+  }
+  if (ltrOnly.length) {
+    return check(
+      "metadata-direction",
+      "Title and meta direction",
+      "warn",
+      `No right-to-left text in: ${ltrOnly.map((entry) => entry.label).join(", ")}.`,
+      "Translate the title and meta description; search results in right-to-left markets show them as written.",
+    );
+  }
+  return check("metadata-direction", "Title and meta direction", "pass", "Title and meta tags read right to left.");
+};
+
+const checkInlineDirection = (ctx: Pick<AnalysisContext, "dom">, pageDirection: Direction) => {
+  const mismatched: string[] = [];
+  ctx.dom("body [lang], body a[hreflang]").each((_, node) => {
+    const element = ctx.dom(node);
+    const language = element.attr("lang") || element.attr("hreflang");
+    const expected = languageDirection(language);
+    if (!expected || expected === pageDirection) return;
+    const dir = element.attr("dir")?.trim().toLowerCase();
+    if (dir !== expected && dir !== "auto") mismatched.push(language as string);
+  });
+  if (!mismatched.length) {
+    return check("lang-dir", "lang and dir pairing", "pass", "Embedded other-direction languages declare their dir.");
+  }
+  const sample = Array.from(new Set(mismatched)).slice(0, SAMPLE_LIMIT).join(", ");
+  return check(
+    "lang-dir",
+    "lang and dir pairing",
+    "warn",
+    `${mismatched.length} element(s) in another direction (${sample}) have no matching dir.`,
+    'Pair lang with dir on embedded text and language-switcher links (e.g. <a hreflang="en" lang="en" dir="ltr">) so mixed-direction runs do not reorder.',
+  );
+};
+
+const checkBidiControls = (ctx: Pick<AnalysisContext, "dom">) => {
+  const texts = metadataTexts(ctx);
+  const withControls = texts.filter((entry) => entry.text.match(BIDI_CONTROL));
+  if (!withControls.length) return check("bidi-controls", "Bidi control characters", "pass", "No bidi controls in metadata.");
+  const unbalanced = withControls.filter(
+    (entry) => (entry.text.match(BIDI_OPENERS)?.length ?? 0) !== (entry.text.match(BIDI_CLOSERS)?.length ?? 0),
+  );
+  const labels = withControls.map((entry) => entry.label).join(", ");
+  return check(
+    "bidi-controls",
+    "Bidi control characters",
+    unbalanced.length ? "fail" : "warn",
+    unbalanced.length
+      ? `Unbalanced bidi embeddings or overrides in ${unbalanced.map((entry) => entry.label).join(", ")}.`
+      : `Invisible bidi embeddings or isolates in ${labels}.`,
+    "Remove embedding, override and isolate characters (U+202A–U+202E, U+2066–U+2069) from titles and meta tags; search engines show them as garbage or let them reorder the snippet. Use dir attributes or RLM/LRM marks instead.",
+  );
+};
+
+const checkPhysicalCss = (ctx: Pick<AnalysisContext, "dom">) => {
+  const inline = ctx
+    .dom("[style]")
+    .toArray()
+    .reduce((sum, node) => sum + (ctx.dom(node).attr("style")?.match(PHYSICAL_CSS)?.length ?? 0), 0);
+  const embedded = ctx
+    .dom("style")
+    .toArray()
+    .reduce((sum, node) => sum + (ctx.dom(node).text().match(PHYSICAL_CSS)?.length ?? 0), 0);
+  const total = inline + embedded;
+  return total
+    ? check(
+        "layout",
+        "Direction-neutral layout",
+        "info",
+        `${total} left/right-specific CSS declaration(s) in inline styles and <style> blocks.`,
+        "Replace left/right CSS (text-align: left, float, margin-left) with logical properties (text-align: start, margin-inline-start) so the layout mirrors in right-to-left locales.",
+      )
+    : check("layout", "Direction-neutral layout", "pass", "No left/right-specific CSS in the page.");
+};
+
+/**
+ * Runs right-to-left checks when the detected content language or
+ * `<html lang>` is Arabic, Hebrew, Persian, Urdu or another RTL language. An
+ * RTL target locale alone only yields an empty "locale" report; null for
+ * left-to-right pages and targets.
+ */
+export const assessRtl = (
+  ctx: Pick<AnalysisContext, "dom" | "locale">,
+  detectedLanguage: string | null,
+): RtlReport | null => {
+  // The page's own language decides; the target locale says what it should be, not what it is.
+  const candidates: Array<{ trigger: RtlReport["trigger"]; language: string | null }> = [
+    { trigger: "content", language: detectedLanguage },
+    { trigger: "htmlLang", language: normalizeLanguageCode(ctx.dom("html").attr("lang")) },
+  ];
+  const match = candidates.find((entry) => entry.language && RTL_LANGUAGES.has(entry.language));
+  if (!match?.language) {
+    const locale = normalizeLanguageCode(ctx.locale);
+    return locale && RTL_LANGUAGES.has(locale) ? { language: locale, trigger: "locale", checks: [] } : null;
+  }
+  return {
+    language: match.language,
+    trigger: match.trigger,
+    checks: [
+      checkDocumentDir(ctx),
+      checkMetadataDirection(ctx),
+      checkInlineDirection(ctx, "rtl"),
+      checkBidiControls(ctx),
+      checkPhysicalCss(ctx),
+    ],
+  };
+};
+
+/**
+ * Scores the RTL checks: any failure costs a point, info notes count as
+ * passed. A locale-only report becomes an info note unless the page language
+ * check already flags content in another language than the target.
+ */
+export const scoreRtl = (report: RtlReport | null, pageLanguage: PageLanguageReport): GeoSignalScore => {
+  const issues = createIssueTracker();
+  const recommendations: string[] = [];
+  if (!report) return { scoreDelta: 0, issues, recommendations, highlights: [] };
+  if (report.trigger === "locale" && !pageLanguage.mismatches.some((entry) => entry.source === "locale")) {
+    incrementIssue(issues, "info");
+    recommendations.push(
+      `The analysis targets right-to-left "${report.language}" but the page is not written in a right-to-left language; check that this is the right page for the market.`,
+    );
+  }
+  report.checks.forEach((entry) => {
+    if (entry.status === "pass" || !entry.recommendation) return;
+    incrementIssue(issues, entry.status === "fail" ? "warning" : "info");
+    recommendations.push(entry.recommendation);
+  });
+  const failures = report.checks.filter((entry) => entry.status === "fail");
+  const passed = report.checks.filter((entry) => entry.status === "pass" || entry.status === "info");
+
+  return {
+    scoreDelta: failures.length ? -1 : 0,
+    issues,
+    recommendations,
+    highlights: [
+      report.checks.length
+        ? toHighlight(
+            "RTL",
+            `${passed.length}/${report.checks.length}`,
+            failures.length ? "poor" : passed.length === report.checks.length ? "good" : "warn",
+          )
+        : null,
+    ].filter(Boolean) as HighlightEntry[],
+  };
+};
@@ -0,0 +1,350 @@
+import type { CheerioAPI } from "cheerio";
+import { collectStructuredDataEntities, validateSchemaEntity } from "./schema";
+import type { JsonLdSuggestion, JsonLdSuggestionResult } from "./types";
+
+// Builds ready-to-paste JSON-LD from what the page already shows: the URL
+// path and navigation links, the site title, logo and social profiles, a GET
+// search form, and postal addresses. Every candidate runs through the schema
+// checks and only snippets without blocking problems are returned.
+
+type JsonObject = Record<string, unknown>;
+type Selection = ReturnType<CheerioAPI>;
+
+interface Candidate {
+  type: string;
+  derivedFrom: string[];
+  jsonLd: JsonObject;
+}
+
+const SCHEMA_CONTEXT = "https://schema.org";
+const SAME_AS_LIMIT = 10;
+const TITLE_SEPARATOR_PATTERN = /\s+[|\-–—·:]\s+/;
+const SEARCH_INPUT_NAMES = ["q", "s", "query", "search", "keyword", "keywords", "term"];
+const SOCIAL_HOSTS = [
+  "facebook.com",
+  "instagram.com",
+  "linkedin.com",
+  "twitter.com",
+  "x.com",
+  "youtube.com",
+  "tiktok.com",
+  "pinterest.com",
+  "github.com",
+  "threads.net",
+  "mastodon.social",
+];
+const US_LOCALITY_PATTERN = /^(.+?),\s*([A-Z]{2})\s+(\d{5}(?:-\d{4})?)$/;
+const UK_POSTCODE_PATTERN = /^(.*?)[,\s]*\b([A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2})$/i;
+const LEADING_POSTCODE_PATTERN = /^(?:[A-Z]{1,2}-)?(\d{4,5})\s+(.+)$/;
+const PHONE_OR_EMAIL_PATTERN = /^(?:tel|phone|fax|e-?mail)\b|@|^\+?[\d\s().-]{7,}$/i;
+
+const collapse = (value: string) => value.replace(/\s+/g, " ").trim();
+
+const comparableUrl = (value: string | undefined, base: URL) => {
+  if (!value) return null;
+  try {
+    const url = new URL(value, base);
+    return `${url.origin}${url.pathname.replace(/\/+$/, "")}`;
+  } catch {
+    return null;
+  }
+};
+
+const humanizeSegment = (segment: string) => {
+  let decoded = segment;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    // keep the raw segment
+  }
+  const words = collapse(decoded.replace(/\.[a-z0-9]+$/i, "").replace(/[-_+]+/g, " "));
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const siteName = (dom: CheerioAPI, url: URL) => {
+  const ogSiteName = collapse(dom('meta[property="og:site_name"]').attr("content") ?? "");
+  if (ogSiteName) return ogSiteName;
+  const parts = collapse(dom("title").first().text()).split(TITLE_SEPARATOR_PATTERN).filter(Boolean);
+  if (parts.length > 1) return parts[parts.length - 1];
+  const label = url.hostname.replace(/^www\./, "").split(".")[0];
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+const pageName = (dom: CheerioAPI) => {
+  const h1 = collapse(dom("h1").first().text());
+  if (h1) return h1;
+  return collapse(dom("title").first().text()).split(TITLE_SEPARATOR_PATTERN)[0] ?? "";
+};
+
+/** Anchor text and resolved href per normalized URL, preferring breadcrumb and navigation containers. */
+const collectLinkLabels = (dom: CheerioAPI, base: URL) => {
+  const labels = new Map<string, { text: string; href: string }>();
+  const scopes = ['[class*="breadcrumb" i] a, [aria-label*="breadcrumb" i] a', "nav a, header a", "a"];
+  scopes.forEach((selector) => {
+    dom(selector).each((_, node) => {
+      const element = dom(node);
+      const key = comparableUrl(element.attr("href"), base);
+      const text = collapse(element.text()) || collapse(element.attr("title") ?? "");
+      if (key && text && !labels.has(key)) {
+        labels.set(key, { text, href: new URL(element.attr("href") ?? "", base).toString().split("#")[0] });
+      }
+    });
+  });
+  return labels;
+};
+
+const buildBreadcrumbs = (dom: CheerioAPI, url: URL): Candidate | null => {
+  const segments = url.pathname.split("/").filter(Boolean);
+  if (!segments.length) return null;
+  const labels = collectLinkLabels(dom, url);
+  const derivedFrom = new Set(["URL path"]);
+
+  const crumbs = [{ name: "Home", item: `${url.origin}/` }];
+  segments.forEach((segment, index) => {
+    const path = `/${segments.slice(0, index + 1).join("/")}`;
+    const isLast = index === segments.length - 1;
+    const link = labels.get(`${url.origin}${path}`);
+    if (link) derivedFrom.add("navigation links");
+    if (isLast) {
+      crumbs.push({ name: pageName(dom) || link?.text || humanizeSegment(segment), item: `${url.origin}${url.pathname}` });
+      return;
+    }
+    crumbs.push({ name: link?.text ?? humanizeSegment(segment), item: link?.href ?? `${url.origin}${path}/` });
+  });
+  const homeLabel = labels.get(url.origin)?.text;
+  if (homeLabel && homeLabel.length <= 30) crumbs[0].name = homeLabel;
+
+  return {
+    type: "BreadcrumbList",
+    derivedFrom: Array.from(derivedFrom),
+    jsonLd: {
+      "@context": SCHEMA_CONTEXT,
+      "@type": "BreadcrumbList",
+      itemListElement: crumbs.map((crumb, index) => ({
+        "@type": "ListItem",
+        position: index + 1,
+        name: crumb.name,
+        item: crumb.item,
+      })),
+    },
+  };
+};
+
+const findLogo = (dom: CheerioAPI, url: URL) => {
+  const logo = dom("img")
+    .filter((_, node) => {
+      const element = dom(node);
+      const haystack = [element.attr("class"), element.attr("id"), element.attr("alt"), element.attr("src")]
+        .join(" ")
+        .toLowerCase();
+      return haystack.includes("logo") || element.closest('[class*="logo" i], [id*="logo" i]').length > 0;
+    })
+    .first()
+    .attr("src");
+  const fallback = dom('link[rel="apple-touch-icon"]').attr("href");
+  const source = logo ?? fallback;
+  if (!source) return null;
+  try {
+    return new URL(source, url).toString();
+  } catch {
+    return null;
+  }
+};
+
+const findSocialProfiles = (dom: CheerioAPI, url: URL) => {
+  const profiles = new Set<string>();
+  dom("a[href]").each((_, node) => {
+    const href = dom(node).attr("href");
+    try {
+      const target = new URL(href ?? "", url);
+      const host = target.hostname.replace(/^www\./, "");
+      const social = SOCIAL_HOSTS.some((domain) => host === domain || host.endsWith(`.${domain}`));
+      // Share buttons point at intent endpoints, not the profile.
+      if (social && target.pathname.length > 1 && !/share|intent|sharer/i.test(target.pathname)) {
+        profiles.add(`${target.origin}${target.pathname.replace(/\/+$/, "")}`);
+      }
+    } catch {
+      // ignore malformed links
+    }
+  });
+  return Array.from(profiles).slice(0, SAME_AS_LIMIT);
+};
+
+const buildOrganization = (dom: CheerioAPI, url: URL): Candidate => {
+  const logo = findLogo(dom, url);
+  const sameAs = findSocialProfiles(dom, url);
+  const derivedFrom = ["site title"];
+  if (logo) derivedFrom.push("logo image");
+  if (sameAs.length) derivedFrom.push("social profile links");
+  return {
+    type: "Organization",
+    derivedFrom,
+    jsonLd: {
+      "@context": SCHEMA_CONTEXT,
+      "@type": "Organization",
+      name: siteName(dom, url),
+      url: `${url.origin}/`,
+      ...(logo ? { logo } : {}),
+      ...(sameAs.length ? { sameAs } : {}),
+    },
+  };
+};
+
+const findSearchForm = (dom: CheerioAPI, url: URL) => {
+  const forms = dom("form").toArray();
+  for (const node of forms) {
+    const form = dom(node);
+    if ((form.attr("method") ?? "get").toLowerCase() !== "get") continue;
+    const input = form
+      .find("input")
+      .filter((_, field) => {
+        const element = dom(field);
+        const name = element.attr("name")?.toLowerCase() ?? "";
+        return Boolean(name) && (element.attr("type") === "search" || SEARCH_INPUT_NAMES.includes(name));
+      })
+      .first();
+    const name = input.attr("name");
+    if (!name) continue;
+    try {
+      const action = new URL(form.attr("action") || url.pathname, url);
+      const query = action.search ? `${action.search.slice(1)}&` : "";
+      return `${action.origin}${action.pathname}?${query}${encodeURIComponent(name)}={search_term_string}`;
+    } catch {
+      continue;
+    }
+  }
+  return null;
+};
+
+const buildWebSite = (dom: CheerioAPI, url: URL): Candidate => {
+  const searchTarget = findSearchForm(dom, url);
+  return {
+    type: "WebSite",
+    derivedFrom: searchTarget ? ["site title", "search form"] : ["site title"],
+    jsonLd: {
+      "@context": SCHEMA_CONTEXT,
+      "@type": "WebSite",
+      name: siteName(dom, url),
+      url: `${url.origin}/`,
+      ...(searchTarget
+        ? {
+            potentialAction: {
+              "@type": "SearchAction",
+              target: { "@type": "EntryPoint", urlTemplate: searchTarget },
+              "query-input": "required name=search_term_string",
+            },
+          }
+        : {}),
+    },
+  };
+};
+
+export const extractAddressLines = (element: Selection) => {
+  const clone = element.clone();
+  clone.find("br").replaceWith("\n");
+  clone.find("p, div, li").append("\n");
+  return clone
+    .text()
+    .split(/\n|\s{2,}/)
+    .map(collapse)
+    .filter((line) => line && !PHONE_OR_EMAIL_PATTERN.test(line));
+};
+
+/** Best-effort split of free-form address text into PostalAddress fields (US, UK, and postcode-first formats). */
+export const parsePostalAddress = (lines: string[]): JsonObject | null => {
+  const address: JsonObject = { "@type": "PostalAddress" };
+  const rest: string[] = [];
+  lines.forEach((line) => {
+    if (address.postalCode) {
+      rest.push(line);
+      return;
+    }
+    const us = line.match(US_LOCALITY_PATTERN);
+    if (us) {
+      Object.assign(address, { addressLocality: us[1], addressRegion: us[2], postalCode: us[3], addressCountry: "US" });
+      return;
+    }
+    const leading = line.match(LEADING_POSTCODE_PATTERN);
+    if (leading) {
+      Object.assign(address, { postalCode: leading[1], addressLocality: collapse(leading[2]) });
+      return;
+    }
+    const uk = line.match(UK_POSTCODE_PATTERN);
+    if (uk && /\d[A-Z]{2}$/i.test(uk[2])) {
+      const locality = collapse(uk[1].replace(/,$/, ""));
+      Object.assign(address, { postalCode: uk[2].toUpperCase(), addressCountry: "GB" });
+      if (locality) address.addressLocality = locality;
+      return;
+    }
+    rest.push(line);
+  });
+  if (!address.postalCode) return null;
+  const street = rest.find((line) => /\d/.test(line)) ?? rest[0];
+  if (street) address.streetAddress = street;
+  const trailing = rest[rest.length - 1];
+  if (!address.addressCountry && trailing && trailing !== street && /^[\p{L} ]+$/u.test(trailing)) {
+    address.addressCountry = trailing;
+  }
+  return address.streetAddress ? address : null;
+};
+
+const buildLocalBusiness = (dom: CheerioAPI, url: URL): Candidate | null => {
+  const containers = dom('address, [class*="address" i]:not(input, textarea)').toArray();
+  const address = containers
+    .map((node) => parsePostalAddress(extractAddressLines(dom(node))))
+    .find((value): value is JsonObject => value !== null);
+  if (!address) return null;
+  const telephone = dom('a[href^="tel:"]').first().attr("href")?.replace(/^tel:/i, "").trim();
+  return {
+    type: "LocalBusiness",
+    derivedFrom: telephone ? ["address block", "tel: link"] : ["address block"],
+    jsonLd: {
+      "@context": SCHEMA_CONTEXT,
+      "@type": "LocalBusiness",
+      name: siteName(dom, url),
+      url: `${url.origin}/`,
+      address,
+      ...(telephone ? { telephone } : {}),
+    },
+  };
+};
+
+const toSnippet = (jsonLd: JsonObject) =>
+  `<script type="application/ld+json">\n${JSON.stringify(jsonLd, null, 2)}\n</script>`;
+
+export const generateJsonLdSuggestions = (dom: CheerioAPI, html: string, url: URL): JsonLdSuggestionResult => {
+  const existingTypes = Array.from(
+    new Set(collectStructuredDataEntities(html).map((entity) => entity.type)),
+  ).sort();
+  const candidates = [
+    buildBreadcrumbs(dom, url),
+    buildOrganization(dom, url),
+    buildWebSite(dom, url),
+    buildLocalBusiness(dom, url),
+  ].filter((candidate): candidate is Candidate => candidate !== null);
+
+  const suggestions: JsonLdSuggestion[] = [];
+  const rejected: JsonLdSuggestionResult["rejected"] = [];
+  candidates.forEach((candidate) => {
+    const validation = validateSchemaEntity({
+      type: candidate.type,
+      source: "json-ld",
+      node: candidate.jsonLd,
+      parentType: null,
+    });
+    if (validation && !validation.eligible) {
+      rejected.push({ type: candidate.type, reasons: validation.blocking });
+      return;
+    }
+    suggestions.push({
+      type: candidate.type,
+      derivedFrom: candidate.derivedFrom,
+      alreadyPresent: existingTypes.includes(candidate.type),
+      jsonLd: candidate.jsonLd,
+      snippet: toSnippet(candidate.jsonLd),
+      validation,
+    });
+  });
+
+  return { url: url.toString(), existingTypes, suggestions, rejected };
+};
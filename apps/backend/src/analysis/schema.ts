@@ -0,0 +1,439 @@
+import { parseHTML } from "linkedom";
+import type { StructuredDataSyntax } from "../detectors/types";
+import { extractStructuredDataPayloads } from "../detectors/utils";
+
+// Property requirements follow Google Search Central's structured data
+// documentation for each rich result. A property written as "a|b" is
+// satisfied by either alternative; dotted paths descend into nested objects
+// and arrays (any element may satisfy them).
+
+type JsonObject = Record<string, unknown>;
+
+interface SchemaRule {
+  type: string;
+  /** Schema.org subtypes validated with the same rule. */
+  subtypes?: string[];
+  richResult: string | null;
+  required: string[];
+  recommended: string[];
+  /** Extra structural checks beyond property presence; returned messages block eligibility. */
+  check?: (node: JsonObject) => string[];
+  note?: string;
+}
+
+export interface SchemaEntity {
+  type: string;
+  source: StructuredDataSyntax;
+  node: JsonObject;
+  parentType: string | null;
+}
+
+export interface SchemaPropertyProblem {
+  property: string;
+  value: string;
+  reason: string;
+}
+
+export interface SchemaEntityReport {
+  type: string;
+  /** The rule the entity was validated against (e.g. "LocalBusiness" for a Restaurant). */
+  ruleType: string;
+  source: StructuredDataSyntax;
+  name: string | null;
+  parentType: string | null;
+  richResult: string | null;
+  eligible: boolean;
+  missingRequired: string[];
+  missingRecommended: string[];
+  invalid: SchemaPropertyProblem[];
+  /** Messages explaining what keeps the entity out of its rich result. */
+  blocking: string[];
+  note?: string;
+}
+
+const DATE_PROPERTIES = new Set([
+  "datePublished",
+  "dateModified",
+  "uploadDate",
+  "startDate",
+  "endDate",
+  "datePosted",
+  "validThrough",
+  "priceValidUntil",
+  "expires",
+]);
+const DURATION_PROPERTIES = new Set(["duration", "totalTime", "prepTime", "cookTime"]);
+const NUMERIC_PROPERTIES = new Set([
+  "price",
+  "lowPrice",
+  "highPrice",
+  "ratingValue",
+  "bestRating",
+  "worstRating",
+  "reviewCount",
+  "ratingCount",
+]);
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const ISO_DURATION_PATTERN = /^P(?!$)(?:\d+(?:\.\d+)?Y)?(?:\d+(?:\.\d+)?M)?(?:\d+(?:\.\d+)?W)?(?:\d+(?:\.\d+)?D)?(?:T(?=\d)(?:\d+(?:\.\d+)?H)?(?:\d+(?:\.\d+)?M)?(?:\d+(?:\.\d+)?S)?)?$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const SCHEMA_PREFIX_PATTERN = /^https?:\/\/schema\.org\//i;
+const VALUE_PREVIEW_LIMIT = 80;
+
+const LOCAL_BUSINESS_SUBTYPES = [
+  "AnimalShelter",
+  "AutomotiveBusiness",
+  "AutoRepair",
+  "Bakery",
+  "BarOrPub",
+  "BeautySalon",
+  "CafeOrCoffeeShop",
+  "ChildCare",
+  "Dentist",
+  "DryCleaningOrLaundry",
+  "EmergencyService",
+  "EntertainmentBusiness",
+  "FinancialService",
+  "FoodEstablishment",
+  "GroceryStore",
+  "HealthAndBeautyBusiness",
+  "HomeAndConstructionBusiness",
+  "Hotel",
+  "LegalService",
+  "LodgingBusiness",
+  "MedicalBusiness",
+  "ProfessionalService",
+  "RealEstateAgent",
+  "Restaurant",
+  "SportsActivityLocation",
+  "Store",
+  "TravelAgency",
+];
+
+const isPresent = (value: unknown): boolean => {
+  if (value === null || value === undefined) return false;
+  if (typeof value === "string") return value.trim().length > 0;
+  if (Array.isArray(value)) return value.some(isPresent);
+  return true;
+};
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined ? [] : [value]);
+
+const asObjects = (value: unknown): JsonObject[] =>
+  asArray(value).filter((entry): entry is JsonObject => Boolean(entry) && typeof entry === "object" && !Array.isArray(entry));
+
+/** Resolves a dotted path; arrays fan out, so any element may provide the value. */
+const resolvePath = (node: JsonObject, path: string): unknown[] =>
+  path.split(".").reduce<unknown[]>(
+    (values, key) =>
+      values.flatMap((value) => asObjects(value).flatMap((object) => asArray(object[key]))),
+    [node],
+  );
+
+const hasProperty = (node: JsonObject, property: string) =>
+  property.split("|").some((alternative) => resolvePath(node, alternative).some(isPresent));
+
+const normalizeType = (value: unknown) => String(value).replace(SCHEMA_PREFIX_PATTERN, "").trim();
+
+export const entityTypes = (node: JsonObject): string[] => asArray(node["@type"]).map(normalizeType).filter(Boolean);
+
+const checkFaq = (node: JsonObject) => {
+  const questions = asObjects(node.mainEntity);
+  if (!questions.length) return [];
+  const incomplete = questions.filter(
+    (question) => !isPresent(question.name) || !resolvePath(question, "acceptedAnswer.text").some(isPresent),
+  );
+  return incomplete.length
+    ? [`${incomplete.length} of ${questions.length} Question(s) lack a name or acceptedAnswer.text`]
+    : [];
+};
+
+const checkHowTo = (node: JsonObject) => {
+  const steps = asObjects(node.step).flatMap((step) =>
+    entityTypes(step).includes("HowToSection") ? asObjects(step.itemListElement) : [step],
+  );
+  const empty = steps.filter((step) => !isPresent(step.text) && !isPresent(step.itemListElement));
+  return empty.length ? [`${empty.length} HowToStep(s) have no text`] : [];
+};
+
+const checkBreadcrumbs = (node: JsonObject) => {
+  const items = asObjects(node.itemListElement);
+  const messages: string[] = [];
+  if (items.length && items.length < 2) messages.push("Breadcrumbs need at least two ListItem entries");
+  const missingPosition = items.filter((item) => !isPresent(item.position));
+  if (missingPosition.length) messages.push(`${missingPosition.length} ListItem(s) lack position`);
+  const missingName = items.filter((item) => !isPresent(item.name) && !resolvePath(item, "item.name").some(isPresent));
+  if (missingName.length) messages.push(`${missingName.length} ListItem(s) lack name`);
+  // The last crumb may omit `item` because it represents the current page.
+  const missingItem = items.slice(0, -1).filter((item) => !isPresent(item.item));
+  if (missingItem.length) messages.push(`${missingItem.length} ListItem(s) other than the last lack item`);
+  return messages;
+};
+
+const OFFER_PRICE = "price|lowPrice|priceSpecification.price";
+const OFFER_CURRENCY = "priceCurrency|priceSpecification.priceCurrency";
+
+/** A Product relying on offers alone needs at least one offer with a usable price. */
+const checkProductOffers = (node: JsonObject) => {
+  const offers = asObjects(node.offers);
+  if (!offers.length || hasProperty(node, "review|aggregateRating")) return [];
+  const usable = offers.some(
+    (offer) =>
+      hasProperty(offer, OFFER_PRICE) &&
+      hasProperty(offer, OFFER_CURRENCY) &&
+      !findInvalidValues(offer).some((problem) => problem.property === "price" || problem.property === "priceCurrency"),
+  );
+  return usable ? [] : ["No offer has a valid price and priceCurrency"];
+};
+
+/** A sitelinks SearchAction needs a URL template with the query placeholder and a matching query-input. */
+const checkSearchAction = (node: JsonObject) => {
+  const actions = asObjects(node.potentialAction).filter((action) => entityTypes(action).includes("SearchAction"));
+  return actions.flatMap((action) => {
+    const target = [...resolvePath(action, "target"), ...resolvePath(action, "target.urlTemplate")].find(
+      (value): value is string => typeof value === "string",
+    );
+    const queryInput = action["query-input"] ?? action.queryInput;
+    const messages: string[] = [];
+    if (!target?.includes("{search_term_string}")) messages.push("SearchAction target lacks {search_term_string}");
+    if (typeof queryInput !== "string" || !queryInput.includes("name=search_term_string")) {
+      messages.push('SearchAction query-input must be "required name=search_term_string"');
+    }
+    return messages;
+  });
+};
+
+const checkJobLocation = (node: JsonObject) => {
+  const remote = asArray(node.jobLocationType).some((value) => String(value).toUpperCase() === "TELECOMMUTE");
+  if (remote && !hasProperty(node, "applicantLocationRequirements")) {
+    return ["Remote jobs (TELECOMMUTE) must set applicantLocationRequirements"];
+  }
+  if (!remote && !hasProperty(node, "jobLocation")) return ["Missing jobLocation"];
+  return [];
+};
+
+const SCHEMA_RULES: SchemaRule[] = [
+  {
+    type: "Product",
+    richResult: "Product snippet",
+    required: ["name", "offers|review|aggregateRating"],
+    recommended: ["image", "description", "brand", "sku", "gtin|gtin8|gtin12|gtin13|gtin14|mpn"],
+    check: checkProductOffers,
+  },
+  {
+    type: "Offer",
+    subtypes: ["AggregateOffer"],
+    richResult: "Merchant listing",
+    required: [OFFER_PRICE, OFFER_CURRENCY],
+    recommended: ["availability", "url", "priceValidUntil", "itemCondition"],
+  },
+  {
+    type: "Review",
+    richResult: "Review snippet",
+    required: ["author", "reviewRating.ratingValue"],
+    recommended: ["itemReviewed", "datePublished", "reviewRating.bestRating"],
+  },
+  {
+    type: "Article",
+    subtypes: ["NewsArticle", "BlogPosting", "TechArticle", "Report"],
+    richResult: "Article",
+    // Google lists no required Article properties; the recommended set drives the enhanced display.
+    required: [],
+    recommended: ["headline", "image", "datePublished", "dateModified", "author.name|author"],
+  },
+  {
+    type: "Recipe",
+    richResult: "Recipe",
+    required: ["name", "image"],
+    recommended: [
+      "author",
+      "datePublished",
+      "description",
+      "recipeIngredient",
+      "recipeInstructions",
+      "recipeYield",
+      "totalTime",
+      "nutrition.calories",
+      "aggregateRating",
+      "video",
+    ],
+  },
+  {
+    type: "Event",
+    subtypes: ["MusicEvent", "SportsEvent", "TheaterEvent", "BusinessEvent", "Festival", "EducationEvent"],
+    richResult: "Event",
+    required: ["name", "startDate", "location"],
+    recommended: ["description", "endDate", "eventStatus", "eventAttendanceMode", "image", "offers", "organizer", "performer"],
+  },
+  {
+    type: "LocalBusiness",
+    subtypes: LOCAL_BUSINESS_SUBTYPES,
+    richResult: "Local business",
+    required: ["name", "address"],
+    recommended: [
+      "telephone",
+      "url",
+      "geo",
+      "openingHoursSpecification|openingHours",
+      "priceRange",
+      "image",
+      "address.postalCode",
+      "address.addressCountry",
+    ],
+  },
+  {
+    type: "JobPosting",
+    richResult: "Job posting",
+    required: ["title", "description", "datePosted", "hiringOrganization"],
+    recommended: ["validThrough", "employmentType", "baseSalary", "identifier", "directApply"],
+    check: checkJobLocation,
+  },
+  {
+    type: "FAQPage",
+    richResult: "FAQ",
+    required: ["mainEntity"],
+    recommended: [],
+    check: checkFaq,
+    note: "Google only shows FAQ rich results for well-known, authoritative government and health sites.",
+  },
+  {
+    type: "HowTo",
+    richResult: "How-to",
+    required: ["name", "step"],
+    recommended: ["image", "totalTime", "supply", "tool", "estimatedCost"],
+    check: checkHowTo,
+    note: "Google retired How-to rich results in 2023; the markup still describes the content for other consumers.",
+  },
+  {
+    type: "VideoObject",
+    richResult: "Video",
+    required: ["name", "thumbnailUrl", "uploadDate"],
+    recommended: ["description", "contentUrl|embedUrl", "duration", "expires"],
+  },
+  {
+    type: "BreadcrumbList",
+    richResult: "Breadcrumb",
+    required: ["itemListElement"],
+    recommended: [],
+    check: checkBreadcrumbs,
+  },
+  {
+    type: "WebSite",
+    richResult: "Site name",
+    required: ["name", "url"],
+    recommended: ["alternateName", "potentialAction"],
+    check: checkSearchAction,
+  },
+  {
+    type: "Organization",
+    subtypes: ["Corporation", "NGO", "EducationalOrganization", "OnlineStore"],
+    richResult: "Organization",
+    // Google lists no required Organization properties; logo and sameAs feed the knowledge panel.
+    required: [],
+    recommended: ["name", "url", "logo", "sameAs", "contactPoint|telephone", "address"],
+  },
+];
+
+const RULE_BY_TYPE = new Map(
+  SCHEMA_RULES.flatMap((rule) => [rule.type, ...(rule.subtypes ?? [])].map((type) => [type.toLowerCase(), rule] as const)),
+);
+
+export const VALIDATED_SCHEMA_TYPES = SCHEMA_RULES.map((rule) => rule.type);
+
+const findRule = (types: string[]) =>
+  types.map((type) => RULE_BY_TYPE.get(type.toLowerCase())).find((rule): rule is SchemaRule => Boolean(rule)) ?? null;
+
+/** The validated base type an entity falls under, e.g. "LocalBusiness" for a Dentist. */
+export const schemaRuleType = (node: JsonObject) => findRule(entityTypes(node))?.type ?? null;
+
+const preview = (value: unknown) => {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > VALUE_PREVIEW_LIMIT ? `${text.slice(0, VALUE_PREVIEW_LIMIT)}…` : text;
+};
+
+/** Format checks for the top-level scalar properties Google parses strictly. */
+const findInvalidValues = (node: JsonObject): SchemaPropertyProblem[] => {
+  const problems: SchemaPropertyProblem[] = [];
+  Object.entries(node).forEach(([property, raw]) => {
+    asArray(raw).forEach((value) => {
+      if (value === null || typeof value === "object") return;
+      const text = String(value).trim();
+      if (DATE_PROPERTIES.has(property) && !ISO_DATE_PATTERN.test(text)) {
+        problems.push({ property, value: preview(value), reason: "Use an ISO 8601 date (YYYY-MM-DD or date-time)" });
+      } else if (DURATION_PROPERTIES.has(property) && !ISO_DURATION_PATTERN.test(text)) {
+        problems.push({ property, value: preview(value), reason: "Use an ISO 8601 duration such as PT1H30M" });
+      } else if (NUMERIC_PROPERTIES.has(property) && (typeof value === "boolean" || !/^-?\d+(?:\.\d+)?$/.test(text))) {
+        problems.push({ property, value: preview(value), reason: "Use a plain number without currency symbols or separators" });
+      } else if (property === "priceCurrency" && !CURRENCY_PATTERN.test(text)) {
+        problems.push({ property, value: preview(value), reason: "Use a three-letter ISO 4217 currency code" });
+      }
+    });
+  });
+  return problems;
+};
+
+/**
+ * Walks JSON-LD, microdata, and RDFa payloads (including `@graph` and nested
+ * values), keeping the enclosing entity type and the syntax each entity came from.
+ */
+export const collectStructuredDataEntities = (html: string): SchemaEntity[] => {
+  const { document } = parseHTML(html);
+  const entities: SchemaEntity[] = [];
+  const walk = (value: unknown, parentType: string | null, source: StructuredDataSyntax) => {
+    if (Array.isArray(value)) {
+      value.forEach((entry) => walk(entry, parentType, source));
+      return;
+    }
+    if (!value || typeof value !== "object") return;
+    const node = value as JsonObject;
+    const types = entityTypes(node);
+    if (types.length) entities.push({ type: types[0], source, node, parentType });
+    Object.entries(node).forEach(([key, child]) => {
+      if (key !== "@context") walk(child, types[0] ?? parentType, source);
+    });
+  };
+  extractStructuredDataPayloads(document).forEach(({ syntax, payload }) => walk(payload, null, syntax));
+  return entities;
+};
+
+export const validateSchemaEntity = (entity: SchemaEntity): SchemaEntityReport | null => {
+  const rule = findRule(entityTypes(entity.node));
+  if (!rule) return null;
+
+  const missingRequired = rule.required.filter((property) => !hasProperty(entity.node, property));
+  const missingRecommended = rule.recommended.filter((property) => !hasProperty(entity.node, property));
+  const invalid = findInvalidValues(entity.node);
+  const checkMessages = rule.check?.(entity.node) ?? [];
+  const requiredKeys = new Set(rule.required.flatMap((property) => property.split("|").map((key) => key.split(".")[0])));
+  const blocking = [
+    ...missingRequired.map((property) => `Missing required ${property.replace(/\|/g, " or ")}`),
+    ...invalid
+      .filter((problem) => requiredKeys.has(problem.property))
+      .map((problem) => `Invalid ${problem.property} "${problem.value}"`),
+    ...checkMessages,
+  ];
+
+  // Offers earn merchant listings through the Product they belong to.
+  if (rule.type === "Offer" && !entity.parentType) blocking.push("Offers are only eligible inside a Product");
+
+  const name = [entity.node.name, entity.node.headline, entity.node.title].find(
+    (value): value is string => typeof value === "string" && value.trim().length > 0,
+  );
+
+  return {
+    type: entity.type,
+    ruleType: rule.type,
+    source: entity.source,
+    name: name ? preview(name.trim()) : null,
+    parentType: entity.parentType,
+    richResult: rule.richResult,
+    eligible: blocking.length === 0,
+    missingRequired,
+    missingRecommended,
+    invalid,
+    blocking,
+    ...(rule.note ? { note: rule.note } : {}),
+  };
+};
+
+export const validateSchemaEntities = (entities: SchemaEntity[]): SchemaEntityReport[] =>
+  entities.map(validateSchemaEntity).filter((report): report is SchemaEntityReport => report !== null);
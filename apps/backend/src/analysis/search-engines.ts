@@ -0,0 +1,338 @@
+import { isAllowedByRobots, parseRobotsTxt, type ParsedRobots } from "./robots";
+import type { AnalysisContext, GeoSignalScore, HighlightEntry } from "./types";
+import { createIssueTracker, incrementIssue, toHighlight } from "./utils";
+
+// Google is not the dominant engine everywhere. In these markets the local
+// engine has its own crawler, webmaster console and markup conventions.
+
+export type SearchEngineCheckStatus = "pass" | "fail" | "warn";
+
+export interface SearchEngineCheck {
+  id: string;
+  label: string;
+  status: SearchEngineCheckStatus;
+  detail: string;
+  /** Set for failed and warned checks. */
+  recommendation?: string;
+}
+
+export interface SearchEngineReport {
+  engine: string;
+  country: string;
+  crawler: string;
+  checks: SearchEngineCheck[];
+  passed: number;
+}
+
+type ProfileContext = Pick<AnalysisContext, "url" | "dom" | "robotsTxt" | "geo" | "hreflang">;
+
+interface ProfileInput {
+  ctx: ProfileContext;
+  robots: ParsedRobots;
+}
+
+interface SearchEngineProfile {
+  engine: string;
+  crawler: string;
+  /** `<meta name>` of the engine's webmaster-tools ownership verification. */
+  verificationMeta: string;
+  console: string;
+  checks: Array<(input: ProfileInput) => SearchEngineCheck>;
+}
+
+/** Mainland ICP filing numbers as shown in site footers, e.g. 京ICP备12345678号. */
+const ICP_PATTERN = /[京津沪渝冀豫云辽黑湘皖鲁新苏浙赣鄂桂甘晋蒙陕吉闽贵粤青藏川宁琼]ICP[备证][\d-]+号?/;
+const APPLICABLE_DEVICE_VALUES = new Set(["pc", "mobile", "pc,mobile"]);
+const CLEAN_PARAM_PATTERN = /^[\w.-]+(?:&[\w.-]+)*(?:\s+\/\S*)?$/;
+
+const check = (
+  id: string,
+  label: string,
+  status: SearchEngineCheckStatus,
+  detail: string,
+  recommendation?: string,
+): SearchEngineCheck => (status === "pass" ? { id, label, status, detail } : { id, label, status, detail, recommendation });
+
+const metaContent = (ctx: ProfileContext, name: string) =>
+  ctx.dom(`meta[name="${name}" i]`).attr("content")?.trim() || null;
+
+const htmlLang = (ctx: ProfileContext) => ctx.dom("html").attr("lang")?.trim().toLowerCase() ?? "";
+
+const crawlerAccess = (profile: Pick<SearchEngineProfile, "engine" | "crawler">) => ({ ctx, robots }: ProfileInput) =>
+  isAllowedByRobots(robots, ctx.url, profile.crawler)
+    ? check("crawler", `${profile.crawler} access`, "pass", `robots.txt allows ${profile.crawler}.`)
+    : check(
+        "crawler",
+        `${profile.crawler} access`,
+        "fail",
+        `robots.txt blocks ${profile.crawler} from this URL.`,
+        `Allow ${profile.crawler} in robots.txt; ${profile.engine} cannot index pages it may not crawl.`,
+      );
+
+const verification = (profile: Pick<SearchEngineProfile, "engine" | "verificationMeta" | "console">) => ({
+  ctx,
+}: ProfileInput) =>
+  metaContent(ctx, profile.verificationMeta)
+    ? check("verification", `${profile.engine} verification`, "pass", `${profile.verificationMeta} meta tag found.`)
+    : check(
+        "verification",
+        `${profile.engine} verification`,
+        "warn",
+        `No ${profile.verificationMeta} meta tag on the page.`,
+        `Verify the site in ${profile.console} (e.g. with <meta name="${profile.verificationMeta}">) to submit sitemaps and see indexing data.`,
+      );
+
+const declaredLanguage = (engine: string, prefix: string, expected: string) => ({ ctx }: ProfileInput) =>
+  htmlLang(ctx).startsWith(prefix)
+    ? check("language", "Page language", "pass", `<html lang="${htmlLang(ctx)}"> matches the market.`)
+    : check(
+        "language",
+        "Page language",
+        "warn",
+        htmlLang(ctx) ? `<html lang="${htmlLang(ctx)}"> is not ${expected}.` : "<html lang> is missing.",
+        `${engine} ranks ${expected} pages for this market; serve localized copy with <html lang="${prefix}">.`,
+      );
+
+const baiduApplicableDevice = ({ ctx }: ProfileInput) => {
+  const value = metaContent(ctx, "applicable-device")?.replace(/\s+/g, "").toLowerCase() ?? null;
+  if (value && APPLICABLE_DEVICE_VALUES.has(value)) {
+    return check("applicable-device", "applicable-device meta", "pass", `applicable-device is "${value}".`);
+  }
+  return check(
+    "applicable-device",
+    "applicable-device meta",
+    "warn",
+    value ? `applicable-device "${value}" is not pc, mobile or "pc,mobile".` : "No applicable-device meta tag.",
+    'Add <meta name="applicable-device" content="pc,mobile"> so Baidu knows which devices the page serves (use "mobile" or "pc" for split sites).',
+  );
+};
+
+const baiduNoTransform = ({ ctx }: ProfileInput) => {
+  const cacheControl = ctx.dom('meta[http-equiv="Cache-Control" i]').attr("content")?.toLowerCase() ?? "";
+  return /no-transform|no-siteapp/.test(cacheControl)
+    ? check("no-transform", "Transcoding opt-out", "pass", "Cache-Control meta opts out of Baidu transcoding.")
+    : check(
+        "no-transform",
+        "Transcoding opt-out",
+        "warn",
+        "Baidu may transcode the page for mobile search and inject its own ads.",
+        'Add <meta http-equiv="Cache-Control" content="no-transform"> and content="no-siteapp" to keep Baidu from transcoding the page.',
+      );
+};
+
+const baiduHosting = ({ ctx }: ProfileInput) => {
+  const countries = new Set(
+    [ctx.geo?.countryCode, ...(ctx.geo?.addresses ?? []).map((address) => address.countryCode)]
+      .filter((code): code is string => Boolean(code))
+      .map((code) => code.toUpperCase()),
+  );
+  const footer = ctx.dom("footer").text() || ctx.dom("body").text();
+  const icp = footer.match(ICP_PATTERN)?.[0] ?? null;
+  if (countries.has("CN")) {
+    return icp
+      ? check("hosting", "Mainland hosting", "pass", `Hosted in mainland China with ICP filing ${icp}.`)
+      : check(
+          "hosting",
+          "Mainland hosting",
+          "warn",
+          "Hosted in mainland China but no ICP filing number is shown.",
+          "Display the ICP filing number (e.g. 京ICP备12345678号) in the footer; mainland hosting requires it.",
+        );
+  }
+  return check(
+    "hosting",
+    "Mainland hosting",
+    "warn",
+    countries.size ? `Server located in ${Array.from(countries).join(", ")}.` : "Server location unknown.",
+    "Baidu crawls and ranks sites hosted in mainland China (with an ICP filing) faster; offshore hosting, even in Hong Kong, is slower to crawl from the mainland.",
+  );
+};
+
+const baiduHreflang = ({ ctx }: ProfileInput) =>
+  ctx.hreflang?.annotations.length
+    ? check(
+        "hreflang",
+        "Language targeting",
+        "warn",
+        "Baidu ignores hreflang annotations.",
+        "Baidu does not support hreflang; put the Simplified Chinese version on its own domain or subdomain and link to it clearly.",
+      )
+    : check("hreflang", "Language targeting", "pass", "No hreflang reliance.");
+
+const yandexCleanParam = ({ ctx, robots }: ProfileInput) => {
+  const values = robots.extensions["clean-param"] ?? [];
+  const invalid = values.filter((value) => !CLEAN_PARAM_PATTERN.test(value));
+  if (invalid.length) {
+    return check(
+      "clean-param",
+      "Clean-param",
+      "fail",
+      `Malformed Clean-param: ${invalid.slice(0, 3).join("; ")}.`,
+      "Write Clean-param as `Clean-param: param1&param2 /path/`; Yandex ignores malformed lines.",
+    );
+  }
+  if (values.length) {
+    return check("clean-param", "Clean-param", "pass", `robots.txt declares Clean-param for ${values.length} rule(s).`);
+  }
+  const hasQuery = ctx.url.search.length > 1;
+  return check(
+    "clean-param",
+    "Clean-param",
+    "warn",
+    hasQuery ? "This URL has query parameters and robots.txt declares no Clean-param." : "robots.txt declares no Clean-param.",
+    "Add `Clean-param: utm_source&utm_medium&utm_campaign&sessionid` to robots.txt so Yandex folds tracking and session URLs into the canonical page.",
+  );
+};
+
+const yandexHost = ({ ctx, robots }: ProfileInput) => {
+  const hosts = robots.extensions.host ?? [];
+  if (!hosts.length) {
+    return check("host", "Main mirror", "pass", "No Host directive; Yandex picks the main mirror from 301 redirects.");
+  }
+  const declared = hosts[0].replace(/^https?:\/\//i, "").replace(/\/$/, "").toLowerCase();
+  const actual = ctx.url.host.toLowerCase();
+  return declared === actual
+    ? check(
+        "host",
+        "Main mirror",
+        "warn",
+        `Host: ${hosts[0]} matches this site, but Yandex no longer reads the directive.`,
+        "Yandex ignores Host since 2018; keep 301 redirects from every mirror (www/non-www, http/https) to the main host.",
+      )
+    : check(
+        "host",
+        "Main mirror",
+        "fail",
+        `Host: ${hosts[0]} names a different mirror than ${actual}.`,
+        `Redirect mirrors to one host with 301s and drop the conflicting Host directive (${hosts[0]}).`,
+      );
+};
+
+const yandexCrawlDelay = ({ robots }: ProfileInput) => {
+  const delayed = robots.groups.some(
+    (group) => group.crawlDelay !== null && group.userAgents.some((agent) => agent === "*" || agent.startsWith("yandex")),
+  );
+  return delayed
+    ? check(
+        "crawl-delay",
+        "Crawl rate",
+        "warn",
+        "robots.txt sets Crawl-delay, which Yandex ignores.",
+        "Yandex ignores Crawl-delay; set the crawl rate in Yandex Webmaster instead.",
+      )
+    : check("crawl-delay", "Crawl rate", "pass", "No Crawl-delay for Yandex.");
+};
+
+const naverOpenGraph = ({ ctx }: ProfileInput) => {
+  const missing = ["og:title", "og:description", "og:image"].filter(
+    (property) => !ctx.dom(`meta[property="${property}" i]`).attr("content")?.trim(),
+  );
+  return missing.length
+    ? check(
+        "open-graph",
+        "Open Graph",
+        "warn",
+        `Missing ${missing.join(", ")}.`,
+        "Naver builds search and blog previews from Open Graph tags; add og:title, og:description and og:image.",
+      )
+    : check("open-graph", "Open Graph", "pass", "og:title, og:description and og:image are present.");
+};
+
+const naverDescription = ({ ctx }: ProfileInput) =>
+  metaContent(ctx, "description")
+    ? check("description", "Meta description", "pass", "Meta description present.")
+    : check(
+        "description",
+        "Meta description",
+        "warn",
+        "No meta description.",
+        "Naver shows the meta description as the search snippet; write one in Korean for every page.",
+      );
+
+const sitemapInRobots = (engine: string) => ({ robots }: ProfileInput) =>
+  robots.sitemaps.length
+    ? check("sitemap", "Sitemap in robots.txt", "pass", `${robots.sitemaps.length} Sitemap line(s) in robots.txt.`)
+    : check(
+        "sitemap",
+        "Sitemap in robots.txt",
+        "warn",
+        "robots.txt lists no Sitemap.",
+        `${engine} discovers sitemaps from robots.txt; add a Sitemap: line.`,
+      );
+
+const profile = (
+  base: Omit<SearchEngineProfile, "checks">,
+  checks: Array<(input: ProfileInput) => SearchEngineCheck>,
+): SearchEngineProfile => ({ ...base, checks: [crawlerAccess(base), verification(base), ...checks] });
+
+const SEARCH_ENGINE_PROFILES: Record<string, SearchEngineProfile> = {
+  CN: profile(
+    { engine: "Baidu", crawler: "Baiduspider", verificationMeta: "baidu-site-verification", console: "Baidu Ziyuan" },
+    [
+      baiduApplicableDevice,
+      baiduNoTransform,
+      baiduHosting,
+      baiduHreflang,
+      declaredLanguage("Baidu", "zh", "Simplified Chinese"),
+    ],
+  ),
+  RU: profile(
+    { engine: "Yandex", crawler: "YandexBot", verificationMeta: "yandex-verification", console: "Yandex Webmaster" },
+    [yandexCleanParam, yandexHost, yandexCrawlDelay, declaredLanguage("Yandex", "ru", "Russian")],
+  ),
+  KR: profile(
+    { engine: "Naver", crawler: "Yeti", verificationMeta: "naver-site-verification", console: "Naver Search Advisor" },
+    [naverOpenGraph, naverDescription, sitemapInRobots("Naver"), declaredLanguage("Naver", "ko", "Korean")],
+  ),
+  CZ: profile(
+    { engine: "Seznam", crawler: "SeznamBot", verificationMeta: "seznam-wmt", console: "Seznam Webmaster" },
+    [sitemapInRobots("Seznam"), declaredLanguage("Seznam", "cs", "Czech")],
+  ),
+};
+
+/**
+ * Runs the checks of the dominant local search engine when the target market
+ * is not Google-led (China, Russia, South Korea, Czechia); null elsewhere.
+ */
+export const evaluateSearchEngineProfile = (
+  ctx: ProfileContext & Pick<AnalysisContext, "targetCountry">,
+): SearchEngineReport | null => {
+  const country = ctx.targetCountry;
+  const selected = country ? SEARCH_ENGINE_PROFILES[country] : undefined;
+  if (!country || !selected) return null;
+  const input = { ctx, robots: parseRobotsTxt(ctx.robotsTxt) };
+  const checks = selected.checks.map((run) => run(input));
+  return {
+    engine: selected.engine,
+    country,
+    crawler: selected.crawler,
+    checks,
+    passed: checks.filter((entry) => entry.status === "pass").length,
+  };
+};
+
+/** Scores the local engine's checks: each failure costs a point, two at most. */
+export const scoreSearchEngineProfile = (report: SearchEngineReport | null): GeoSignalScore => {
+  const issues = createIssueTracker();
+  const recommendations: string[] = [];
+  if (!report) return { scoreDelta: 0, issues, recommendations, highlights: [] };
+  const failures = report.checks.filter((entry) => entry.status === "fail");
+  report.checks.forEach((entry) => {
+    if (entry.status === "pass" || !entry.recommendation) return;
+    incrementIssue(issues, entry.status === "fail" ? "warning" : "info");
+    recommendations.push(`${report.engine}: ${entry.recommendation}`);
+  });
+
+  return {
+    scoreDelta: -Math.min(2, failures.length),
+    issues,
+    recommendations,
+    highlights: [
+      toHighlight(
+        `${report.engine} readiness`,
+        `${report.passed}/${report.checks.length}`,
+        failures.length ? "poor" : report.passed === report.checks.length ? "good" : "warn",
+      ),
+    ].filter(Boolean) as HighlightEntry[],
+  };
+};
@@ -0,0 +1,525 @@
+import type { CheerioAPI } from "cheerio";
+
+export type SecuritySeverity = "high" | "medium" | "low";
+
+export interface SecurityFinding {
+  severity: SecuritySeverity;
+  message: string;
+  recommendation: string;
+}
+
+export interface CspReport {
+  source: "header" | "meta" | "report-only" | null;
+  /** A–F, or null when the page sends no policy at all. */
+  grade: "A" | "B" | "C" | "D" | "F" | null;
+  directives: Record<string, string[]>;
+  findings: SecurityFinding[];
+}
+
+export interface HstsReport {
+  present: boolean;
+  maxAge: number | null;
+  includeSubDomains: boolean;
+  preload: boolean;
+  preloadEligible: boolean;
+  findings: SecurityFinding[];
+}
+
+export interface CookieReport {
+  name: string;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite: "strict" | "lax" | "none" | null;
+}
+
+export interface CookiesReport {
+  cookies: CookieReport[];
+  findings: SecurityFinding[];
+}
+
+export interface PolicyHeaderReport {
+  value: string | null;
+  findings: SecurityFinding[];
+}
+
+export interface IsolationReport {
+  coop: string | null;
+  coep: string | null;
+  crossOriginIsolated: boolean;
+  findings: SecurityFinding[];
+}
+
+export interface MixedContentReport {
+  /** Scripts, stylesheets, frames and plugins; browsers block these outright. */
+  active: string[];
+  /** Images and media; browsers upgrade or show them with a warning. */
+  passive: string[];
+  /** Forms that submit to http://. Not mixed content: nothing loads, but the submitted data travels in clear text. */
+  insecureForms: string[];
+  upgradeInsecureRequests: boolean;
+}
+
+const HSTS_MIN_MAX_AGE = 15552000;
+const HSTS_PRELOAD_MAX_AGE = 31536000;
+/** Sources that let any host (or any inline payload) run script. */
+const CSP_UNSAFE_SCHEMES = ["*", "http:", "https:", "data:", "blob:"];
+const SAFE_REFERRER_POLICIES = new Set([
+  "no-referrer",
+  "same-origin",
+  "strict-origin",
+  "strict-origin-when-cross-origin",
+]);
+const REFERRER_POLICIES = new Set([
+  ...SAFE_REFERRER_POLICIES,
+  "origin",
+  "origin-when-cross-origin",
+  "no-referrer-when-downgrade",
+  "unsafe-url",
+]);
+const POWERFUL_FEATURES = ["camera", "microphone", "geolocation", "payment", "usb", "display-capture"];
+const SESSION_COOKIE_NAME = /(sess|sid|auth|token|login|jwt|csrf|xsrf)/i;
+
+const ACTIVE_MIXED_SELECTORS: Array<[string, string]> = [
+  ["script[src]", "src"],
+  ["iframe[src]", "src"],
+  ["frame[src]", "src"],
+  ["object[data]", "data"],
+  ["embed[src]", "src"],
+  ['link[rel~="stylesheet" i][href]', "href"],
+  ['link[rel~="preload" i][href]', "href"],
+];
+const PASSIVE_MIXED_SELECTORS: Array<[string, string]> = [
+  ["img[src]", "src"],
+  ["img[srcset]", "srcset"],
+  ["source[src]", "src"],
+  ["source[srcset]", "srcset"],
+  ["video[src]", "src"],
+  ["video[poster]", "poster"],
+  ["audio[src]", "src"],
+];
+
+const finding = (severity: SecuritySeverity, message: string, recommendation: string): SecurityFinding => ({
+  severity,
+  message,
+  recommendation,
+});
+
+export const parseCsp = (policy: string) => {
+  const directives: Record<string, string[]> = {};
+  policy
+    .split(";")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .forEach((entry) => {
+      const [name, ...values] = entry.split(/\s+/);
+      const key = name.toLowerCase();
+      // Browsers ignore repeated directives after the first.
+      if (!(key in directives)) directives[key] = values.map((value) => value.toLowerCase());
+    });
+  return directives;
+};
+
+const auditCsp = (directives: Record<string, string[]>) => {
+  const findings: SecurityFinding[] = [];
+  const scriptSrc = directives["script-src"] ?? directives["default-src"];
+  if (!scriptSrc) {
+    findings.push(
+      finding(
+        "high",
+        "The policy has neither script-src nor default-src, so scripts are unrestricted.",
+        "Add a script-src directive (nonce- or hash-based with 'strict-dynamic') to restrict where scripts load from.",
+      ),
+    );
+  } else {
+    // CSP Level 2+ browsers ignore 'unsafe-inline' when a nonce or hash is present.
+    const hasNonceOrHash = scriptSrc.some((value) => /^'(nonce-|sha(256|384|512)-)/.test(value));
+    if (scriptSrc.includes("'unsafe-inline'") && !hasNonceOrHash) {
+      findings.push(
+        finding(
+          "high",
+          "script-src allows 'unsafe-inline', which defeats XSS protection.",
+          "Replace 'unsafe-inline' in script-src with nonces or hashes for the inline scripts you need.",
+        ),
+      );
+    }
+    if (scriptSrc.includes("'unsafe-eval'")) {
+      findings.push(
+        finding(
+          "medium",
+          "script-src allows 'unsafe-eval'.",
+          "Remove 'unsafe-eval' from script-src and refactor code that relies on eval() or new Function().",
+        ),
+      );
+    }
+    const wildcards = scriptSrc.filter((value) => CSP_UNSAFE_SCHEMES.includes(value));
+    if (wildcards.length && !scriptSrc.includes("'strict-dynamic'")) {
+      findings.push(
+        finding(
+          "high",
+          `script-src allows wildcard sources (${wildcards.join(", ")}).`,
+          "Drop wildcard and scheme-only sources (*, https:, data:) from script-src; list exact hosts or use nonces with 'strict-dynamic'.",
+        ),
+      );
+    }
+  }
+  const objectSrc = directives["object-src"] ?? directives["default-src"];
+  if (!objectSrc || !(objectSrc.length === 1 && objectSrc[0] === "'none'")) {
+    findings.push(
+      finding(
+        "medium",
+        "object-src is not 'none', so plugin content can bypass the script policy.",
+        "Add object-src 'none' to the Content-Security-Policy.",
+      ),
+    );
+  }
+  // base-uri does not fall back to default-src.
+  if (!directives["base-uri"]) {
+    findings.push(
+      finding(
+        "medium",
+        "base-uri is missing, so injected <base> tags can redirect relative script URLs.",
+        "Add base-uri 'self' (or 'none') to the Content-Security-Policy.",
+      ),
+    );
+  }
+  return findings;
+};
+
+const SEVERITY_PENALTY: Record<SecuritySeverity, number> = { high: 30, medium: 15, low: 5 };
+
+const toGrade = (findings: SecurityFinding[]): NonNullable<CspReport["grade"]> => {
+  const score = findings.reduce((sum, entry) => sum - SEVERITY_PENALTY[entry.severity], 100);
+  if (score >= 90) return "A";
+  if (score >= 75) return "B";
+  if (score >= 60) return "C";
+  if (score >= 40) return "D";
+  return "F";
+};
+
+/**
+ * Grades the enforced Content-Security-Policy (header first, then `<meta
+ * http-equiv>`). Several policies all apply, so the strongest one is graded.
+ * A report-only policy is audited but capped at D since it blocks nothing.
+ */
+export const gradeCsp = (headers: Record<string, string>, dom: CheerioAPI): CspReport => {
+  const meta = dom('meta[http-equiv="content-security-policy" i]').attr("content")?.trim();
+  const enforced = headers["content-security-policy"] ?? meta;
+  const reportOnly = headers["content-security-policy-report-only"];
+  const source: CspReport["source"] = headers["content-security-policy"]
+    ? "header"
+    : meta
+      ? "meta"
+      : reportOnly
+        ? "report-only"
+        : null;
+  const raw = enforced ?? reportOnly;
+  if (!raw) {
+    return {
+      source,
+      grade: null,
+      directives: {},
+      findings: [
+        finding(
+          "high",
+          "No Content-Security-Policy is sent.",
+          "Add a Content-Security-Policy, starting with script-src, object-src 'none' and base-uri 'self'.",
+        ),
+      ],
+    };
+  }
+  // Joined header values and multi-policy headers are comma-separated.
+  const best = raw
+    .split(",")
+    .map((policy) => parseCsp(policy))
+    .filter((directives) => Object.keys(directives).length)
+    .map((directives) => ({ directives, findings: auditCsp(directives) }))
+    .sort((a, b) => toGrade(a.findings).localeCompare(toGrade(b.findings)))[0] ?? { directives: {}, findings: [] };
+  const findings = [...best.findings];
+  let grade = toGrade(findings);
+  if (source === "report-only") {
+    findings.unshift(
+      finding(
+        "high",
+        "The Content-Security-Policy is report-only and blocks nothing.",
+        "Enforce the policy by sending it as Content-Security-Policy once the reports are clean.",
+      ),
+    );
+    grade = grade < "D" ? "D" : grade;
+  }
+  return { source, grade, directives: best.directives, findings };
+};
+
+/** Parses Strict-Transport-Security and checks it against hstspreload.org's requirements. */
+export const analyzeHsts = (header: string | undefined): HstsReport => {
+  if (!header) {
+    return {
+      present: false,
+      maxAge: null,
+      includeSubDomains: false,
+      preload: false,
+      preloadEligible: false,
+      findings: [
+        finding(
+          "high",
+          "Strict-Transport-Security is missing.",
+          "Add Strict-Transport-Security: max-age=31536000; includeSubDomains.",
+        ),
+      ],
+    };
+  }
+  const tokens = header
+    .split(";")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  const maxAgeToken = tokens.find((token) => token.startsWith("max-age"));
+  const parsedMaxAge = maxAgeToken ? Number(maxAgeToken.split("=")[1]?.replace(/"/g, "").trim()) : NaN;
+  const maxAge = Number.isFinite(parsedMaxAge) ? parsedMaxAge : null;
+  const includeSubDomains = tokens.includes("includesubdomains");
+  const preload = tokens.includes("preload");
+  const findings: SecurityFinding[] = [];
+  if (maxAge === null) {
+    findings.push(
+      finding("high", "Strict-Transport-Security has no valid max-age and is ignored.", "Set max-age=31536000 in Strict-Transport-Security."),
+    );
+  } else if (maxAge === 0) {
+    findings.push(
+      finding("high", "Strict-Transport-Security max-age=0 turns HSTS off.", "Set max-age=31536000 in Strict-Transport-Security."),
+    );
+  } else if (maxAge < HSTS_MIN_MAX_AGE) {
+    findings.push(
+      finding(
+        "medium",
+        `Strict-Transport-Security max-age is only ${maxAge} seconds.`,
+        "Raise the Strict-Transport-Security max-age to at least 31536000 (one year).",
+      ),
+    );
+  }
+  if (!includeSubDomains) {
+    findings.push(
+      finding(
+        "low",
+        "Strict-Transport-Security does not cover subdomains.",
+        "Add includeSubDomains to Strict-Transport-Security once every subdomain serves HTTPS.",
+      ),
+    );
+  }
+  const preloadEligible = Boolean(maxAge && maxAge >= HSTS_PRELOAD_MAX_AGE && includeSubDomains && preload);
+  if (preload && !preloadEligible) {
+    findings.push(
+      finding(
+        "medium",
+        "Strict-Transport-Security asks for preload but does not meet the preload list requirements.",
+        "For HSTS preload, send max-age of at least 31536000 with includeSubDomains and preload.",
+      ),
+    );
+  }
+  return { present: true, maxAge, includeSubDomains, preload, preloadEligible, findings };
+};
+
+/** `normalizeHeaders` joins Set-Cookie lines with newlines since cookie dates contain commas. */
+const parseSetCookie = (header: string | undefined): CookieReport[] =>
+  (header ?? "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [pair, ...attributes] = line.split(";").map((entry) => entry.trim());
+      const flags = attributes.map((entry) => entry.toLowerCase());
+      const sameSite = flags.find((entry) => entry.startsWith("samesite="))?.split("=")[1]?.trim();
+      return {
+        name: pair.split("=")[0].trim(),
+        secure: flags.includes("secure"),
+        httpOnly: flags.includes("httponly"),
+        sameSite: sameSite === "strict" || sameSite === "lax" || sameSite === "none" ? sameSite : null,
+      };
+    });
+
+const listNames = (cookies: CookieReport[]) => cookies.map((cookie) => cookie.name).join(", ");
+
+/**
+ * Checks the Secure, HttpOnly and SameSite flags on every Set-Cookie. HttpOnly
+ * is only required on cookies whose names look like sessions or tokens, since
+ * analytics and consent cookies are meant to be read by scripts.
+ */
+export const analyzeCookies = (header: string | undefined): CookiesReport => {
+  const cookies = parseSetCookie(header);
+  const findings: SecurityFinding[] = [];
+  const insecure = cookies.filter((cookie) => !cookie.secure);
+  const rejected = insecure.filter((cookie) => cookie.sameSite === "none");
+  const prefixed = insecure.filter((cookie) => /^__(Host|Secure)-/.test(cookie.name));
+  const scriptReadable = cookies.filter((cookie) => !cookie.httpOnly && SESSION_COOKIE_NAME.test(cookie.name));
+  const noSameSite = cookies.filter((cookie) => !cookie.sameSite);
+  if (insecure.length) {
+    findings.push(
+      finding(
+        insecure.some((cookie) => SESSION_COOKIE_NAME.test(cookie.name)) ? "high" : "medium",
+        `${insecure.length} cookie(s) lack Secure: ${listNames(insecure)}.`,
+        `Set the Secure flag on cookies ${listNames(insecure)} so they never travel over HTTP.`,
+      ),
+    );
+  }
+  if (rejected.length || prefixed.length) {
+    findings.push(
+      finding(
+        "high",
+        `Browsers reject ${listNames([...rejected, ...prefixed])}: SameSite=None and __Host-/__Secure- cookies require Secure.`,
+        `Add Secure to ${listNames([...rejected, ...prefixed])}; browsers drop them without it.`,
+      ),
+    );
+  }
+  if (scriptReadable.length) {
+    findings.push(
+      finding(
+        "high",
+        `Session-like cookie(s) readable from JavaScript: ${listNames(scriptReadable)}.`,
+        `Set HttpOnly on ${listNames(scriptReadable)} so injected scripts cannot steal them.`,
+      ),
+    );
+  }
+  if (noSameSite.length) {
+    findings.push(
+      finding(
+        "low",
+        `${noSameSite.length} cookie(s) have no SameSite attribute: ${listNames(noSameSite)}.`,
+        `Set SameSite=Lax (or Strict) explicitly on ${listNames(noSameSite)}.`,
+      ),
+    );
+  }
+  return { cookies, findings };
+};
+
+/** Browsers apply the last policy they recognize, so a fallback list is read right to left. */
+export const analyzeReferrerPolicy = (headers: Record<string, string>, dom: CheerioAPI): PolicyHeaderReport => {
+  const value = headers["referrer-policy"] ?? dom('meta[name="referrer" i]').attr("content")?.trim() ?? null;
+  if (!value) {
+    return {
+      value,
+      findings: [
+        finding(
+          "low",
+          "No Referrer-Policy is set; browsers fall back to strict-origin-when-cross-origin.",
+          "Send Referrer-Policy: strict-origin-when-cross-origin so every browser gets the same behaviour.",
+        ),
+      ],
+    };
+  }
+  const effective = value
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter((entry) => REFERRER_POLICIES.has(entry))
+    .pop();
+  if (!effective) {
+    return {
+      value,
+      findings: [
+        finding(
+          "medium",
+          `Referrer-Policy "${value}" has no recognized value.`,
+          "Use a valid Referrer-Policy such as strict-origin-when-cross-origin.",
+        ),
+      ],
+    };
+  }
+  return {
+    value,
+    findings: SAFE_REFERRER_POLICIES.has(effective)
+      ? []
+      : [
+          finding(
+            effective === "unsafe-url" ? "high" : "medium",
+            `Referrer-Policy ${effective} leaks full URLs to other origins.`,
+            "Switch Referrer-Policy to strict-origin-when-cross-origin (or stricter).",
+          ),
+        ],
+  };
+};
+
+export const analyzePermissionsPolicy = (headers: Record<string, string>): PolicyHeaderReport => {
+  const value = headers["permissions-policy"] ?? null;
+  if (!value) {
+    return {
+      value,
+      findings: [
+        finding(
+          "low",
+          headers["feature-policy"]
+            ? "Only the deprecated Feature-Policy header is sent."
+            : "No Permissions-Policy restricts powerful browser features.",
+          "Send Permissions-Policy disabling features the site does not use, e.g. camera=(), microphone=(), geolocation=().",
+        ),
+      ],
+    };
+  }
+  const allowlists = Object.fromEntries(
+    value
+      .split(",")
+      .map((entry) => entry.trim().split("="))
+      .filter(([feature, allowlist]) => feature && allowlist !== undefined)
+      .map(([feature, allowlist]) => [feature.trim().toLowerCase(), allowlist.trim()]),
+  );
+  const open = POWERFUL_FEATURES.filter((feature) => allowlists[feature] === "*");
+  return {
+    value,
+    findings: open.length
+      ? [
+          finding(
+            "medium",
+            `Permissions-Policy grants ${open.join(", ")} to every origin.`,
+            `Limit ${open.join(", ")} in Permissions-Policy to self or to the embeds that need them.`,
+          ),
+        ]
+      : [],
+  };
+};
+
+export const analyzeIsolation = (headers: Record<string, string>): IsolationReport => {
+  const coop = headers["cross-origin-opener-policy"]?.split(";")[0].trim().toLowerCase() || null;
+  const coep = headers["cross-origin-embedder-policy"]?.split(";")[0].trim().toLowerCase() || null;
+  const crossOriginIsolated = coop === "same-origin" && (coep === "require-corp" || coep === "credentialless");
+  const findings: SecurityFinding[] = [];
+  if (!coop || coop === "unsafe-none") {
+    findings.push(
+      finding(
+        "low",
+        "No Cross-Origin-Opener-Policy separates the page from windows it opens or is opened by.",
+        "Send Cross-Origin-Opener-Policy: same-origin-allow-popups (or same-origin if no OAuth or payment popups are used).",
+      ),
+    );
+  }
+  if (coep && coep !== "unsafe-none" && coop !== "same-origin") {
+    findings.push(
+      finding(
+        "low",
+        `Cross-Origin-Embedder-Policy ${coep} has no effect without Cross-Origin-Opener-Policy: same-origin.`,
+        "Pair Cross-Origin-Embedder-Policy with Cross-Origin-Opener-Policy: same-origin to enable cross-origin isolation.",
+      ),
+    );
+  }
+  return { coop, coep, crossOriginIsolated, findings };
+};
+
+const insecureUrls = (value: string, attribute: string) =>
+  (attribute === "srcset" ? value.split(",").map((candidate) => candidate.trim().split(/\s+/)[0]) : [value.trim()]).filter(
+    (url) => url.toLowerCase().startsWith("http://"),
+  );
+
+const collectInsecure = (dom: CheerioAPI, selectors: Array<[string, string]>) => {
+  const urls = new Set<string>();
+  selectors.forEach(([selector, attribute]) => {
+    dom(selector).each((_, node) => {
+      insecureUrls(dom(node).attr(attribute) ?? "", attribute).forEach((url) => urls.add(url));
+    });
+  });
+  return Array.from(urls);
+};
+
+/**
+ * Finds resources an HTTPS page loads over plain HTTP. Links to HTTP pages are
+ * navigation, not mixed content, and are ignored.
+ */
+export const detectMixedContent = (dom: CheerioAPI, csp: CspReport): MixedContentReport => ({
+  active: collectInsecure(dom, ACTIVE_MIXED_SELECTORS),
+  passive: collectInsecure(dom, PASSIVE_MIXED_SELECTORS),
+  insecureForms: collectInsecure(dom, [["form[action]", "action"]]),
+  upgradeInsecureRequests: csp.source !== "report-only" && "upgrade-insecure-requests" in csp.directives,
+});
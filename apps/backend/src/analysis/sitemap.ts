@@ -0,0 +1,212 @@
+import { gunzipSync } from "node:zlib";
+import { XMLParser } from "fast-xml-parser";
+import { SITEMAP_MAX_BYTES, SITEMAP_MAX_URLS } from "./constants";
+import type { SitemapEntrySummary, SitemapIssueType, SitemapValidationIssue } from "./types";
+
+const ISSUE_SAMPLE_LIMIT = 5;
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  allowBooleanAttributes: true,
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+});
+
+// W3C Datetime profile of ISO 8601 required by the sitemap protocol.
+const W3C_DATETIME_PATTERN = /^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?)?)?$/;
+
+const ISSUE_MESSAGES: Record<SitemapIssueType, (count: number) => string> = {
+  unreachable: (count) => `${count} sitemap file(s) could not be downloaded`,
+  "parse-error": (count) => `${count} sitemap file(s) are not valid <urlset> or <sitemapindex> XML`,
+  "url-limit": () => `Sitemap lists more than ${SITEMAP_MAX_URLS.toLocaleString("en-US")} URLs; split it into several files`,
+  "size-limit": () => `Sitemap exceeds ${SITEMAP_MAX_BYTES / 1024 / 1024}MB uncompressed; split it into several files`,
+  "invalid-lastmod": (count) => `${count} <lastmod> value(s) are not W3C Datetime (ISO 8601)`,
+  "relative-loc": (count) => `${count} <loc> value(s) are not absolute URLs`,
+  "cross-host-loc": (count) => `${count} <loc> value(s) point to a different host than the sitemap`,
+  "duplicate-loc": (count) => `${count} URL(s) are listed more than once across sitemaps`,
+  "nested-index": (count) => `${count} sitemap index file(s) reference another sitemap index`,
+};
+
+const ISSUE_SEVERITY: Record<SitemapIssueType, SitemapValidationIssue["severity"]> = {
+  unreachable: "warning",
+  "parse-error": "critical",
+  "url-limit": "critical",
+  "size-limit": "critical",
+  "invalid-lastmod": "warning",
+  "relative-loc": "warning",
+  "cross-host-loc": "warning",
+  "duplicate-loc": "info",
+  "nested-index": "warning",
+};
+
+export interface ParsedSitemap {
+  kind: "urlset" | "sitemapindex" | null;
+  entries: SitemapEntrySummary[];
+  children: string[];
+}
+
+export interface SitemapIssueSummary {
+  type: SitemapIssueType;
+  severity: SitemapValidationIssue["severity"];
+  count: number;
+  sitemaps: string[];
+  samples: string[];
+  message: string;
+}
+
+export const isW3cDatetime = (value: string) => W3C_DATETIME_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+
+/** Gunzips `.xml.gz` payloads (detected by magic bytes) and enforces the uncompressed size limit. */
+export const decodeSitemapBody = (body: Buffer): { text: string | null; gzipped: boolean; bytes: number } => {
+  const gzipped = body.length > 2 && body[0] === 0x1f && body[1] === 0x8b;
+  if (!gzipped) {
+    return { text: body.length > SITEMAP_MAX_BYTES ? null : body.toString("utf8"), gzipped, bytes: body.length };
+  }
+  try {
+    const inflated = gunzipSync(body, { maxOutputLength: SITEMAP_MAX_BYTES });
+    return { text: inflated.toString("utf8"), gzipped, bytes: inflated.length };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+      return { text: null, gzipped, bytes: SITEMAP_MAX_BYTES + 1 };
+    }
+    throw error;
+  }
+};
+
+const toList = (raw: unknown) => (Array.isArray(raw) ? raw : raw ? [raw] : []);
+
+// Empty elements such as `<urlset></urlset>` parse to "" rather than an object.
+const childrenOf = (node: unknown, key: string) =>
+  node && typeof node === "object" ? toList((node as Record<string, unknown>)[key]) : [];
+
+export const parseSitemapDocument = (xml: string): ParsedSitemap => {
+  const payload = xmlParser.parse(xml) as Record<string, unknown> | null;
+  if (!payload || typeof payload !== "object") {
+    return { kind: null, entries: [], children: [] };
+  }
+
+  const urlset = payload.urlset ?? payload.urlSet;
+  const sitemapIndex = payload.sitemapindex ?? payload.sitemapIndex;
+
+  if (sitemapIndex !== undefined) {
+    const children = childrenOf(sitemapIndex, "sitemap")
+      .map((entry) => (entry as Record<string, unknown>)?.loc)
+      .filter((loc): loc is string => typeof loc === "string" && loc.length > 0);
+    return { kind: "sitemapindex", entries: [], children };
+  }
+
+  if (urlset === undefined) {
+    return { kind: null, entries: [], children: [] };
+  }
+
+  const entries = childrenOf(urlset, "url")
+    .map((entry) => entry as Record<string, unknown>)
+    .filter((entry) => typeof entry?.loc === "string")
+    .map((entry) => {
+      const alternates: Array<{ hreflang: string; href: string }> = [];
+      toList(entry.link).forEach((node) => {
+        const candidate = node as Record<string, unknown>;
+        const rel = String(candidate.rel ?? "").toLowerCase();
+        if (rel === "alternate" && typeof candidate.hreflang === "string" && typeof candidate.href === "string") {
+          alternates.push({ hreflang: candidate.hreflang.toLowerCase(), href: candidate.href });
+        }
+      });
+
+      return {
+        loc: String(entry.loc),
+        lastmod: entry.lastmod != null ? String(entry.lastmod) : undefined,
+        alternates: alternates.length ? alternates : undefined,
+      };
+    });
+
+  return { kind: "urlset", entries, children: [] };
+};
+
+export const createSitemapIssue = (
+  type: SitemapIssueType,
+  sitemap: string,
+  samples: string[] = [],
+  count = 1,
+): SitemapValidationIssue => ({
+  type,
+  severity: ISSUE_SEVERITY[type],
+  sitemap,
+  message: ISSUE_MESSAGES[type](count),
+  count,
+  samples: samples.slice(0, ISSUE_SAMPLE_LIMIT),
+});
+
+/**
+ * Checks a parsed `<urlset>` against the sitemap protocol. `seenLocs` is shared
+ * across every file of the site so duplicates are caught between sitemaps too.
+ */
+export const validateSitemapEntries = (
+  sitemapUrl: string,
+  entries: SitemapEntrySummary[],
+  seenLocs: Set<string>,
+): SitemapValidationIssue[] => {
+  const sitemapHost = new URL(sitemapUrl).host.toLowerCase();
+  const findings = new Map<SitemapIssueType, string[]>();
+  const record = (type: SitemapIssueType, sample: string) => {
+    const list = findings.get(type) ?? [];
+    list.push(sample);
+    findings.set(type, list);
+  };
+
+  entries.forEach((entry) => {
+    if (entry.lastmod !== undefined && !isW3cDatetime(entry.lastmod)) {
+      record("invalid-lastmod", `${entry.loc} (${entry.lastmod})`);
+    }
+
+    let locUrl: URL | null = null;
+    try {
+      locUrl = new URL(entry.loc);
+    } catch {
+      record("relative-loc", entry.loc);
+    }
+    if (locUrl && locUrl.host.toLowerCase() !== sitemapHost) {
+      record("cross-host-loc", entry.loc);
+    }
+
+    if (seenLocs.has(entry.loc)) {
+      record("duplicate-loc", entry.loc);
+    } else {
+      seenLocs.add(entry.loc);
+    }
+  });
+
+  const issues: SitemapValidationIssue[] = [];
+  if (entries.length > SITEMAP_MAX_URLS) {
+    issues.push(createSitemapIssue("url-limit", sitemapUrl, [], entries.length));
+  }
+  findings.forEach((samples, type) => {
+    issues.push(createSitemapIssue(type, sitemapUrl, samples, samples.length));
+  });
+  return issues;
+};
+
+/** Merges per-file findings into one entry per issue type for module recommendations. */
+export const summarizeSitemapIssues = (issues: SitemapValidationIssue[]): SitemapIssueSummary[] => {
+  const grouped = new Map<SitemapIssueType, SitemapIssueSummary>();
+  issues.forEach((issue) => {
+    const current = grouped.get(issue.type);
+    if (!current) {
+      grouped.set(issue.type, {
+        type: issue.type,
+        severity: issue.severity,
+        count: issue.count,
+        sitemaps: [issue.sitemap],
+        samples: [...issue.samples],
+        message: issue.message,
+      });
+      return;
+    }
+    current.count += issue.count;
+    current.sitemaps.push(issue.sitemap);
+    current.samples = [...current.samples, ...issue.samples].slice(0, ISSUE_SAMPLE_LIMIT);
+    current.message = ISSUE_MESSAGES[issue.type](current.count);
+  });
+  return Array.from(grouped.values());
+};
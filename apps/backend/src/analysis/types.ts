@@ -1,4 +1,7 @@
 import type { CheerioAPI } from "cheerio";
+import type { DetectorResult } from "../detectors/types";
+import type { RobotsVerdict } from "./robots";
+import type { SchemaEntityReport } from "./schema";
 
 export type AnalyzeStrategy = "mobile" | "desktop";
 
@@ -10,13 +13,36 @@ export type ModuleKey =
   | "social"
   | "security"
   | "accessibility"
-  | "links";
+  | "links"
+  | "ai_readiness"
+  | "content"
+  | "keywords"
+  | "headings"
+  | "local"
+  | "images";
+
+export type ModuleInput =
+  | "psi"
+  | "html"
+  | "robots"
+  | "sitemap"
+  | "geo"
+  | "linkSample"
+  | "detectors"
+  | "llms"
+  | "hreflang"
+  | "keywords"
+  | "images"
+  | "localeProbes";
+
+export type TechnicalDetectorResult = DetectorResult<Record<string, unknown>>;
 
 export interface ModuleDefinition {
   key: ModuleKey;
   label: string;
   weight: number;
   description: string;
+  inputs: ModuleInput[];
 }
 
 export interface ModuleIssues {
@@ -36,6 +62,26 @@ export interface ModuleDetails {
   [key: string]: unknown;
 }
 
+export interface ModuleComputation {
+  score: number;
+  summary: string;
+  recommendations: string[];
+  issues: ModuleIssues;
+  details: ModuleDetails;
+}
+
+export type ModuleComputer = (ctx: AnalysisContext) => Promise<ModuleComputation> | ModuleComputation;
+
+/** One geo signal's share of the geo module; computeGeo adds the deltas up and concatenates the rest. */
+export interface GeoSignalScore {
+  scoreDelta: number;
+  issues: ModuleIssues;
+  recommendations: string[];
+  highlights: HighlightEntry[];
+  /** Clause for the module summary, when the signal contributes one. */
+  summary?: string;
+}
+
 export interface ModuleResult {
   key: ModuleKey;
   label: string;
@@ -53,29 +99,52 @@ export interface AnalyzeOptions {
   strategy?: AnalyzeStrategy;
   locale?: string;
   skipCache?: boolean;
+  /** Target keywords/phrases for the keyword module; the module is skipped when empty. */
+  keywords?: string[];
+  signal?: AbortSignal;
+}
+
+export interface RecheckOptions {
+  url: string;
+  moduleKey: ModuleKey;
+  strategy?: AnalyzeStrategy;
+  locale?: string;
+  /** Overrides the keywords stored with the previous analysis. */
+  keywords?: string[];
   signal?: AbortSignal;
 }
 
 export interface PsiAuditEntry {
   id?: string;
+  title?: string;
+  description?: string;
   score?: number | null;
   numericValue?: number | null;
+  numericUnit?: string;
   displayValue?: string | null;
   details?: unknown;
 }
 
+export interface PsiLoadingExperience {
+  id?: string;
+  overall_category?: string;
+  metrics?: Record<string, Record<string, unknown>>;
+}
+
 export interface PsiResponse {
   id?: string;
   lighthouseResult?: {
     requestedUrl?: string;
     finalUrl?: string;
-    categories?: Record<string, { score?: number | null } | undefined>;
+    finalDisplayedUrl?: string;
+    fetchTime?: string;
+    lighthouseVersion?: string;
+    configSettings?: { formFactor?: string; locale?: string };
+    categories?: Record<string, { id?: string; title?: string; score?: number | null } | undefined>;
     audits?: Record<string, PsiAuditEntry | undefined>;
   };
-  loadingExperience?: {
-    overall_category?: string;
-    metrics?: Record<string, Record<string, unknown>>;
-  };
+  loadingExperience?: PsiLoadingExperience;
+  originLoadingExperience?: PsiLoadingExperience;
   analysisUTCTimestamp?: string;
   version?: {
     major?: number;
@@ -84,6 +153,61 @@ export interface PsiResponse {
   [key: string]: unknown;
 }
 
+export interface PsiFetchResult {
+  response: PsiResponse;
+  cached: boolean;
+  fetchedAt: string;
+}
+
+export interface AuditCategory {
+  id: string;
+  title: string;
+  score: number | null;
+}
+
+export interface AuditMetric {
+  key: string;
+  label: string;
+  displayValue: string | null;
+  numericValue: number | null;
+  unit: string;
+  score: number | null;
+}
+
+export interface AuditOpportunity {
+  id: string;
+  title: string;
+  description?: string;
+  score: number | null;
+  savingsMs: number | null;
+  savingsBytes: number | null;
+}
+
+export interface AuditFieldMetric {
+  percentile: number | null;
+  category: string | null;
+}
+
+export interface AuditResponse {
+  url: string;
+  requestedUrl: string;
+  finalUrl: string;
+  strategy: AnalyzeStrategy;
+  fetchedAt: string;
+  cached: boolean;
+  categories: AuditCategory[];
+  metrics: AuditMetric[];
+  opportunities: AuditOpportunity[];
+  fieldData: {
+    page: Record<string, AuditFieldMetric>;
+    origin: Record<string, AuditFieldMetric>;
+  };
+  psiMeta: {
+    lighthouseVersion?: string;
+    formFactor?: string;
+  };
+}
+
 export interface HtmlFetchResult {
   html: string;
   statusCode: number;
@@ -96,6 +220,35 @@ export interface HtmlFetchResult {
 export interface RobotsResult {
   text: string | null;
   fetchedFrom: string | null;
+  /** Set when robots.txt could not be requested at all (network error or timeout). */
+  error?: string;
+}
+
+export interface JsonLdSuggestion {
+  type: string;
+  /** The page signals the snippet was built from. */
+  derivedFrom: string[];
+  /** The page already declares an entity of this type in some syntax. */
+  alreadyPresent: boolean;
+  jsonLd: Record<string, unknown>;
+  snippet: string;
+  validation: SchemaEntityReport | null;
+}
+
+export interface JsonLdSuggestionResult {
+  url: string;
+  existingTypes: string[];
+  suggestions: JsonLdSuggestion[];
+  /** Candidates dropped because the schema checks found blocking problems. */
+  rejected: Array<{ type: string; reasons: string[] }>;
+}
+
+export interface RobotsTestResult {
+  url: string;
+  robotsUrl: string | null;
+  robotsFound: boolean;
+  sitemaps: string[];
+  results: RobotsVerdict[];
 }
 
 export interface SitemapEntrySummary {
@@ -104,17 +257,70 @@ export interface SitemapEntrySummary {
   alternates?: Array<{ hreflang: string; href: string }>;
 }
 
+export type SitemapIssueType =
+  | "unreachable"
+  | "parse-error"
+  | "url-limit"
+  | "size-limit"
+  | "invalid-lastmod"
+  | "relative-loc"
+  | "cross-host-loc"
+  | "duplicate-loc"
+  | "nested-index";
+
+export interface SitemapValidationIssue {
+  type: SitemapIssueType;
+  severity: "critical" | "warning" | "info";
+  sitemap: string;
+  message: string;
+  count: number;
+  samples: string[];
+}
+
+export interface SitemapFileSummary {
+  url: string;
+  ok: boolean;
+  statusCode?: number;
+  depth: number;
+  kind?: "urlset" | "sitemapindex";
+  gzipped?: boolean;
+  bytes?: number;
+  urlCount?: number;
+  children?: string[];
+  entries?: SitemapEntrySummary[];
+}
+
 export interface SitemapSummary {
   urls: string[];
-  fetched: Array<{
-    url: string;
-    ok: boolean;
-    statusCode?: number;
-    entries?: SitemapEntrySummary[];
-  }>;
+  fetched: SitemapFileSummary[];
   hasHreflang: boolean;
+  totalUrls: number;
+  uniqueUrls: number;
+  entriesWithAlternates: number;
+  truncated: boolean;
+  issues: SitemapValidationIssue[];
 }
 
+export interface GeoLocation {
+  status: "success" | "fail";
+  country?: string;
+  countryCode?: string;
+  regionName?: string;
+  city?: string;
+  isp?: string;
+  asn?: number;
+  message?: string;
+}
+
+export interface GeoAddressResult extends GeoLocation {
+  ip: string;
+  family: 4 | 6;
+}
+
+/**
+ * Geolocation of a hostname. The top-level fields describe the first address
+ * that could be located; `addresses` lists every A/AAAA record separately.
+ */
 export interface GeoLookupResult {
   status?: "success" | "fail";
   country?: string;
@@ -123,6 +329,20 @@ export interface GeoLookupResult {
   isp?: string;
   query?: string;
   message?: string;
+  provider: string;
+  hostname: string;
+  addresses: GeoAddressResult[];
+}
+
+export interface CdnDetection {
+  provider: string;
+  /** IATA code of the edge that served the analyzer's request, when exposed. */
+  pop: string | null;
+  popCity: string | null;
+  popCountry: string | null;
+  /** The provider routes visitors to the nearest POP via anycast. */
+  anycast: boolean;
+  evidence: string[];
 }
 
 export interface LinkSampleEntry {
@@ -130,22 +350,150 @@ export interface LinkSampleEntry {
   statusCode: number | null;
   ok: boolean;
   rel?: string;
+  /** Blocked by robots.txt; such links are not requested, so statusCode stays null. */
+  disallowed?: boolean;
 }
 
 export interface LinkSampleSummary {
   total: number;
   checked: LinkSampleEntry[];
   broken: LinkSampleEntry[];
+  disallowed: LinkSampleEntry[];
   nofollow: number;
 }
 
+export interface HreflangAnnotation {
+  hreflang: string;
+  href: string;
+}
+
+export interface HreflangAlternateCheck {
+  hreflang: string;
+  href: string;
+  /** True when the annotation points at the analyzed page itself. */
+  self: boolean;
+  validCode: boolean;
+  codeIssue: string | null;
+  statusCode: number | null;
+  redirectsTo: string | null;
+  noindex: boolean;
+  canonical: string | null;
+  canonicalMismatch: boolean;
+  /** Whether the alternate annotates the analyzed page back; null when it was not fetched. */
+  returnLink: boolean | null;
+  error?: string;
+}
+
+export interface HreflangClusterResult {
+  url: string;
+  annotations: HreflangAnnotation[];
+  hasXDefault: boolean;
+  hasSelfReference: boolean;
+  /** hreflang values declared more than once with different URLs. */
+  conflictingCodes: string[];
+  alternates: HreflangAlternateCheck[];
+  truncated: boolean;
+}
+
+export interface LlmsFileResult {
+  url: string;
+  found: boolean;
+  statusCode: number | null;
+  contentType: string | null;
+  bytes: number;
+  truncated: boolean;
+  text: string | null;
+}
+
+export interface LlmsTxtResult {
+  llms: LlmsFileResult;
+  llmsFull: LlmsFileResult;
+}
+
+export type AiCrawlerPurpose = "search" | "training";
+
+export interface AiCrawlerAgent {
+  agent: string;
+  vendor: string;
+  purpose: AiCrawlerPurpose;
+}
+
+export type ImageSourceKind = "img" | "picture" | "css-background";
+
+export interface ImageEntry {
+  url: string;
+  kind: ImageSourceKind;
+  alt: string | null;
+  declaredWidth: number | null;
+  declaredHeight: number | null;
+  /** Inline `aspect-ratio` also reserves layout space. */
+  aspectRatio: boolean;
+  loading: string | null;
+  aboveFold: boolean;
+  srcset: boolean;
+  sizes: boolean;
+  /** MIME types offered by sibling `<source>` elements inside `<picture>`. */
+  sourceTypes: string[];
+  format: string | null;
+  bytes: number | null;
+  intrinsicWidth: number | null;
+  intrinsicHeight: number | null;
+  statusCode: number | null;
+  probed: boolean;
+  error?: string;
+}
+
+export interface ImageInventory {
+  total: number;
+  probed: number;
+  truncated: boolean;
+  images: ImageEntry[];
+}
+
+export interface LocaleProbe {
+  /** Accept-Language sent with the request; null for the probe without the header. */
+  acceptLanguage: string | null;
+  statusCode: number | null;
+  redirectsTo: string | null;
+  htmlLang: string | null;
+  title: string | null;
+  contentLanguage: string | null;
+  vary: string | null;
+  error?: string;
+}
+
+export interface LocaleAlternateProbe {
+  hreflang: string;
+  href: string;
+  /** A language other than the alternate's own, as sent by a visitor from another market. */
+  acceptLanguage: string;
+  statusCode: number | null;
+  redirectsTo: string | null;
+  error?: string;
+}
+
+export interface LocaleNegotiationResult {
+  url: string;
+  probes: LocaleProbe[];
+  varyAcceptLanguage: boolean;
+  /** Accept-Language values redirected somewhere other than the request without the header. */
+  redirectingLanguages: string[];
+  /** Locale URL the request without Accept-Language is redirected to (default-locale or IP-based redirect). */
+  defaultRedirect: string | null;
+  /** Accept-Language values answered with a different language or title at the same URL. */
+  contentSwaps: string[];
+  alternates: LocaleAlternateProbe[];
+  truncated: boolean;
+}
+
 export interface AnalysisContext {
   url: URL;
   normalizedUrl: string;
   locale: string;
   targetCountry: string | null;
   strategy: AnalyzeStrategy;
-  psi: PsiResponse;
+  /** Null when only modules without the "psi" input are computed (rechecks, crawls). */
+  psi: PsiResponse | null;
   html: string;
   dom: CheerioAPI;
   headers: Record<string, string>;
@@ -153,6 +501,12 @@ export interface AnalysisContext {
   sitemap: SitemapSummary | null;
   geo: GeoLookupResult | null;
   linkSample: LinkSampleSummary;
+  detectors: TechnicalDetectorResult[];
+  llmsTxt: LlmsTxtResult | null;
+  hreflang: HreflangClusterResult | null;
+  keywords: string[];
+  images: ImageInventory | null;
+  localeNegotiation: LocaleNegotiationResult | null;
 }
 
 export interface AnalysisResult {
@@ -160,6 +514,7 @@ export interface AnalysisResult {
   url: string;
   strategy: AnalyzeStrategy;
   locale: string;
+  keywords: string[];
   overall: number;
   modules: ModuleResult[];
   raw: {
@@ -168,6 +523,7 @@ export interface AnalysisResult {
     robots: string | null;
     sitemap: SitemapSummary | null;
     geo: GeoLookupResult | null;
+    detectors: TechnicalDetectorResult[];
   };
   timingMs: number;
   startedAt: string;
@@ -175,12 +531,27 @@ export interface AnalysisResult {
   historySnapshots: Array<{ timestamp: string; overallScore: number }>;
 }
 
+export interface RecheckResult {
+  ok: boolean;
+  url: string;
+  strategy: AnalyzeStrategy;
+  locale: string;
+  recordId: string;
+  module: ModuleResult;
+  modules: ModuleResult[];
+  overall: number;
+  timingMs: number;
+  timestamp: string;
+  historySnapshots: Array<{ timestamp: string; overallScore: number }>;
+}
+
 export interface AnalysisRecord {
   id: string;
   url: string;
   normalizedUrl: string;
   strategy: AnalyzeStrategy;
   locale: string;
+  keywords?: string[];
   overall: number;
   modules: ModuleResult[];
   createdAt: string;
@@ -188,3 +559,94 @@ export interface AnalysisRecord {
 
 export type AnalysisHistorySnapshot = { timestamp: string; overallScore: number };
 
+
+export interface CrawlOptions {
+  url: string;
+  maxPages?: number;
+  maxDepth?: number;
+  locale?: string;
+  skipCache?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface CrawlPageModuleScore {
+  key: ModuleKey;
+  score: number;
+  issues: ModuleIssues;
+}
+
+export interface CrawlPageResult {
+  url: string;
+  depth: number;
+  source: "start" | "sitemap" | "link";
+  statusCode: number | null;
+  ok: boolean;
+  error?: string;
+  overall: number | null;
+  modules: CrawlPageModuleScore[];
+}
+
+export interface CrawlSkippedUrl {
+  url: string;
+  reason: "robots" | "budget" | "depth";
+}
+
+export interface CrawlModuleSummary {
+  key: ModuleKey;
+  label: string;
+  averageScore: number;
+  issues: ModuleIssues;
+  worstPages: Array<{ url: string; score: number }>;
+}
+
+export interface CrawlNapVariant {
+  value: string;
+  pages: number;
+  sampleUrls: string[];
+}
+
+/** Distinct business names, phones, and addresses seen across crawled pages. */
+export interface CrawlNapSummary {
+  pagesWithNap: number;
+  consistent: boolean;
+  names: CrawlNapVariant[];
+  phones: CrawlNapVariant[];
+  addresses: CrawlNapVariant[];
+}
+
+export interface CrawlReport {
+  url: string;
+  pagesCrawled: number;
+  pagesFailed: number;
+  overall: number;
+  issues: ModuleIssues;
+  modules: CrawlModuleSummary[];
+  pages: CrawlPageResult[];
+  skipped: CrawlSkippedUrl[];
+  nap: CrawlNapSummary;
+  /** Seconds between requests requested by robots.txt; the crawl runs sequentially when set. */
+  crawlDelay: number | null;
+  /**
+   * Why the crawl stopped short: it hit its deadline ("timeout"), or robots.txt
+   * asked for a Crawl-delay above CRAWL_MAX_DELAY_SECONDS and only the start
+   * page was analyzed ("crawl-delay"). Null when the crawl ran to completion.
+   */
+  stopReason: CrawlStopReason | null;
+}
+
+export type CrawlStopReason = "timeout" | "crawl-delay";
+
+export type CrawlStatus = "running" | "completed" | "failed";
+
+export interface CrawlRecord {
+  id: string;
+  url: string;
+  status: CrawlStatus;
+  maxPages: number;
+  maxDepth: number;
+  locale: string;
+  createdAt: string;
+  finishedAt?: string;
+  error?: string;
+  report?: CrawlReport;
+}
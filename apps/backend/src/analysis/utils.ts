@@ -1,4 +1,5 @@
-import type { ModuleIssues, ModuleResult } from "./types";
+import { KEYWORD_LIMIT } from "./constants";
+import type { HighlightEntry, ModuleIssues, ModuleResult } from "./types";
 
 export const clampScore = (value: number, min = 0, max = 10) => {
   if (Number.isNaN(value)) return min;
@@ -23,6 +24,22 @@ export const calculateWeightedScore = (modules: Array<Pick<ModuleResult, "score"
   return roundScore(totals.sum / totals.weight);
 };
 
+/** Accepts an array or a comma-separated string and returns unique, trimmed keywords. */
+export const normalizeKeywords = (value: unknown): string[] => {
+  const raw = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+  const seen = new Set<string>();
+  return raw
+    .filter((entry): entry is string => typeof entry === "string")
+    .map((entry) => entry.replace(/\s+/g, " ").trim())
+    .filter((entry) => {
+      const key = entry.toLowerCase();
+      if (!entry || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, KEYWORD_LIMIT);
+};
+
 export const deriveCountryFromLocale = (locale?: string | null) => {
   if (!locale) return null;
   const match = String(locale).replace("-", "_").split("_");
@@ -39,7 +56,8 @@ export const normalizeHeaders = (headers: Record<string, string | string[] | und
     if (!key) return;
     const headerKey = key.toLowerCase();
     if (Array.isArray(value)) {
-      normalized[headerKey] = value.join(", ");
+      // Cookie expiry dates contain commas, so Set-Cookie lines stay one per line.
+      normalized[headerKey] = value.join(headerKey === "set-cookie" ? "\n" : ", ");
     } else if (typeof value === "string") {
       normalized[headerKey] = value;
     }
@@ -53,6 +71,17 @@ export const createIssueTracker = (initial?: Partial<ModuleIssues>): ModuleIssue
   info: initial?.info ?? 0,
 });
 
+export const sumIssues = (trackers: ModuleIssues[]): ModuleIssues =>
+  trackers.reduce(
+    (sum, tracker) =>
+      createIssueTracker({
+        critical: sum.critical + tracker.critical,
+        warning: sum.warning + tracker.warning,
+        info: sum.info + tracker.info,
+      }),
+    createIssueTracker(),
+  );
+
 export const incrementIssue = (issues: ModuleIssues, severity: keyof ModuleIssues) => {
   issues[severity] += 1;
 };
@@ -61,3 +90,20 @@ export const formatNumber = (value: number | null | undefined, digits = 2) => {
   if (value == null || Number.isNaN(value)) return null;
   return Number(value.toFixed(digits));
 };
+
+export const formatMs = (value: number | null | undefined) => {
+  if (value == null || Number.isNaN(value)) return null;
+  if (value >= 1000) return `${(value / 1000).toFixed(2)}s`;
+  return `${Math.round(value)}ms`;
+};
+
+export const formatRatio = (value: number) => `${Math.round(value * 100)}%`;
+
+export const toHighlight = (
+  label: string,
+  value: string | number | null | undefined,
+  status?: HighlightEntry["status"],
+) => {
+  if (value == null) return null;
+  return { label, value: String(value), status };
+};
@@ -1,10 +1,11 @@
+import { evaluateRobots, parseRobotsTxt } from "../analysis/robots";
 import { DetectorResult, DetectorRuntimeContext } from "./types";
 import {
   absoluteUrl,
   collectJsonLdByType,
   computeSimHash,
   createIssueBuckets,
-  extractJsonLdPayloads,
+  extractStructuredDataPayloads,
   fetchDocument,
   pushIssue,
   simHashSimilarity,
@@ -16,22 +17,40 @@ interface Detector {
 }
 
 const USER_AGENT = "DreamSEO-AuditBot/1.0 (+https://dreamseo.dev)";
+const REQUEST_TIMEOUT_MS = 5000;
+
+/**
+ * Runs one detector request under its own timeout while still aborting with
+ * the caller. The timeout stays referenced until `run` settles: AbortSignal.any
+ * holds its sources weakly, so an unreferenced timeout can be collected unfired.
+ */
+async function withRequestTimeout<T>(signal: AbortSignal | undefined, run: (signal: AbortSignal) => Promise<T>) {
+  const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+  try {
+    return await run(signal ? AbortSignal.any([signal, timeout]) : timeout);
+  } finally {
+    void timeout;
+  }
+}
 
-async function fetchRobotsTxt(url: URL): Promise<string | null> {
+async function fetchRobotsTxt(url: URL, signal?: AbortSignal): Promise<string | null> {
   try {
-    const response = await fetch(new URL("/robots.txt", url.origin), {
-      headers: { "User-Agent": USER_AGENT },
+    return await withRequestTimeout(signal, async (requestSignal) => {
+      const response = await fetch(new URL("/robots.txt", url.origin), {
+        headers: { "User-Agent": USER_AGENT },
+        signal: requestSignal,
+      });
+      if (!response.ok) {
+        return null;
+      }
+      return await response.text();
     });
-    if (!response.ok) {
-      return null;
-    }
-    return await response.text();
   } catch {
     return null;
   }
 }
 
-const detectFavicon: Detector = async ({ document, url }) => {
+const detectFavicon: Detector = async ({ document, url, signal }) => {
   const buckets = createIssueBuckets();
   const iconNodes = Array.from(
     document.querySelectorAll('link[rel~="icon"], link[rel="shortcut icon"], link[rel="apple-touch-icon"]'),
@@ -58,7 +77,9 @@ const detectFavicon: Detector = async ({ document, url }) => {
   const fallbackUrl = new URL("/favicon.ico", url.origin).toString();
   let fallbackReachable = false;
   try {
-    const response = await fetch(fallbackUrl, { method: "HEAD", headers: { "User-Agent": USER_AGENT } });
+    const response = await withRequestTimeout(signal, (requestSignal) =>
+      fetch(fallbackUrl, { method: "HEAD", headers: { "User-Agent": USER_AGENT }, signal: requestSignal }),
+    );
     fallbackReachable = response.ok;
     if (!response.ok) {
       throw new Error("bad status");
@@ -160,7 +181,8 @@ const detectRobotsMeta: Detector = async ({ document }) => {
 
 const detectRobotsTxt: Detector = async (context) => {
   const buckets = createIssueBuckets();
-  const robotsTxt = context.robotsTxt ?? (await fetchRobotsTxt(context.url));
+  const robotsTxt =
+    context.robotsTxt !== undefined ? context.robotsTxt : await fetchRobotsTxt(context.url, context.signal);
 
   if (!robotsTxt) {
     pushIssue(buckets, "warnings", {
@@ -178,55 +200,37 @@ const detectRobotsTxt: Detector = async (context) => {
     };
   }
 
-  const lines = robotsTxt
-    .split(/\r?\n/)
-    .map((line) => line.replace(/#.*$/, "").trim())
-    .filter(Boolean);
-
-  const userAgents: Record<string, { allow: string[]; disallow: string[] }> = {};
-  const sitemaps: string[] = [];
-  let currentAgent: string | null = null;
-
-  lines.forEach((line) => {
-    const [directiveRaw, valueRaw] = line.split(":").map((chunk) => chunk.trim());
-    if (!directiveRaw || !valueRaw) return;
-
-    const directive = directiveRaw.toLowerCase();
-
-    switch (directive) {
-      case "user-agent":
-        currentAgent = valueRaw.toLowerCase();
-        if (!userAgents[currentAgent]) {
-          userAgents[currentAgent] = { allow: [], disallow: [] };
-        }
-        break;
-      case "allow":
-        if (currentAgent) {
-          userAgents[currentAgent].allow.push(valueRaw);
-        }
-        break;
-      case "disallow":
-        if (currentAgent) {
-          userAgents[currentAgent].disallow.push(valueRaw);
-        }
-        break;
-      case "sitemap":
-        sitemaps.push(valueRaw);
-        break;
-      default:
-        break;
-    }
+  const parsed = parseRobotsTxt(robotsTxt);
+  const sitemaps = parsed.sitemaps;
+  const userAgents: Record<string, { allow: string[]; disallow: string[]; crawlDelay: number | null }> = {};
+  parsed.groups.forEach((group) => {
+    group.userAgents.forEach((agent) => {
+      const entry = (userAgents[agent] ??= { allow: [], disallow: [], crawlDelay: null });
+      group.rules.forEach((rule) => entry[rule.type].push(rule.path));
+      entry.crawlDelay = entry.crawlDelay ?? group.crawlDelay;
+    });
   });
 
-  const universal = userAgents["*"];
-  if (universal?.disallow.includes("/")) {
+  const universal = evaluateRobots(parsed, context.url, "*");
+  const googlebot = evaluateRobots(parsed, context.url, "Googlebot");
+  if (!universal.allowed) {
     pushIssue(buckets, "critical", {
-      summary: "robots.txt blocks all crawling",
+      summary: "robots.txt blocks crawling of this page",
       details: {
-        directive: "Disallow: /",
+        directive: `Disallow: ${universal.matchedRule?.path}`,
+        line: universal.matchedRule?.line,
         userAgent: "*",
       },
     });
+  } else if (!googlebot.allowed) {
+    pushIssue(buckets, "critical", {
+      summary: "robots.txt blocks Googlebot from this page",
+      details: {
+        directive: `Disallow: ${googlebot.matchedRule?.path}`,
+        line: googlebot.matchedRule?.line,
+        userAgent: googlebot.matchedGroup?.join(", "),
+      },
+    });
   }
 
   if (!sitemaps.length) {
@@ -318,24 +322,25 @@ const detectMobileViewport: Detector = async ({ document }) => {
   };
 };
 
-async function safeHeadRequest(url: string) {
+// Redirects are followed: a 301 to a live page is a working link.
+async function safeHeadRequest(url: string, signal?: AbortSignal) {
   try {
-    const response = await fetch(url, {
-      method: "HEAD",
-      redirect: "manual",
-      headers: { "User-Agent": USER_AGENT },
-    });
-    if (response.status === 405) {
-      const fallback = await fetch(url, { method: "GET", redirect: "manual", headers: { "User-Agent": USER_AGENT } });
+    return await withRequestTimeout(signal, async (requestSignal) => {
+      const response = await fetch(url, { method: "HEAD", headers: { "User-Agent": USER_AGENT }, signal: requestSignal });
+      if (response.status !== 405) {
+        return response;
+      }
+      const fallback = await fetch(url, { method: "GET", headers: { "User-Agent": USER_AGENT }, signal: requestSignal });
+      // Only the status matters; release the connection instead of downloading the page.
+      await fallback.body?.cancel().catch(() => undefined);
       return fallback;
-    }
-    return response;
+    });
   } catch (error) {
     return { ok: false, status: 0, statusText: (error as Error).message } as Response;
   }
 }
 
-const detectExternalLinkHealth: Detector = async ({ document, url }) => {
+const detectExternalLinkHealth: Detector = async ({ document, url, signal }) => {
   const buckets = createIssueBuckets();
   const anchors = Array.from(document.querySelectorAll("a[href]"));
   const origin = url.origin;
@@ -357,7 +362,7 @@ const detectExternalLinkHealth: Detector = async ({ document, url }) => {
 
   const linkResults = await Promise.all(
     externalLinks.map(async (link) => {
-      const response = await safeHeadRequest(link);
+      const response = await safeHeadRequest(link, signal);
       return {
         url: link,
         status: response.status,
@@ -392,7 +397,7 @@ const detectExternalLinkHealth: Detector = async ({ document, url }) => {
 
 const detectGeoLocalization: Detector = async ({ document, url }) => {
   const buckets = createIssueBuckets();
-  const payloads = extractJsonLdPayloads(document);
+  const payloads = extractStructuredDataPayloads(document).map((entry) => entry.payload);
 
   const localBusinessNodes = collectJsonLdByType(payloads, (types) => types.includes("localbusiness"));
   const postalAddressNodes = collectJsonLdByType(payloads, (types) => types.includes("postaladdress"));
@@ -631,7 +636,12 @@ const detectDuplicateContent: Detector = async ({ document }) => {
 
 const detectStructuredData: Detector = async ({ document, url }) => {
   const buckets = createIssueBuckets();
-  const payloads = extractJsonLdPayloads(document);
+  const structuredData = extractStructuredDataPayloads(document);
+  const payloads = structuredData.map((entry) => entry.payload);
+  const syntaxCounts = structuredData.reduce<Record<string, number>>((acc, entry) => {
+    acc[entry.syntax] = (acc[entry.syntax] ?? 0) + 1;
+    return acc;
+  }, {});
 
   const getSchemas = (type: string) => collectJsonLdByType(payloads, (types) => types.includes(type.toLowerCase()));
 
@@ -734,6 +744,7 @@ const detectStructuredData: Detector = async ({ document, url }) => {
       websiteCount: websiteSchemas.length,
       webPageCount: webPageSchemas.length,
       hasWebsiteSearchAction,
+      syntaxCounts,
       richResultsPreviewUrl,
     },
     issues: buckets,
@@ -759,13 +770,19 @@ export async function runTechnicalDetectors(targetUrl: string): Promise<Detector
   const { document, html } = await fetchDocument(url.toString());
   const robotsTxt = await fetchRobotsTxt(url);
 
-  const context: DetectorRuntimeContext = {
+  return runDetectors({
     url,
     document,
     html,
     robotsTxt,
-  };
+  });
+}
 
+/**
+ * Runs every detector against an already downloaded page. Pass `robotsTxt: null`
+ * when robots.txt is known to be missing so it is not requested again.
+ */
+export async function runDetectors(context: DetectorRuntimeContext): Promise<DetectorResult<Record<string, unknown>>[]> {
   const results: DetectorResult<Record<string, unknown>>[] = [];
   for (const detector of detectors) {
     try {
@@ -27,4 +27,13 @@ export interface FetchContext {
 
 export interface DetectorRuntimeContext extends FetchContext {
   robotsTxt?: string | null;
+  /** Aborts the detectors' own requests together with the analysis that runs them. */
+  signal?: AbortSignal;
+}
+
+export type StructuredDataSyntax = "json-ld" | "microdata" | "rdfa";
+
+export interface StructuredDataPayload {
+  syntax: StructuredDataSyntax;
+  payload: unknown;
 }
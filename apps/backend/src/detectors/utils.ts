@@ -1,6 +1,6 @@
 import { createHash } from "node:crypto";
 import { parseHTML } from "linkedom";
-import { DetectorIssue, IssueBuckets, IssueSeverity } from "./types";
+import { DetectorIssue, IssueBuckets, IssueSeverity, StructuredDataPayload } from "./types";
 
 export const HASH_BITS = 64;
 
@@ -80,6 +80,136 @@ export function extractJsonLdPayloads(document: Document): unknown[] {
   return payloads;
 }
 
+// Microdata and RDFa items are normalized into JSON-LD shaped objects
+// (`@type`, `@id`, property -> value or nested object) so the same graph
+// walkers handle all three syntaxes.
+
+const URL_VALUE_ATTRIBUTES: Record<string, string> = {
+  a: "href",
+  area: "href",
+  link: "href",
+  audio: "src",
+  embed: "src",
+  iframe: "src",
+  img: "src",
+  source: "src",
+  track: "src",
+  video: "src",
+  object: "data",
+};
+
+/** Reduces `https://schema.org/Product` or `schema:Product` to `Product`. */
+function localTypeName(value: string): string {
+  return value.replace(/^.*[/#:]/, "");
+}
+
+function addProperty(target: Record<string, unknown>, name: string, value: unknown) {
+  const existing = target[name];
+  if (existing === undefined) {
+    target[name] = value;
+  } else if (Array.isArray(existing)) {
+    existing.push(value);
+  } else {
+    target[name] = [existing, value];
+  }
+}
+
+/** `content` wins on any element: schema.org examples put machine values there for both syntaxes. */
+function literalValue(element: Element): string {
+  const tag = element.tagName.toLowerCase();
+  if (element.hasAttribute("content")) return element.getAttribute("content") ?? "";
+  const urlAttribute = URL_VALUE_ATTRIBUTES[tag];
+  if (urlAttribute && element.hasAttribute(urlAttribute)) return element.getAttribute(urlAttribute) ?? "";
+  if ((tag === "data" || tag === "meter") && element.hasAttribute("value")) return element.getAttribute("value") ?? "";
+  if (tag === "time" && element.hasAttribute("datetime")) return element.getAttribute("datetime") ?? "";
+  return (element.textContent ?? "").replace(/\s+/g, " ").trim();
+}
+
+function splitTokens(value: string | null): string[] {
+  return (value ?? "").split(/\s+/).filter(Boolean);
+}
+
+function readMicrodataItem(element: Element, document: Document, seen: Set<Element>): Record<string, unknown> {
+  const item: Record<string, unknown> = {};
+  const types = splitTokens(element.getAttribute("itemtype")).map(localTypeName);
+  if (types.length) item["@type"] = types.length === 1 ? types[0] : types;
+  const id = element.getAttribute("itemid");
+  if (id) item["@id"] = id;
+  seen.add(element);
+
+  const visit = (children: Element[]) => {
+    children.forEach((child) => {
+      const names = splitTokens(child.getAttribute("itemprop"));
+      if (child.hasAttribute("itemscope")) {
+        if (names.length && !seen.has(child)) {
+          const nested = readMicrodataItem(child, document, seen);
+          names.forEach((name) => addProperty(item, name, nested));
+        }
+        return;
+      }
+      names.forEach((name) => addProperty(item, name, literalValue(child)));
+      visit(Array.from(child.children));
+    });
+  };
+
+  visit(Array.from(element.children));
+  // itemref pulls properties from elements elsewhere in the document.
+  const referenced = splitTokens(element.getAttribute("itemref"))
+    .map((ref) => document.getElementById(ref))
+    .filter((node): node is HTMLElement => node !== null);
+  visit(referenced);
+  return item;
+}
+
+export function extractMicrodataPayloads(document: Document): unknown[] {
+  const seen = new Set<Element>();
+  return Array.from(document.querySelectorAll("[itemscope]:not([itemprop])")).map((element) =>
+    readMicrodataItem(element, document, seen),
+  );
+}
+
+function readRdfaResource(element: Element): Record<string, unknown> {
+  const resource: Record<string, unknown> = {};
+  const types = splitTokens(element.getAttribute("typeof")).map(localTypeName);
+  if (types.length) resource["@type"] = types.length === 1 ? types[0] : types;
+  const id = element.getAttribute("resource") ?? element.getAttribute("about");
+  if (id) resource["@id"] = id;
+
+  const visit = (children: Element[]) => {
+    children.forEach((child) => {
+      const names = splitTokens(child.getAttribute("property")).map(localTypeName);
+      if (child.hasAttribute("typeof")) {
+        // A typed element without `property` starts an unrelated top-level resource.
+        if (names.length) {
+          const nested = readRdfaResource(child);
+          names.forEach((name) => addProperty(resource, name, nested));
+        }
+        return;
+      }
+      const value = child.getAttribute("resource") ?? literalValue(child);
+      names.forEach((name) => addProperty(resource, name, value));
+      visit(Array.from(child.children));
+    });
+  };
+
+  visit(Array.from(element.children));
+  return resource;
+}
+
+/** Parses RDFa Lite (`vocab`, `typeof`, `property`, `resource`), the subset schema.org documents. */
+export function extractRdfaPayloads(document: Document): unknown[] {
+  return Array.from(document.querySelectorAll("[typeof]:not([property])")).map(readRdfaResource);
+}
+
+/** JSON-LD, microdata, and RDFa payloads tagged with the syntax they were written in. */
+export function extractStructuredDataPayloads(document: Document): StructuredDataPayload[] {
+  return [
+    ...extractJsonLdPayloads(document).map((payload) => ({ syntax: "json-ld" as const, payload })),
+    ...extractMicrodataPayloads(document).map((payload) => ({ syntax: "microdata" as const, payload })),
+    ...extractRdfaPayloads(document).map((payload) => ({ syntax: "rdfa" as const, payload })),
+  ];
+}
+
 type JsonValue = Record<string, unknown> | JsonValue[] | string | number | null | boolean;
 
 function collectJsonObjects(value: JsonValue, collection: Record<string, unknown>[]) {
@@ -6,7 +6,20 @@ import { ReportGenerator } from "lighthouse/report/generator/report-generator.js
 import { generatePdf } from "html-pdf-node";
 import detectPort from "detect-port";
 import { runLighthouseSuite } from "./lighthouse-runner";
-import { analyzeSite, AnalysisTimeoutError, calculateWeightedScore } from "./analysis";
+import {
+  analyzeSite,
+  AnalysisInputError,
+  AnalysisNotFoundError,
+  AnalysisTimeoutError,
+  MODULE_DEFINITION_MAP,
+  recheckModule,
+  runLighthouseAudit,
+  startCrawl,
+  suggestStructuredData,
+  testRobotsAccess,
+} from "./analysis";
+import type { ModuleKey } from "./analysis/types";
+import { normalizeKeywords } from "./analysis/utils";
 import {
   getLatestLighthouseRun,
   getLatestLighthouseRunForUrl,
@@ -16,6 +29,7 @@ import {
   readLighthouseRuns,
 } from "./storage/lighthouse-store";
 import { saveShareRecord, getShareRecord } from "./storage/share-store";
+import { getCrawlRunById } from "./storage/crawl-store";
 import type { ExportPayload, ModuleSnapshot } from "./types";
 
 const configuredOrigins = (process.env.CORS_ORIGIN ?? "*")
@@ -339,7 +353,7 @@ app.get("/api/events", (req, res) => {
 });
 
 app.post("/api/analyze", async (req, res) => {
-  const { url, strategy, locale, skipCache } = req.body ?? {};
+  const { url, strategy, locale, skipCache, keywords } = req.body ?? {};
   if (!url || typeof url !== "string") {
     return res.status(400).json({ error: "url is required" });
   }
@@ -350,6 +364,7 @@ app.post("/api/analyze", async (req, res) => {
       strategy,
       locale,
       skipCache: Boolean(skipCache),
+      keywords: normalizeKeywords(keywords),
     });
 
     res.json(analysis);
@@ -367,47 +382,172 @@ app.post("/api/analyze", async (req, res) => {
   }
 });
 
+app.post("/api/audit/lighthouse", async (req, res) => {
+  const { url, strategy, locale, skipCache } = req.body ?? {};
+  if (!url || typeof url !== "string") {
+    return res.status(400).json({ error: "url is required" });
+  }
+
+  try {
+    normalizeAuditUrl(url);
+  } catch {
+    return res.status(400).json({ error: "url must be a valid http(s) URL" });
+  }
+
+  try {
+    const audit = await runLighthouseAudit({
+      url,
+      strategy,
+      locale,
+      skipCache: Boolean(skipCache),
+    });
+    res.setHeader("Cache-Control", "no-store");
+    return res.json(audit);
+  } catch (error) {
+    console.error("Unable to run PageSpeed Insights audit", error);
+    return res.status(502).json({
+      error: `Unable to run PageSpeed Insights audit: ${(error as Error).message}`,
+    });
+  }
+});
+
 app.post("/api/recheck/:moduleId", async (req, res) => {
-  const modulesInput = req.body?.modules;
-  if (!Array.isArray(modulesInput) || !modulesInput.length) {
-    return res.status(400).json({ error: "modules array is required" });
+  const definition = MODULE_DEFINITION_MAP.get(req.params.moduleId as ModuleKey);
+  if (!definition) {
+    return res.status(404).json({ error: `Unknown module "${req.params.moduleId}"` });
   }
 
-  const normalizedModules = normalizeModules(modulesInput as ModuleSnapshot[]);
-  const targetIndex = normalizedModules.findIndex((module) => module.id === req.params.moduleId);
-  if (targetIndex === -1) {
-    return res.status(404).json({ error: "Module not found in payload" });
+  const { url, strategy, locale, keywords } = req.body ?? {};
+  if (!url || typeof url !== "string") {
+    return res.status(400).json({ error: "url is required" });
   }
 
-  const target = normalizedModules[targetIndex];
-  const now = new Date();
+  try {
+    normalizeAuditUrl(url);
+  } catch {
+    return res.status(400).json({ error: "url must be a valid http(s) URL" });
+  }
 
-  const delta = Number(((Math.random() - 0.3) * 0.8).toFixed(2));
-  const updatedScore = Math.max(0, Math.min(10, Number((target.score + delta).toFixed(2))));
+  try {
+    const result = await recheckModule({
+      url,
+      moduleKey: definition.key,
+      strategy: strategy === "desktop" || strategy === "mobile" ? strategy : undefined,
+      locale: typeof locale === "string" ? locale : undefined,
+      keywords: normalizeKeywords(keywords),
+    });
 
-  const updatedModule: ModuleSnapshot = {
-    ...target,
-    score: updatedScore,
-    lastChecked: now.toISOString(),
-  };
+    res.json(result);
 
-  normalizedModules[targetIndex] = updatedModule;
-  const overallScore = calculateWeightedScore(
-    normalizedModules.map((module) => ({ score: module.score, weight: module.weight })),
-  );
+    sendEvent("toast", {
+      title: "Module Rechecked",
+      description: `${result.module.label} was updated successfully.`,
+    });
+  } catch (error) {
+    if (error instanceof AnalysisNotFoundError) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof AnalysisInputError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof AnalysisTimeoutError) {
+      return res.status(504).json({ error: error.message });
+    }
+    console.error("Unable to recheck module", error);
+    return res.status(500).json({ error: "Unable to recheck module", message: (error as Error).message });
+  }
+});
 
-  const responsePayload = {
-    module: updatedModule,
-    overallScore,
-    timestamp: now.toISOString(),
-  };
+app.post("/api/crawls", async (req, res) => {
+  const { url, maxPages, maxDepth, locale, skipCache } = req.body ?? {};
+  if (!url || typeof url !== "string") {
+    return res.status(400).json({ error: "url is required" });
+  }
 
-  res.json(responsePayload);
+  try {
+    normalizeAuditUrl(url);
+  } catch {
+    return res.status(400).json({ error: "url must be a valid http(s) URL" });
+  }
 
-  sendEvent("toast", {
-    title: "Module Rechecked",
-    description: `${updatedModule.name} was updated successfully.`,
-  });
+  try {
+    const record = await startCrawl(
+      {
+        url,
+        maxPages,
+        maxDepth,
+        locale: typeof locale === "string" ? locale : undefined,
+        skipCache: Boolean(skipCache),
+      },
+      (finished) => {
+        sendEvent("toast", {
+          title: finished.status === "completed" ? "Crawl complete" : "Crawl failed",
+          description:
+            finished.status === "completed"
+              ? `Crawled ${finished.report?.pagesCrawled ?? 0} pages on ${finished.url}`
+              : `Unable to crawl ${finished.url}: ${finished.error ?? "unknown error"}`,
+        });
+      },
+    );
+    return res.status(202).json(record);
+  } catch (error) {
+    console.error("Unable to start crawl", error);
+    return res.status(500).json({ error: "Unable to start crawl", message: (error as Error).message });
+  }
+});
+
+app.get("/api/crawls/:id", async (req, res) => {
+  const record = await getCrawlRunById(req.params.id);
+  if (!record) {
+    return res.status(404).json({ error: "Crawl not found." });
+  }
+  res.setHeader("Cache-Control", "no-store");
+  return res.json(record);
+});
+
+app.get("/api/robots/test", async (req, res) => {
+  const { url, agent } = req.query;
+  if (!url || typeof url !== "string") {
+    return res.status(400).json({ error: "url is required" });
+  }
+
+  const agents = (Array.isArray(agent) ? agent : [agent])
+    .filter((value): value is string => typeof value === "string")
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+  try {
+    normalizeAuditUrl(url);
+  } catch {
+    return res.status(400).json({ error: "url must be a valid http(s) URL" });
+  }
+
+  try {
+    const result = await testRobotsAccess(url, agents.length ? agents : ["Googlebot"]);
+    return res.json(result);
+  } catch (error) {
+    console.error("Unable to test robots.txt", error);
+    return res.status(502).json({ error: "Unable to test robots.txt", message: (error as Error).message });
+  }
+});
+
+app.post("/api/schema/suggestions", async (req, res) => {
+  const { url, skipCache } = req.body ?? {};
+  if (!url || typeof url !== "string") {
+    return res.status(400).json({ error: "url is required" });
+  }
+
+  try {
+    const result = await suggestStructuredData(url, Boolean(skipCache));
+    return res.json(result);
+  } catch (error) {
+    console.error("Unable to generate structured data suggestions", error);
+    return res.status(502).json({
+      error: "Unable to generate structured data suggestions",
+      message: (error as Error).message,
+    });
+  }
 });
 
 app.get("/", (_req, res) => {
@@ -0,0 +1,57 @@
+import path from "node:path";
+import fs from "fs-extra";
+import type { CrawlRecord } from "../analysis/types";
+
+const STORE_PATH = path.resolve(process.cwd(), "data", "crawl-runs.json");
+
+// Every save rewrites the whole file, so file access runs one task at a time:
+// otherwise concurrent crawls lose each other's updates and a read can catch a
+// half-written file.
+let pending: Promise<unknown> = Promise.resolve();
+
+function serialize<T>(task: () => Promise<T>): Promise<T> {
+  const run = pending.then(task);
+  pending = run.catch(() => undefined);
+  return run;
+}
+
+async function ensureStore() {
+  await fs.ensureDir(path.dirname(STORE_PATH));
+  await fs.ensureFile(STORE_PATH);
+  const stats = await fs.stat(STORE_PATH);
+  if (stats.size === 0) {
+    await fs.writeJSON(STORE_PATH, []);
+  }
+}
+
+async function loadCrawlRuns(): Promise<CrawlRecord[]> {
+  await ensureStore();
+  return fs.readJSON(STORE_PATH);
+}
+
+export function readCrawlRuns(): Promise<CrawlRecord[]> {
+  return serialize(loadCrawlRuns);
+}
+
+async function writeCrawlRuns(runs: CrawlRecord[]) {
+  await ensureStore();
+  await fs.writeJSON(STORE_PATH, runs, { spaces: 2 });
+}
+
+export function saveCrawlRun(record: CrawlRecord) {
+  return serialize(async () => {
+    const runs = await loadCrawlRuns();
+    const index = runs.findIndex((run) => run.id === record.id);
+    if (index === -1) {
+      runs.push(record);
+    } else {
+      runs[index] = record;
+    }
+    await writeCrawlRuns(runs);
+  });
+}
+
+export async function getCrawlRunById(id: string) {
+  const runs = await readCrawlRuns();
+  return runs.find((run) => run.id === id) ?? null;
+}